@@ -1,26 +1,45 @@
 
-import React, { useState, useEffect } from 'react';
-import { ViewState, AppData, Client, Payment, Expense, User, UserRole } from './types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ViewState, AppData, Client, Project, Quote, Invoice, BillingTemplate, Payment, Expense, ExpenseRule, User, UserAccount } from './types';
 import { Sidebar } from './components/Sidebar';
 import { Dashboard } from './components/Dashboard';
 import { Clients } from './components/Clients';
+import { Quotes, QuoteConversion } from './components/Quotes';
+import { Invoices } from './components/Invoices';
 import { Expenses } from './components/Expenses';
 import { Payments } from './components/Payments';
 import { Reports } from './components/Reports';
 import { Settings } from './components/Settings';
+import { Activity } from './components/Activity';
 import { Login } from './components/Login';
-import { Menu } from 'lucide-react';
-import { dataService } from './services/dataService';
+import { ChangePasswordDialog } from './components/ChangePasswordDialog';
+import { PasswordPrompt } from './components/PasswordPrompt';
+import { LockScreen } from './components/LockScreen';
+import { Menu, Radio, X } from 'lucide-react';
+import { dataService, withoutDeleted, RecyclableCollection, ClientInUseError, ClientRemoval } from './services/dataService';
+import { createConfiguredBackend, ConflictError, applyRemoteChange, describeChange, emptyData } from './services/backends';
+import { outbox } from './services/outbox';
+import { nextInvoiceNumber } from './services/invoices';
+import { nextQuoteNumber, quoteInvoice, quoteProject, quoteProjectOf } from './services/quotes';
+import { MAX_CATCH_UP, billingInvoice, billingQueue, dueExpenseRun, followingDate, localDay } from './services/recurring';
+import { authService } from './services/authService';
+import { appLock, isIdle, lastActivity } from './services/auth';
+import { can, visibleData } from './services/permissions';
 
-const AUTH_KEY = 'biztrack_auth_v1';
 
 const App: React.FC = () => {
   const [currentView, setCurrentView] = useState<ViewState>(ViewState.DASHBOARD);
-  const [data, setData] = useState<AppData>({ clients: [], payments: [], expenses: [] });
+  const [data, setData] = useState<AppData>(emptyData());
   const [isMobileOpen, setIsMobileOpen] = useState(false);
   const [isInitialized, setIsInitialized] = useState(false);
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [hasConnectionError, setHasConnectionError] = useState(false);
+  const [syncStatus, setSyncStatus] = useState({ pending: 0, failed: 0 });
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [remoteUpdate, setRemoteUpdate] = useState<string | null>(null);
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
+  const [isLocked, setIsLocked] = useState(false);
+  const [passwordPrompt, setPasswordPrompt] = useState<{ reason: string; resolve: (confirmed: boolean) => void } | null>(null);
 
   const loadData = async () => {
     try {
@@ -33,38 +52,149 @@ const App: React.FC = () => {
     }
   };
 
+  const syncPending = async () => {
+    if (outbox.pending().length === 0) return;
+    setIsSyncing(true);
+    try {
+      const result = await dataService.syncPending();
+      if (result && result.failed > 0) {
+        alert(`${result.failed} queued change(s) were rejected by the cloud database. Review them in Settings > Pending Sync.`);
+      }
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  // Track the offline outbox and replay it whenever connectivity returns
+  useEffect(() => {
+    const refreshSyncStatus = () => {
+      const items = outbox.list();
+      setSyncStatus({
+        pending: items.filter(item => !item.failed).length,
+        failed: items.filter(item => item.failed).length
+      });
+    };
+    refreshSyncStatus();
+    const unsubscribe = outbox.subscribe(refreshSyncStatus);
+    window.addEventListener('online', syncPending);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', syncPending);
+    };
+  }, []);
+
+  // Merge rows changed by other users (or other tabs) into state as they arrive
+  useEffect(() => {
+    return dataService.onChange(change => {
+      setData(prev => applyRemoteChange(prev, change));
+      if (change.collection !== 'auditLog') setRemoteUpdate(describeChange(change));
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!remoteUpdate) return;
+    const timer = setTimeout(() => setRemoteUpdate(null), 5000);
+    return () => clearTimeout(timer);
+  }, [remoteUpdate]);
+
+  // Attribute every change in the audit log to whoever is signed in
+  useEffect(() => {
+    dataService.setActor(currentUser);
+  }, [currentUser]);
+
+  // Role and status edits to the signed-in user's own directory entry apply immediately
+  useEffect(() => {
+    if (!currentUser) return;
+    const account = data.users.find(u => u.email === currentUser.email);
+    if (!account) return;
+    if (account.status === 'DEACTIVATED') {
+      alert('Your account has been deactivated.');
+      handleLogout();
+    } else if (account.role !== currentUser.role || account.name !== currentUser.name) {
+      setCurrentUser({ email: account.email, name: account.name, role: account.role });
+    }
+  }, [data.users]);
+
+  const lock = () => {
+    appLock.lock();
+    setIsLocked(true);
+  };
+
+  // Lock after the idle timeout and sign out once the session expires. Input on the lock screen
+  // isn't activity: it would let a reload skip the password.
+  useEffect(() => {
+    if (!currentUser) return;
+    let lastTouched = 0;
+    const handleActivity = () => {
+      // Throttled: mousemove alone fires far more often than the timeout needs
+      if (Date.now() - lastTouched < 5000) return;
+      lastTouched = Date.now();
+      lastActivity.touch();
+    };
+    const activityEvents = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'scroll'];
+    if (!isLocked) activityEvents.forEach(name => window.addEventListener(name, handleActivity, { passive: true }));
+
+    const timer = setInterval(async () => {
+      if (!isLocked && isIdle()) lock();
+      if (!(await authService.isSessionValid())) {
+        alert('Your session has expired. Please sign in again.');
+        handleLogout();
+      }
+    }, 30000);
+
+    return () => {
+      activityEvents.forEach(name => window.removeEventListener(name, handleActivity));
+      clearInterval(timer);
+    };
+  }, [currentUser?.email, isLocked]);
+
   // Initial Load
   useEffect(() => {
     const initApp = async () => {
-      // Load User
-      const storedUser = localStorage.getItem(AUTH_KEY);
-      if (storedUser) {
-        try {
-          setCurrentUser(JSON.parse(storedUser));
-        } catch(e) {
-          console.error("Failed to parse stored user", e);
-        }
-      }
+      // Load User (the role is re-checked against the credential store or profiles table)
+      const user = await authService.restoreSession();
+      setCurrentUser(user);
+      dataService.setActor(user);
+      // A restored session that was locked, or sat idle past the timeout, reopens locked
+      if (user && (appLock.isLocked() || isIdle())) lock();
 
       // Load Data
+      dataService.setBackend(createConfiguredBackend());
       await loadData();
       setIsInitialized(true);
+      syncPending();
     };
 
     initApp();
   }, []);
 
+  // Magic link redirects, sign-outs in other tabs and cloud connection changes
+  useEffect(() => authService.onChange(user => {
+    setCurrentUser(user);
+    dataService.setActor(user);
+    if (user) {
+      loadData();
+    } else {
+      setCurrentView(ViewState.DASHBOARD);
+    }
+  }), []);
+
   const handleLogin = (user: User) => {
+    lastActivity.touch();
+    appLock.unlock();
+    setIsLocked(false);
     setCurrentUser(user);
-    localStorage.setItem(AUTH_KEY, JSON.stringify(user));
+    dataService.setActor(user);
     // Reload data on login to ensure freshness
     loadData();
   };
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
     setCurrentUser(null);
-    localStorage.removeItem(AUTH_KEY);
+    appLock.unlock();
+    setIsLocked(false);
     setCurrentView(ViewState.DASHBOARD);
+    await authService.signOut();
   };
 
   const addClient = async (client: Client) => {
@@ -73,13 +203,15 @@ const App: React.FC = () => {
     setData(prev => ({ ...prev, clients: [...prev.clients, client] }));
     
     try {
-      await dataService.addClient(client);
+      const saved = await dataService.addClient(client);
+      setData(prev => ({ ...prev, clients: prev.clients.map(c => c.id === saved.id ? saved : c) }));
     } catch (error: any) {
       alert(error.message);
       setData(prevData); // Rollback
     }
   };
 
+  // Rejects with ConflictError (after showing the stored row) so the caller can offer a merge
   const updateClient = async (updatedClient: Client) => {
     const prevData = { ...data };
     setData(prev => ({
@@ -88,8 +220,421 @@ const App: React.FC = () => {
     }));
 
     try {
-      await dataService.updateClient(updatedClient);
+      const saved = await dataService.updateClient(updatedClient, prevData.clients.find(c => c.id === updatedClient.id));
+      setData(prev => ({ ...prev, clients: prev.clients.map(c => c.id === saved.id ? saved : c) }));
+    } catch (error: any) {
+      if (error instanceof ConflictError) {
+        const current = error.current as Client;
+        setData({ ...prevData, clients: prevData.clients.map(c => c.id === current.id ? current : c) });
+        throw error;
+      }
+      alert(error.message);
+      setData(prevData); // Rollback
+    }
+  };
+
+  const setClientArchived = async (id: string, archived: boolean) => {
+    const client = data.clients.find(c => c.id === id);
+    if (!client) return;
+    const prevData = { ...data };
+    setData(prev => ({ ...prev, clients: prev.clients.map(c => c.id === id ? { ...c, archivedAt: archived ? Date.now() : null } : c) }));
+
+    try {
+      const saved = archived ? await dataService.archiveClient(client) : await dataService.unarchiveClient(client);
+      setData(prev => ({ ...prev, clients: prev.clients.map(c => c.id === saved.id ? saved : c) }));
+    } catch (error: any) {
+      alert(error.message);
+      setData(prevData); // Rollback
+    }
+  };
+
+  // Rethrows ClientInUseError so the Clients view can ask how to handle the client's payments
+  const deleteClient = async (id: string, removal?: ClientRemoval) => {
+    const client = data.clients.find(c => c.id === id);
+    if (!client) return;
+    if (removal?.mode === 'cascade' && !(await requirePassword(`Enter your password to delete ${client.name} and all of their payments.`))) return;
+
+    try {
+      // Checked against every payment, including ones in the recycle bin
+      const reassigned = await dataService.deleteClient(client, data, removal);
+      setData(prev => ({
+        ...prev,
+        clients: prev.clients.filter(c => c.id !== id),
+        projects: prev.projects.filter(p => p.clientId !== id),
+        quotes: prev.quotes.filter(q => q.clientId !== id),
+        invoices: prev.invoices.filter(inv => inv.clientId !== id),
+        billingTemplates: prev.billingTemplates.filter(t => t.clientId !== id),
+        payments: prev.payments
+          .filter(p => p.clientId !== id || reassigned.some(r => r.id === p.id))
+          .map(p => reassigned.find(r => r.id === p.id) || p)
+      }));
+    } catch (error: any) {
+      if (error instanceof ClientInUseError) throw error;
+      alert(error.message);
+      // Some payments may already have been moved or removed, so reload rather than roll back
+      loadData();
+    }
+  };
+
+  const addProject = async (project: Project) => {
+    const prevData = { ...data };
+    setData(prev => ({ ...prev, projects: [...prev.projects, project] }));
+
+    try {
+      const saved = await dataService.addProject(project);
+      setData(prev => ({ ...prev, projects: prev.projects.map(p => p.id === saved.id ? saved : p) }));
+    } catch (error: any) {
+      alert(error.message);
+      setData(prevData); // Rollback
+    }
+  };
+
+  // Rejects with ConflictError (after showing the stored row) so the caller can offer a merge
+  const updateProject = async (project: Project) => {
+    const prevData = { ...data };
+    setData(prev => ({ ...prev, projects: prev.projects.map(p => p.id === project.id ? project : p) }));
+
+    try {
+      const saved = await dataService.updateProject(project, prevData.projects.find(p => p.id === project.id));
+      setData(prev => ({ ...prev, projects: prev.projects.map(p => p.id === saved.id ? saved : p) }));
+    } catch (error: any) {
+      if (error instanceof ConflictError) {
+        const current = error.current as Project;
+        setData({ ...prevData, projects: prevData.projects.map(p => p.id === current.id ? current : p) });
+        throw error;
+      }
+      alert(error.message);
+      setData(prevData); // Rollback
+    }
+  };
+
+  // Marks the milestone done and raises a draft invoice for it, to be reviewed and sent from Invoices.
+  // Also re-invoices a completed milestone whose invoice was deleted or voided.
+  const completeMilestone = async (projectId: string, milestoneId: string) => {
+    const project = data.projects.find(p => p.id === projectId);
+    const milestone = project?.milestones?.find(m => m.id === milestoneId);
+    if (!project || !milestone) return;
+
+    const today = new Date().toISOString().split('T')[0];
+    const invoice: Invoice = {
+      id: crypto.randomUUID(),
+      clientId: project.clientId,
+      projectId: project.id,
+      issueDate: today,
+      dueDate: '',
+      lines: [{ id: crypto.randomUUID(), description: `${project.name}: ${milestone.name}`, quantity: 1, rate: milestone.amount }],
+      taxRate: 0,
+      notes: '',
+      status: 'DRAFT',
+      createdAt: Date.now()
+    };
+    const updated: Project = {
+      ...project,
+      milestones: project.milestones!.map(m => m.id === milestoneId ? { ...m, completedAt: m.completedAt || today, invoiceId: invoice.id } : m)
+    };
+
+    const prevData = { ...data };
+    setData(prev => ({
+      ...prev,
+      projects: prev.projects.map(p => p.id === projectId ? updated : p),
+      invoices: [...prev.invoices, invoice]
+    }));
+
+    try {
+      const saved = await dataService.completeMilestone(updated, invoice, project);
+      setData(prev => ({
+        ...prev,
+        projects: prev.projects.map(p => p.id === projectId ? saved.project : p),
+        invoices: prev.invoices.map(inv => inv.id === invoice.id ? saved.invoice : inv)
+      }));
+      alert(`Draft invoice created for "${milestone.name}". Review and send it from Invoices.`);
+    } catch (error: any) {
+      if (error instanceof ConflictError) {
+        const current = error.current as Project;
+        setData({ ...prevData, projects: prevData.projects.map(p => p.id === current.id ? current : p) });
+        alert(`${error.message} The latest version has been loaded.`);
+        return;
+      }
+      alert(error.message);
+      setData(prevData); // Rollback
+    }
+  };
+
+  const deleteProject = async (id: string) => {
+    const project = data.projects.find(p => p.id === id);
+    if (!project) return;
+    const prevData = { ...data };
+    setData(prev => ({ ...prev, projects: prev.projects.filter(p => p.id !== id) }));
+
+    try {
+      // Checked against every payment and expense, including ones in the recycle bin
+      await dataService.deleteProject(project, data);
+    } catch (error: any) {
+      alert(error.message);
+      setData(prevData); // Rollback
+    }
+  };
+
+  // Quotes created as sent get their number straight away; drafts get one when issued
+  const addQuote = async (quote: Quote) => {
+    const numbered = quote.status === 'SENT' ? { ...quote, number: nextQuoteNumber(data.quotes, quote.issueDate) } : quote;
+    const prevData = { ...data };
+    setData(prev => ({ ...prev, quotes: [...prev.quotes, numbered] }));
+
+    try {
+      const saved = await dataService.addQuote(numbered);
+      setData(prev => ({ ...prev, quotes: prev.quotes.map(q => q.id === saved.id ? saved : q) }));
+    } catch (error: any) {
+      alert(error.message);
+      setData(prevData); // Rollback
+    }
+  };
+
+  // Rejects with ConflictError (after showing the stored row) so the caller can offer a merge
+  const saveQuoteChange = async (quote: Quote, save: (before?: Quote) => Promise<Quote>) => {
+    const prevData = { ...data };
+    const before = prevData.quotes.find(q => q.id === quote.id);
+    setData(prev => ({ ...prev, quotes: prev.quotes.map(q => q.id === quote.id ? quote : q) }));
+
+    try {
+      const saved = await save(before);
+      setData(prev => ({ ...prev, quotes: prev.quotes.map(q => q.id === saved.id ? saved : q) }));
+    } catch (error: any) {
+      if (error instanceof ConflictError) {
+        const current = error.current as Quote;
+        setData({ ...prevData, quotes: prevData.quotes.map(q => q.id === current.id ? current : q) });
+        throw error;
+      }
+      alert(error.message);
+      setData(prevData); // Rollback
+    }
+  };
+
+  const updateQuote = (quote: Quote) =>
+    saveQuoteChange(quote, before => dataService.updateQuote(quote, before));
+
+  // Saves any edits to the draft and marks it sent under the next quote number
+  const issueQuote = (quote: Quote) => {
+    const number = nextQuoteNumber(data.quotes, quote.issueDate);
+    return saveQuoteChange({ ...quote, number, status: 'SENT' }, before => dataService.issueQuote(quote, number, before));
+  };
+
+  const respondToQuote = async (id: string, accepted: boolean) => {
+    const quote = data.quotes.find(q => q.id === id);
+    if (!quote) return;
+    const today = new Date().toISOString().split('T')[0];
+    try {
+      await saveQuoteChange(
+        { ...quote, status: accepted ? 'ACCEPTED' : 'REJECTED', respondedAt: today },
+        () => dataService.respondToQuote(quote, accepted, today)
+      );
     } catch (error: any) {
+      alert(`${error.message} The latest version has been loaded.`);
+    }
+  };
+
+  // Turns an accepted quote into a project valued at its total, or a draft invoice with its lines.
+  // An invoice raised after the project is tagged to it.
+  const convertQuote = async (id: string, to: QuoteConversion) => {
+    const quote = data.quotes.find(q => q.id === id);
+    if (!quote) return;
+
+    const today = new Date().toISOString().split('T')[0];
+    const project = to === 'PROJECT' ? quoteProject(quote, today) : undefined;
+    const invoice = to === 'INVOICE' ? quoteInvoice(quote, today, quoteProjectOf(quote, data.projects)?.id) : undefined;
+    const updated: Quote = { ...quote, projectId: project?.id ?? quote.projectId, invoiceId: invoice?.id ?? quote.invoiceId };
+
+    const prevData = { ...data };
+    setData(prev => ({
+      ...prev,
+      quotes: prev.quotes.map(q => q.id === id ? updated : q),
+      projects: project ? [...prev.projects, project] : prev.projects,
+      invoices: invoice ? [...prev.invoices, invoice] : prev.invoices
+    }));
+
+    try {
+      const saved = await dataService.convertQuote(updated, { project, invoice }, quote);
+      const { project: created, invoice: raised } = saved;
+      setData(prev => ({
+        ...prev,
+        quotes: prev.quotes.map(q => q.id === id ? saved.quote : q),
+        projects: created ? prev.projects.map(p => p.id === created.id ? created : p) : prev.projects,
+        invoices: raised ? prev.invoices.map(inv => inv.id === raised.id ? raised : inv) : prev.invoices
+      }));
+      alert(invoice
+        ? `Draft invoice created from quote ${quote.number}. Review and send it from Invoices.`
+        : `Project "${quote.title}" created. Manage it from the client's projects.`);
+    } catch (error: any) {
+      if (error instanceof ConflictError) {
+        const current = error.current as Quote;
+        setData({ ...prevData, quotes: prevData.quotes.map(q => q.id === current.id ? current : q) });
+        alert(`${error.message} The latest version has been loaded.`);
+        return;
+      }
+      alert(error.message);
+      setData(prevData); // Rollback
+    }
+  };
+
+  const deleteQuote = async (id: string) => {
+    const quote = data.quotes.find(q => q.id === id);
+    if (!quote) return;
+    const prevData = { ...data };
+    setData(prev => ({ ...prev, quotes: prev.quotes.filter(q => q.id !== id) }));
+
+    try {
+      await dataService.deleteQuote(quote, data);
+    } catch (error: any) {
+      alert(error.message);
+      setData(prevData); // Rollback
+    }
+  };
+
+  // Invoices created as sent get their number straight away; drafts get one when issued
+  const addInvoice = async (invoice: Invoice) => {
+    const numbered = invoice.status === 'SENT' ? { ...invoice, number: nextInvoiceNumber(data.invoices, invoice.issueDate) } : invoice;
+    const prevData = { ...data };
+    setData(prev => ({ ...prev, invoices: [...prev.invoices, numbered] }));
+
+    try {
+      const saved = await dataService.addInvoice(numbered);
+      setData(prev => ({ ...prev, invoices: prev.invoices.map(inv => inv.id === saved.id ? saved : inv) }));
+    } catch (error: any) {
+      alert(error.message);
+      setData(prevData); // Rollback
+    }
+  };
+
+  // Rejects with ConflictError (after showing the stored row) so the caller can offer a merge
+  const saveInvoiceChange = async (invoice: Invoice, save: (before?: Invoice) => Promise<Invoice>) => {
+    const prevData = { ...data };
+    const before = prevData.invoices.find(inv => inv.id === invoice.id);
+    setData(prev => ({ ...prev, invoices: prev.invoices.map(inv => inv.id === invoice.id ? invoice : inv) }));
+
+    try {
+      const saved = await save(before);
+      setData(prev => ({ ...prev, invoices: prev.invoices.map(inv => inv.id === saved.id ? saved : inv) }));
+    } catch (error: any) {
+      if (error instanceof ConflictError) {
+        const current = error.current as Invoice;
+        setData({ ...prevData, invoices: prevData.invoices.map(inv => inv.id === current.id ? current : inv) });
+        throw error;
+      }
+      alert(error.message);
+      setData(prevData); // Rollback
+    }
+  };
+
+  const updateInvoice = (invoice: Invoice) =>
+    saveInvoiceChange(invoice, before => dataService.updateInvoice(invoice, before));
+
+  // Saves any edits to the draft and marks it sent under the next number in the series
+  const issueInvoice = (invoice: Invoice) => {
+    const number = nextInvoiceNumber(data.invoices, invoice.issueDate);
+    return saveInvoiceChange({ ...invoice, number, status: 'SENT' }, before => dataService.issueInvoice(invoice, number, before));
+  };
+
+  const voidInvoice = async (id: string) => {
+    const invoice = data.invoices.find(inv => inv.id === id);
+    if (!invoice) return;
+    try {
+      await saveInvoiceChange({ ...invoice, status: 'VOID' }, () => dataService.voidInvoice(invoice, data.payments));
+    } catch (error: any) {
+      alert(`${error.message} The latest version has been loaded.`);
+    }
+  };
+
+  const deleteInvoice = async (id: string) => {
+    const invoice = data.invoices.find(inv => inv.id === id);
+    if (!invoice) return;
+    const prevData = { ...data };
+    setData(prev => ({ ...prev, invoices: prev.invoices.filter(inv => inv.id !== id) }));
+
+    try {
+      await dataService.deleteInvoice(invoice);
+    } catch (error: any) {
+      alert(error.message);
+      setData(prevData); // Rollback
+    }
+  };
+
+  const addBillingTemplate = async (template: BillingTemplate) => {
+    const prevData = { ...data };
+    setData(prev => ({ ...prev, billingTemplates: [...prev.billingTemplates, template] }));
+
+    try {
+      const saved = await dataService.addBillingTemplate(template);
+      setData(prev => ({ ...prev, billingTemplates: prev.billingTemplates.map(t => t.id === saved.id ? saved : t) }));
+    } catch (error: any) {
+      alert(error.message);
+      setData(prevData); // Rollback
+    }
+  };
+
+  // Rejects with ConflictError (after showing the stored row) so the caller can offer a merge
+  const updateBillingTemplate = async (template: BillingTemplate) => {
+    const prevData = { ...data };
+    setData(prev => ({ ...prev, billingTemplates: prev.billingTemplates.map(t => t.id === template.id ? template : t) }));
+
+    try {
+      const saved = await dataService.updateBillingTemplate(template, prevData.billingTemplates.find(t => t.id === template.id));
+      setData(prev => ({ ...prev, billingTemplates: prev.billingTemplates.map(t => t.id === saved.id ? saved : t) }));
+    } catch (error: any) {
+      if (error instanceof ConflictError) {
+        const current = error.current as BillingTemplate;
+        setData({ ...prevData, billingTemplates: prevData.billingTemplates.map(t => t.id === current.id ? current : t) });
+        throw error;
+      }
+      alert(error.message);
+      setData(prevData); // Rollback
+    }
+  };
+
+  const deleteBillingTemplate = async (id: string) => {
+    const template = data.billingTemplates.find(t => t.id === id);
+    if (!template) return;
+    const prevData = { ...data };
+    setData(prev => ({ ...prev, billingTemplates: prev.billingTemplates.filter(t => t.id !== id) }));
+
+    try {
+      await dataService.deleteBillingTemplate(template);
+    } catch (error: any) {
+      alert(error.message);
+      setData(prevData); // Rollback
+    }
+  };
+
+  // Deals with the template's earliest due period: posts it as a numbered, sent invoice, or skips it
+  const recordBillingRun = async (templateId: string, post: boolean) => {
+    const template = data.billingTemplates.find(t => t.id === templateId);
+    if (!template) return;
+
+    const draft = post ? billingInvoice(template, template.nextDate) : null;
+    const invoice = draft && { ...draft, number: nextInvoiceNumber(data.invoices, draft.issueDate) };
+    const updated: BillingTemplate = { ...template, nextDate: followingDate(template, template.nextDate) };
+
+    const prevData = { ...data };
+    setData(prev => ({
+      ...prev,
+      billingTemplates: prev.billingTemplates.map(t => t.id === templateId ? updated : t),
+      invoices: invoice ? [...prev.invoices, invoice] : prev.invoices
+    }));
+
+    try {
+      const saved = await dataService.recordBillingRun(updated, invoice, template);
+      const posted = saved.invoice;
+      setData(prev => ({
+        ...prev,
+        billingTemplates: prev.billingTemplates.map(t => t.id === templateId ? saved.template : t),
+        invoices: posted ? prev.invoices.map(inv => inv.id === posted.id ? posted : inv) : prev.invoices
+      }));
+    } catch (error: any) {
+      if (error instanceof ConflictError) {
+        const current = error.current as BillingTemplate;
+        setData({ ...prevData, billingTemplates: prevData.billingTemplates.map(t => t.id === current.id ? current : t) });
+        alert(`${error.message} The latest version has been loaded.`);
+        return;
+      }
       alert(error.message);
       setData(prevData); // Rollback
     }
@@ -100,13 +645,15 @@ const App: React.FC = () => {
     setData(prev => ({ ...prev, payments: [...prev.payments, payment] }));
     
     try {
-      await dataService.addPayment(payment);
+      const saved = await dataService.addPayment(payment);
+      setData(prev => ({ ...prev, payments: prev.payments.map(p => p.id === saved.id ? saved : p) }));
     } catch (error: any) {
       alert(error.message);
       setData(prevData); // Rollback
     }
   };
 
+  // Rejects with ConflictError (after showing the stored row) so the caller can offer a merge
   const updatePayment = async (payment: Payment) => {
     const prevData = { ...data };
     setData(prev => ({
@@ -115,19 +662,39 @@ const App: React.FC = () => {
     }));
 
     try {
-      await dataService.updatePayment(payment);
+      const saved = await dataService.updatePayment(payment, prevData.payments.find(p => p.id === payment.id));
+      setData(prev => ({ ...prev, payments: prev.payments.map(p => p.id === saved.id ? saved : p) }));
     } catch (error: any) {
+      if (error instanceof ConflictError) {
+        const current = error.current as Payment;
+        setData({ ...prevData, payments: prevData.payments.map(p => p.id === current.id ? current : p) });
+        throw error;
+      }
       alert(error.message);
       setData(prevData); // Rollback
     }
   };
 
+  // Resolves to false if the user cancels instead of re-entering their password
+  const requirePassword = (reason: string) =>
+    new Promise<boolean>(resolve => setPasswordPrompt({ reason, resolve }));
+
+  const closePasswordPrompt = (confirmed: boolean) => {
+    passwordPrompt?.resolve(confirmed);
+    setPasswordPrompt(null);
+  };
+
+  // Soft delete: the payment moves to the recycle bin in Settings
   const deletePayment = async (id: string) => {
+    const payment = data.payments.find(p => p.id === id);
+    if (!payment) return;
+    if (!(await requirePassword('Enter your password to delete this payment.'))) return;
     const prevData = { ...data };
-    setData(prev => ({ ...prev, payments: prev.payments.filter(p => p.id !== id) }));
+    setData(prev => ({ ...prev, payments: prev.payments.map(p => p.id === id ? { ...p, deletedAt: Date.now() } : p) }));
 
     try {
-      await dataService.deletePayment(id);
+      const saved = await dataService.deletePayment(payment);
+      setData(prev => ({ ...prev, payments: prev.payments.map(p => p.id === saved.id ? saved : p) }));
     } catch (error: any) {
       alert(error.message);
       setData(prevData); // Rollback
@@ -139,19 +706,162 @@ const App: React.FC = () => {
     setData(prev => ({ ...prev, expenses: [...prev.expenses, expense] }));
     
     try {
-      await dataService.addExpense(expense);
+      const saved = await dataService.addExpense(expense);
+      setData(prev => ({ ...prev, expenses: prev.expenses.map(e => e.id === saved.id ? saved : e) }));
+    } catch (error: any) {
+      alert(error.message);
+      setData(prevData); // Rollback
+    }
+  };
+
+  const updateExpense = async (expense: Expense) => {
+    const prevData = { ...data };
+    setData(prev => ({
+      ...prev,
+      expenses: prev.expenses.map(e => e.id === expense.id ? expense : e)
+    }));
+
+    try {
+      const saved = await dataService.updateExpense(expense, prevData.expenses.find(e => e.id === expense.id));
+      setData(prev => ({ ...prev, expenses: prev.expenses.map(e => e.id === saved.id ? saved : e) }));
     } catch (error: any) {
+      if (error instanceof ConflictError) {
+        const current = error.current as Expense;
+        setData({ ...prevData, expenses: prevData.expenses.map(e => e.id === current.id ? current : e) });
+        throw error;
+      }
       alert(error.message);
       setData(prevData); // Rollback
     }
   };
 
+  // Soft delete: the expense moves to the recycle bin in Settings
   const deleteExpense = async (id: string) => {
+    const expense = data.expenses.find(e => e.id === id);
+    if (!expense) return;
     const prevData = { ...data };
-    setData(prev => ({ ...prev, expenses: prev.expenses.filter(e => e.id !== id) }));
-    
+    setData(prev => ({ ...prev, expenses: prev.expenses.map(e => e.id === id ? { ...e, deletedAt: Date.now() } : e) }));
+
     try {
-      await dataService.deleteExpense(id);
+      const saved = await dataService.deleteExpense(expense);
+      setData(prev => ({ ...prev, expenses: prev.expenses.map(e => e.id === saved.id ? saved : e) }));
+    } catch (error: any) {
+      alert(error.message);
+      setData(prevData); // Rollback
+    }
+  };
+
+  const addExpenseRule = async (rule: ExpenseRule) => {
+    const prevData = { ...data };
+    setData(prev => ({ ...prev, expenseRules: [...prev.expenseRules, rule] }));
+
+    try {
+      const saved = await dataService.addExpenseRule(rule);
+      setData(prev => ({ ...prev, expenseRules: prev.expenseRules.map(r => r.id === saved.id ? saved : r) }));
+    } catch (error: any) {
+      alert(error.message);
+      setData(prevData); // Rollback
+    }
+  };
+
+  // Rejects with ConflictError (after showing the stored row) so the caller can offer a merge
+  const updateExpenseRule = async (rule: ExpenseRule) => {
+    const prevData = { ...data };
+    setData(prev => ({ ...prev, expenseRules: prev.expenseRules.map(r => r.id === rule.id ? rule : r) }));
+
+    try {
+      const saved = await dataService.updateExpenseRule(rule, prevData.expenseRules.find(r => r.id === rule.id));
+      setData(prev => ({ ...prev, expenseRules: prev.expenseRules.map(r => r.id === saved.id ? saved : r) }));
+    } catch (error: any) {
+      if (error instanceof ConflictError) {
+        const current = error.current as ExpenseRule;
+        setData({ ...prevData, expenseRules: prevData.expenseRules.map(r => r.id === current.id ? current : r) });
+        throw error;
+      }
+      alert(error.message);
+      setData(prevData); // Rollback
+    }
+  };
+
+  const deleteExpenseRule = async (id: string) => {
+    const rule = data.expenseRules.find(r => r.id === id);
+    if (!rule) return;
+    const prevData = { ...data };
+    setData(prev => ({ ...prev, expenseRules: prev.expenseRules.filter(r => r.id !== id) }));
+
+    try {
+      await dataService.deleteExpenseRule(rule);
+    } catch (error: any) {
+      alert(error.message);
+      setData(prevData); // Rollback
+    }
+  };
+
+  // Posts one rule's due occurrences in order. Stops quietly on a conflict: another device is posting them.
+  const postExpenseRule = async (rule: ExpenseRule, today: string) => {
+    let current = rule;
+    for (let i = 0; i < MAX_CATCH_UP; i++) {
+      const run = dueExpenseRun(current, today);
+      if (!run) return;
+      try {
+        const saved = await dataService.recordExpenseRun(run.rule, run.expense, current);
+        current = saved.rule;
+        const posted = saved.expense;
+        setData(prev => ({
+          ...prev,
+          expenseRules: prev.expenseRules.map(r => r.id === saved.rule.id ? saved.rule : r),
+          expenses: posted ? [...prev.expenses, posted] : prev.expenses
+        }));
+      } catch (error: any) {
+        if (error instanceof ConflictError) {
+          const latest = error.current as ExpenseRule;
+          setData(prev => ({ ...prev, expenseRules: prev.expenseRules.map(r => r.id === latest.id ? latest : r) }));
+        } else {
+          failedExpenseRules.current.add(rule.id);
+          console.error('Failed to post recurring expense:', error);
+        }
+        return;
+      }
+    }
+  };
+
+  // Recurring expenses post themselves once data is loaded, catching up on any occurrences missed since
+  // the app was last opened. Rules that fail aren't retried until the next visit.
+  const postingExpenses = useRef(false);
+  const failedExpenseRules = useRef(new Set<string>());
+  useEffect(() => {
+    if (!isInitialized || !currentUser || !can(currentUser, 'expenses.create') || postingExpenses.current) return;
+    const today = localDay();
+    const due = data.expenseRules.filter(rule => !failedExpenseRules.current.has(rule.id) && dueExpenseRun(rule, today));
+    if (due.length === 0) return;
+
+    postingExpenses.current = true;
+    (async () => {
+      for (const rule of due) await postExpenseRule(rule, today);
+    })().finally(() => { postingExpenses.current = false; });
+  }, [isInitialized, currentUser, data.expenseRules]);
+
+  const restoreDeleted = async (collection: RecyclableCollection, id: string) => {
+    const row = (data[collection] as Array<Payment | Expense>).find(r => r.id === id);
+    if (!row) return;
+
+    try {
+      const saved = await dataService.restoreFromRecycleBin(collection, row);
+      setData(prev => ({ ...prev, [collection]: (prev[collection] as Array<Payment | Expense>).map(r => r.id === id ? saved : r) }));
+    } catch (error: any) {
+      alert(error.message);
+    }
+  };
+
+  const purgeDeleted = async (collection: RecyclableCollection, id: string) => {
+    const row = (data[collection] as Array<Payment | Expense>).find(r => r.id === id);
+    if (!row) return;
+    if (!(await requirePassword(`Enter your password to permanently delete this ${collection === 'payments' ? 'payment' : 'expense'}.`))) return;
+    const prevData = { ...data };
+    setData(prev => ({ ...prev, [collection]: (prev[collection] as Array<Payment | Expense>).filter(r => r.id !== id) }));
+
+    try {
+      await dataService.purgeFromRecycleBin(collection, row);
     } catch (error: any) {
       alert(error.message);
       setData(prevData); // Rollback
@@ -159,78 +869,165 @@ const App: React.FC = () => {
   };
 
   const importData = async (newData: AppData) => {
+    if (!(await requirePassword('Enter your password to replace all current data with the imported file.'))) return;
     try {
       await dataService.importData(newData);
       await loadData();
+      alert('Data imported successfully!');
     } catch (error: any) {
       alert("Import failed: " + error.message);
     }
   };
 
+  const inviteUser = async (user: UserAccount, password?: string) => {
+    // The login exists before the directory entry, so a failed invitation leaves nothing behind
+    await authService.invite(user, password);
+    const saved = await dataService.addUser(user);
+    setData(prev => ({ ...prev, users: [...prev.users, saved] }));
+  };
+
+  const updateUser = async (user: UserAccount) => {
+    const prevData = { ...data };
+    setData(prev => ({ ...prev, users: prev.users.map(u => u.id === user.id ? user : u) }));
+
+    try {
+      const saved = await dataService.updateUser(user, prevData.users.find(u => u.id === user.id));
+      setData(prev => ({ ...prev, users: prev.users.map(u => u.id === saved.id ? saved : u) }));
+    } catch (error: any) {
+      if (error instanceof ConflictError) {
+        const current = error.current as UserAccount;
+        setData({ ...prevData, users: prevData.users.map(u => u.id === current.id ? current : u) });
+        alert(`${error.message} The latest version has been loaded.`);
+        return;
+      }
+      alert(error.message);
+      setData(prevData); // Rollback
+    }
+  };
+
   const clearData = async () => {
+    if (!(await requirePassword('Enter your password to permanently delete all data.'))) return;
     try {
-      await dataService.clearData();
-      setData({ clients: [], payments: [], expenses: [] });
+      await dataService.clearData(data);
+      setData(prev => ({ ...emptyData(), auditLog: prev.auditLog, users: prev.users }));
     } catch (error: any) {
       alert("Clear failed: " + error.message);
     }
   };
 
+  // Everything except Settings (export, recycle bin) works on live rows the user is allowed to see
+  const activeData = useMemo(() => visibleData(withoutDeleted(data), currentUser), [data, currentUser]);
+
+  // Recurring billing that has fallen due since it was last reviewed, counted on the Invoices menu item
+  const billingDue = useMemo(
+    () => can(currentUser, 'invoices.create') ? billingQueue(activeData.billingTemplates, localDay()).length : 0,
+    [activeData, currentUser]
+  );
+
   const renderContent = () => {
     if (!currentUser) return null;
 
     switch (currentView) {
       case ViewState.DASHBOARD:
-        return <Dashboard data={data} />;
+        return <Dashboard data={activeData} />;
       case ViewState.CLIENTS:
         return (
           <Clients 
-            data={data} 
+            data={activeData} 
             onAddClient={addClient} 
             onUpdateClient={updateClient}
+            onSetClientArchived={setClientArchived}
+            onDeleteClient={deleteClient}
+            onAddProject={addProject}
+            onUpdateProject={updateProject}
+            onDeleteProject={deleteProject}
+            onCompleteMilestone={completeMilestone}
             onAddPayment={addPayment}
-            userRole={currentUser.role}
+            user={currentUser}
+          />
+        );
+      case ViewState.QUOTES:
+        return (
+          <Quotes
+            data={activeData}
+            onAddQuote={addQuote}
+            onUpdateQuote={updateQuote}
+            onIssueQuote={issueQuote}
+            onRespondToQuote={respondToQuote}
+            onConvertQuote={convertQuote}
+            onDeleteQuote={deleteQuote}
+            user={currentUser}
+          />
+        );
+      case ViewState.INVOICES:
+        return (
+          <Invoices
+            data={activeData}
+            onAddInvoice={addInvoice}
+            onUpdateInvoice={updateInvoice}
+            onIssueInvoice={issueInvoice}
+            onVoidInvoice={voidInvoice}
+            onDeleteInvoice={deleteInvoice}
+            onAddBillingTemplate={addBillingTemplate}
+            onUpdateBillingTemplate={updateBillingTemplate}
+            onDeleteBillingTemplate={deleteBillingTemplate}
+            onRecordBillingRun={recordBillingRun}
+            user={currentUser}
           />
         );
       case ViewState.PAYMENTS:
         return (
           <Payments
-            data={data}
+            data={activeData}
             onAddPayment={addPayment}
             onUpdatePayment={updatePayment}
             onDeletePayment={deletePayment}
-            userRole={currentUser.role}
+            user={currentUser}
           />
         );
       case ViewState.EXPENSES:
         return (
           <Expenses 
-            data={data} 
+            data={activeData} 
             onAddExpense={addExpense}
+            onUpdateExpense={updateExpense}
             onDeleteExpense={deleteExpense}
-            userRole={currentUser.role}
+            onAddExpenseRule={addExpenseRule}
+            onUpdateExpenseRule={updateExpenseRule}
+            onDeleteExpenseRule={deleteExpenseRule}
+            user={currentUser}
           />
         );
       case ViewState.REPORTS:
         return (
-          <Reports data={data} userRole={currentUser.role} />
+          <Reports data={activeData} user={currentUser} />
         );
+      case ViewState.ACTIVITY:
+        if (!can(currentUser, 'activity.view')) {
+          return <Dashboard data={activeData} />;
+        }
+        return <Activity data={data} />;
       case ViewState.SETTINGS:
         // Protect Settings route
-        if (currentUser.role !== UserRole.ADMIN) {
-          return <Dashboard data={data} />;
+        if (!can(currentUser, 'settings.view')) {
+          return <Dashboard data={activeData} />;
         }
         return (
           <Settings 
             data={data}
             onImportData={importData}
             onClearData={clearData}
-            userRole={currentUser.role}
+            onRestoreDeleted={restoreDeleted}
+            onPurgeDeleted={purgeDeleted}
+            onInviteUser={inviteUser}
+            onUpdateUser={updateUser}
+            onResetPassword={authService.resetPassword}
+            user={currentUser}
             refreshData={loadData}
           />
         );
       default:
-        return <Dashboard data={data} />;
+        return <Dashboard data={activeData} />;
     }
   };
 
@@ -255,17 +1052,21 @@ const App: React.FC = () => {
                  >
                     Retry Connection
                  </button>
-                 <button 
-                    onClick={() => {
-                        // Force navigate to settings via a temporary hack or just render settings
-                        setHasConnectionError(false); // Clear error to allow rendering
-                        setCurrentUser({ email: 'admin@email.com', name: 'Admin', role: UserRole.ADMIN }); // Force admin to access settings
-                        setCurrentView(ViewState.SETTINGS);
-                    }}
-                    className="w-full py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg font-medium"
-                 >
-                    Check Settings
-                 </button>
+                 {can(currentUser, 'settings.view') ? (
+                   <button 
+                      onClick={() => {
+                          setHasConnectionError(false); // Clear error to allow rendering
+                          setCurrentView(ViewState.SETTINGS);
+                      }}
+                      className="w-full py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg font-medium"
+                   >
+                      Check Settings
+                   </button>
+                 ) : (
+                   <p className="text-sm text-slate-500">
+                      If the problem persists, ask an administrator to check the connection settings.
+                   </p>
+                 )}
               </div>
            </div>
         </div>
@@ -276,6 +1077,20 @@ const App: React.FC = () => {
     return <Login onLogin={handleLogin} />;
   }
 
+  if (isLocked) {
+    return (
+      <LockScreen
+        user={currentUser}
+        onUnlock={() => {
+          lastActivity.touch();
+          appLock.unlock();
+          setIsLocked(false);
+        }}
+        onLogout={handleLogout}
+      />
+    );
+  }
+
   return (
     <div id="app-container" className="flex h-screen bg-slate-50 overflow-hidden print:!h-auto print:!overflow-visible print:!block">
       <Sidebar 
@@ -285,6 +1100,11 @@ const App: React.FC = () => {
         setIsMobileOpen={setIsMobileOpen}
         user={currentUser}
         onLogout={handleLogout}
+        onChangePassword={() => setIsChangingPassword(true)}
+        syncStatus={syncStatus}
+        isSyncing={isSyncing}
+        onSync={syncPending}
+        badges={{ [ViewState.INVOICES]: billingDue }}
       />
 
       <main className="flex-1 flex flex-col h-screen overflow-hidden relative print:!h-auto print:!overflow-visible print:!block print:m-0 print:p-0">
@@ -310,7 +1130,27 @@ const App: React.FC = () => {
         <div id="main-scroll-container" className="flex-1 overflow-auto print:!overflow-visible print:!h-auto print:!block">
           {renderContent()}
         </div>
+
+        {/* Updated by another user indicator */}
+        {remoteUpdate && (
+          <div className="fixed bottom-4 right-4 z-40 flex items-center gap-3 px-4 py-3 bg-slate-900 text-white text-sm rounded-lg shadow-lg animate-in fade-in print:hidden">
+            <Radio className="w-4 h-4 text-green-400" />
+            <span>{remoteUpdate} by another user</span>
+            <button onClick={() => setRemoteUpdate(null)} className="text-slate-400 hover:text-white">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
       </main>
+
+      {isChangingPassword && <ChangePasswordDialog onClose={() => setIsChangingPassword(false)} />}
+      {passwordPrompt && (
+        <PasswordPrompt
+          reason={passwordPrompt.reason}
+          onConfirmed={() => closePasswordPrompt(true)}
+          onCancel={() => closePasswordPrompt(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,288 @@
+
+import React, { useState, useMemo } from 'react';
+import { AppData, AuditEntry, AuditAction } from '../types';
+import { Money, formatMoney } from '../services/money';
+import { invoiceTotals } from '../services/finance';
+import { localDay } from '../services/recurring';
+import { Search, Filter, Calendar, User as UserIcon, History, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface ActivityProps {
+  data: AppData;
+}
+
+const ENTITY_LABELS: Record<string, string> = {
+  clients: 'Client',
+  projects: 'Project',
+  quotes: 'Quote',
+  invoices: 'Invoice',
+  billingTemplates: 'Recurring Billing',
+  payments: 'Payment',
+  expenses: 'Expense',
+  expenseRules: 'Recurring Expense',
+  users: 'User',
+  data: 'All Data'
+};
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  CREATE: 'bg-green-100 text-green-700',
+  UPDATE: 'bg-blue-100 text-blue-700',
+  DELETE: 'bg-red-100 text-red-700',
+  RESTORE: 'bg-teal-100 text-teal-700',
+  PURGE: 'bg-red-200 text-red-800',
+  ARCHIVE: 'bg-slate-200 text-slate-700',
+  UNARCHIVE: 'bg-slate-100 text-slate-600',
+  ISSUE: 'bg-sky-100 text-sky-700',
+  VOID: 'bg-rose-100 text-rose-700',
+  IMPORT: 'bg-indigo-100 text-indigo-700',
+  CLEAR: 'bg-orange-100 text-orange-700'
+};
+
+// Bookkeeping fields that change on every save and only add noise to a diff
+const HIDDEN_FIELDS = ['version', 'updatedAt'];
+
+// Stored as paisa, so shown as money rather than the raw number
+const MONEY_FIELDS = ['amount', 'totalBilled', 'contractValue'];
+
+const formatValue = (field: string, value: any) => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  if (typeof value === 'number' && MONEY_FIELDS.includes(field)) return formatMoney(value as Money);
+  return String(value);
+};
+
+export const Activity: React.FC<ActivityProps> = ({ data }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [userFilter, setUserFilter] = useState('ALL');
+  const [entityFilter, setEntityFilter] = useState('ALL');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const users = useMemo(() => {
+    const unique = new Map<string, string>();
+    data.auditLog.forEach(e => unique.set(e.userEmail, e.userName));
+    return Array.from(unique.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+  }, [data.auditLog]);
+
+  const getClientName = (id: string) => data.clients.find(c => c.id === id)?.name || 'Unknown Client';
+
+  const summarize = (entry: AuditEntry) => {
+    const snapshot = entry.after || entry.before;
+    if (!snapshot) return entry.entityId || '';
+    switch (entry.entityType) {
+      case 'clients':
+        return snapshot.name;
+      case 'projects':
+        return `${snapshot.name} · ${formatMoney(snapshot.contractValue)} · ${getClientName(snapshot.clientId)}`;
+      case 'invoices':
+        return `${snapshot.number || 'Draft invoice'} · ${formatMoney(invoiceTotals(snapshot).total)} · ${getClientName(snapshot.clientId)}`;
+      case 'quotes':
+        return `${snapshot.number || 'Draft quote'} · ${snapshot.title} · ${formatMoney(invoiceTotals(snapshot).total)} · ${getClientName(snapshot.clientId)}`;
+      case 'billingTemplates':
+        return `${snapshot.description} · ${formatMoney(snapshot.amount)} · ${getClientName(snapshot.clientId)}`;
+      case 'payments':
+        return `${formatMoney(snapshot.amount)} · ${getClientName(snapshot.clientId)}`;
+      case 'expenses':
+      case 'expenseRules':
+        return `${snapshot.description} (${formatMoney(snapshot.amount)})`;
+      case 'users':
+        return `${snapshot.name} · ${snapshot.role} (${String(snapshot.status).toLowerCase()})`;
+      case 'data':
+        return `${snapshot.clients} clients, ${snapshot.payments} payments, ${snapshot.expenses} expenses`;
+      default:
+        return entry.entityId || '';
+    }
+  };
+
+  // Field-level view of what changed; for creates/deletes every field is shown on one side
+  const getChanges = (entry: AuditEntry) => {
+    const before = entry.before || {};
+    const after = entry.after || {};
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+      .filter(k => !HIDDEN_FIELDS.includes(k));
+    return keys
+      .filter(k => entry.action !== 'UPDATE' || JSON.stringify(before[k]) !== JSON.stringify(after[k]))
+      .map(k => ({ field: k, before: before[k], after: after[k] }));
+  };
+
+  const filteredEntries = useMemo(() => {
+    const search = searchTerm.toLowerCase();
+    return data.auditLog.filter(entry => {
+      const day = localDay(entry.at);
+      if (userFilter !== 'ALL' && entry.userEmail !== userFilter) return false;
+      if (entityFilter !== 'ALL' && entry.entityType !== entityFilter) return false;
+      if (startDate && day < startDate) return false;
+      if (endDate && day > endDate) return false;
+      if (search && !summarize(entry).toLowerCase().includes(search) && !entry.userName.toLowerCase().includes(search)) return false;
+      return true;
+    }).sort((a, b) => b.at - a.at);
+  }, [data, searchTerm, userFilter, entityFilter, startDate, endDate]);
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto min-h-screen">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-slate-900">Activity</h1>
+        <p className="text-slate-500 mt-1">Every change made to clients, payments, expenses and users, and who made it</p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 mb-6 grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+        <div className="md:col-span-1">
+          <label className="block text-xs font-medium text-slate-500 mb-1 uppercase tracking-wide">Search</label>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+            <input
+              type="text"
+              placeholder="Name, amount..."
+              className="pl-9 pr-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none w-full"
+              value={searchTerm}
+              onChange={e => setSearchTerm(e.target.value)}
+            />
+          </div>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1 uppercase tracking-wide">User</label>
+          <div className="relative">
+            <UserIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+            <select
+              className="pl-9 pr-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none w-full bg-white appearance-none"
+              value={userFilter}
+              onChange={e => setUserFilter(e.target.value)}
+            >
+              <option value="ALL">All Users</option>
+              {users.map(([email, name]) => (
+                <option key={email} value={email}>{name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1 uppercase tracking-wide">Entity</label>
+          <div className="relative">
+            <Filter className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+            <select
+              className="pl-9 pr-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none w-full bg-white appearance-none"
+              value={entityFilter}
+              onChange={e => setEntityFilter(e.target.value)}
+            >
+              <option value="ALL">All Entities</option>
+              {Object.entries(ENTITY_LABELS).map(([key, label]) => (
+                <option key={key} value={key}>{label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1 uppercase tracking-wide">From</label>
+          <div className="relative">
+            <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+            <input
+              type="date"
+              className="pl-9 pr-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none w-full"
+              value={startDate}
+              onChange={e => setStartDate(e.target.value)}
+            />
+          </div>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1 uppercase tracking-wide">To</label>
+          <div className="relative">
+            <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+            <input
+              type="date"
+              className="pl-9 pr-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none w-full"
+              value={endDate}
+              onChange={e => setEndDate(e.target.value)}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-slate-50 border-b border-slate-200 text-xs uppercase tracking-wider text-slate-500">
+                <th className="p-4 w-8"></th>
+                <th className="p-4 font-semibold whitespace-nowrap">When</th>
+                <th className="p-4 font-semibold">User</th>
+                <th className="p-4 font-semibold">Action</th>
+                <th className="p-4 font-semibold">Entity</th>
+                <th className="p-4 font-semibold">Summary</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {filteredEntries.map(entry => {
+                const isExpanded = expandedId === entry.id;
+                return (
+                  <React.Fragment key={entry.id}>
+                    <tr
+                      className="hover:bg-slate-50 transition-colors cursor-pointer"
+                      onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                    >
+                      <td className="p-4 text-slate-400">
+                        {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                      </td>
+                      <td className="p-4 text-sm text-slate-600 whitespace-nowrap">{new Date(entry.at).toLocaleString()}</td>
+                      <td className="p-4">
+                        <div className="text-sm font-medium text-slate-900">{entry.userName}</div>
+                        <div className="text-xs text-slate-400">{entry.userEmail}</div>
+                      </td>
+                      <td className="p-4">
+                        <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-bold ${ACTION_STYLES[entry.action]}`}>
+                          {entry.action}
+                        </span>
+                      </td>
+                      <td className="p-4 text-sm text-slate-700">{ENTITY_LABELS[entry.entityType] || entry.entityType}</td>
+                      <td className="p-4 text-sm text-slate-600">{summarize(entry)}</td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="bg-slate-50/60">
+                        <td></td>
+                        <td colSpan={5} className="p-4">
+                          <table className="w-full text-xs border border-slate-200 rounded-lg bg-white">
+                            <thead>
+                              <tr className="text-slate-500 uppercase tracking-wider border-b border-slate-200">
+                                <th className="p-2 text-left font-semibold">Field</th>
+                                <th className="p-2 text-left font-semibold">Before</th>
+                                <th className="p-2 text-left font-semibold">After</th>
+                              </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-100">
+                              {getChanges(entry).map(change => (
+                                <tr key={change.field}>
+                                  <td className="p-2 font-medium text-slate-700">{change.field}</td>
+                                  <td className="p-2 text-red-600 break-all">{formatValue(change.field, change.before)}</td>
+                                  <td className="p-2 text-green-700 break-all">{formatValue(change.field, change.after)}</td>
+                                </tr>
+                              ))}
+                              {getChanges(entry).length === 0 && (
+                                <tr>
+                                  <td colSpan={3} className="p-2 text-slate-400 italic">No field details recorded</td>
+                                </tr>
+                              )}
+                            </tbody>
+                          </table>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+              {filteredEntries.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="p-12 text-center">
+                    <div className="flex flex-col items-center justify-center text-slate-400">
+                      <History className="w-12 h-12 mb-3 opacity-20" />
+                      <p>No activity found matching your filters</p>
+                    </div>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { Money, formatMoney, subtractMoney } from '../services/money';
+import { AgingBucket, AGING_BUCKETS, ClientAging } from '../services/finance';
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  CURRENT: 'Current',
+  DAYS_1_30: '1–30 Days',
+  DAYS_31_60: '31–60 Days',
+  DAYS_61_90: '61–90 Days',
+  DAYS_90_PLUS: '90+ Days'
+};
+
+const BUCKET_STYLES: Record<AgingBucket, string> = {
+  CURRENT: 'text-slate-700',
+  DAYS_1_30: 'text-amber-600',
+  DAYS_31_60: 'text-orange-600',
+  DAYS_61_90: 'text-red-600',
+  DAYS_90_PLUS: 'text-red-700'
+};
+
+interface AgingReportProps {
+  rows: ClientAging[];
+  totals: { buckets: Record<AgingBucket, Money>; total: Money; credit: Money };
+  asOf: string;
+  logo: React.ReactNode;
+}
+
+// Receivables by client and age; click a client to see the invoices behind its figures.
+// Expanded clients stay expanded in the PDF, so the export shows exactly what is on screen.
+export const AgingReport: React.FC<AgingReportProps> = ({ rows, totals, asOf, logo }) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const toggle = (clientId: string) => {
+    const next = new Set(expanded);
+    if (next.has(clientId)) next.delete(clientId);
+    else next.add(clientId);
+    setExpanded(next);
+  };
+
+  const allExpanded = rows.length > 0 && rows.every(r => expanded.has(r.client.id));
+
+  const amountCell = (amount: Money, className = '') => (
+    <td className={`p-2 text-right print:text-black ${className}`}>{amount > 0 ? formatMoney(amount) : '-'}</td>
+  );
+
+  return (
+    <div id="printable-aging" className="report-container bg-white rounded-xl shadow-sm border border-slate-200 print:border print:border-slate-300 print:shadow-none print:w-full font-sans">
+      {/* Report Header */}
+      <div className="p-8 border-b border-slate-200 bg-slate-50 print:bg-white print:border-b-2 print:border-black">
+        <div className="flex justify-between items-start">
+          <div className="flex items-center gap-4">
+            <div className="bg-white p-2 rounded-lg border border-slate-200 print:border-none print:p-0">{logo}</div>
+            <div>
+              <h2 className="text-2xl font-bold text-black uppercase tracking-tight" style={{ color: '#000000' }}>Euro IT Accounts</h2>
+              <p className="text-sm text-black" style={{ color: '#000000' }}>Accounts Receivable Aging</p>
+              <p className="text-xs text-slate-600 mt-1" style={{ color: '#475569' }}>Aged by invoice due date, or the milestone's when the invoice has none</p>
+            </div>
+          </div>
+          <div style={{ border: '1px solid #cbd5e1', borderRadius: '6px', backgroundColor: '#ffffff', padding: '10px 16px', textAlign: 'center', minWidth: '160px' }}>
+            <div style={{ fontSize: '10px', fontWeight: 'bold', color: '#000000', marginBottom: '4px', textTransform: 'uppercase', fontFamily: 'Arial, sans-serif' }}>
+              AS OF
+            </div>
+            <div style={{ fontSize: '13px', fontWeight: 'bold', color: '#000000', fontFamily: 'Arial, sans-serif' }}>{asOf}</div>
+          </div>
+        </div>
+      </div>
+
+      {/* Bucket Totals */}
+      <div className="grid grid-cols-2 md:grid-cols-6 divide-y md:divide-y-0 md:divide-x border-b border-slate-200 print:grid-cols-6 print:border-b-2 print:border-black">
+        {AGING_BUCKETS.map(bucket => (
+          <div key={bucket} className="p-4 text-center md:text-left">
+            <p className="text-xs uppercase tracking-wider text-slate-500 font-medium mb-1">{AGING_BUCKET_LABELS[bucket]}</p>
+            <p className={`text-lg font-bold ${BUCKET_STYLES[bucket]}`}>{formatMoney(totals.buckets[bucket])}</p>
+          </div>
+        ))}
+        <div className="p-4 text-center md:text-left bg-slate-50 print:bg-white">
+          <p className="text-xs uppercase tracking-wider text-slate-500 font-medium mb-1">Total Receivable</p>
+          <p className="text-lg font-bold text-black" style={{ color: '#000000' }}>{formatMoney(totals.total)}</p>
+        </div>
+      </div>
+
+      {/* Client Table */}
+      <div className="p-6 print:p-4">
+        <div className="flex justify-between items-center mb-4 px-2 print:mb-2 print:px-0">
+          <h3 className="text-lg font-bold text-slate-900" style={{ color: '#000000' }}>By Client</h3>
+          {rows.length > 0 && (
+            <button
+              type="button"
+              onClick={() => setExpanded(allExpanded ? new Set() : new Set(rows.map(r => r.client.id)))}
+              className="text-sm text-blue-600 hover:text-blue-800 font-medium print:hidden"
+            >
+              {allExpanded ? 'Collapse all' : 'Expand all'}
+            </button>
+          )}
+        </div>
+        <table className="w-full text-left text-sm print:text-xs border-collapse">
+          <thead>
+            <tr className="border-b-2 border-slate-200 text-slate-500 print:text-black print:border-black">
+              <th className="p-2 w-6 print:hidden"></th>
+              <th className="p-2 font-bold" style={{ color: '#000000' }}>Client</th>
+              {AGING_BUCKETS.map(bucket => (
+                <th key={bucket} className="p-2 font-bold text-right" style={{ color: '#000000' }}>{AGING_BUCKET_LABELS[bucket]}</th>
+              ))}
+              <th className="p-2 font-bold text-right" style={{ color: '#000000' }}>Total</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 print:divide-slate-300">
+            {rows.map(row => {
+              const isExpanded = expanded.has(row.client.id);
+              return (
+                <React.Fragment key={row.client.id}>
+                  <tr className="hover:bg-slate-50 cursor-pointer break-inside-avoid" onClick={() => toggle(row.client.id)}>
+                    <td className="p-2 text-slate-400 print:hidden">
+                      {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    </td>
+                    <td className="p-2">
+                      <div className="font-bold text-black" style={{ color: '#000000' }}>{row.client.name}</div>
+                      {row.client.company && <div className="text-xs text-slate-500 print:text-slate-700">{row.client.company}</div>}
+                      {row.credit > 0 && (
+                        <div className="text-xs text-green-700 print:text-black">
+                          Unapplied credit {formatMoney(row.credit)} · Net due {formatMoney(subtractMoney(row.total, row.credit))}
+                        </div>
+                      )}
+                    </td>
+                    {AGING_BUCKETS.map(bucket => (
+                      <React.Fragment key={bucket}>{amountCell(row.buckets[bucket], BUCKET_STYLES[bucket])}</React.Fragment>
+                    ))}
+                    <td className="p-2 text-right font-bold text-black" style={{ color: '#000000' }}>{formatMoney(row.total)}</td>
+                  </tr>
+                  {isExpanded && (
+                    <tr className="bg-slate-50/60 print:bg-white">
+                      <td className="print:hidden"></td>
+                      <td colSpan={AGING_BUCKETS.length + 2} className="p-2 pb-4">
+                        <table className="w-full text-xs border border-slate-200 bg-white">
+                          <thead>
+                            <tr className="bg-slate-50 text-slate-500 print:bg-white print:text-black">
+                              <th className="p-2 font-semibold">Invoice</th>
+                              <th className="p-2 font-semibold">Issued</th>
+                              <th className="p-2 font-semibold">Due</th>
+                              <th className="p-2 font-semibold">Age</th>
+                              <th className="p-2 font-semibold text-right">Outstanding</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-slate-100">
+                            {row.items.map(item => (
+                              <tr key={item.invoice?.id || 'opening'}>
+                                <td className="p-2 font-medium text-slate-800 print:text-black">{item.invoice ? item.invoice.number || 'Unnumbered' : 'Opening balance'}</td>
+                                <td className="p-2 text-slate-600 print:text-black">{item.invoice?.issueDate || '-'}</td>
+                                <td className="p-2 text-slate-600 print:text-black">{item.dueDate}</td>
+                                <td className={`p-2 font-medium ${BUCKET_STYLES[item.bucket]} print:text-black`}>
+                                  {item.daysOverdue > 0 ? `${item.daysOverdue} days overdue` : 'Not yet due'}
+                                </td>
+                                <td className="p-2 text-right font-bold text-black" style={{ color: '#000000' }}>{formatMoney(item.outstanding)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              );
+            })}
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={AGING_BUCKETS.length + 3} className="p-8 text-center text-slate-400 border border-slate-200 border-dashed rounded mt-4">
+                  Nothing outstanding. Every client is paid up.
+                </td>
+              </tr>
+            )}
+          </tbody>
+          <tfoot className="border-t-2 border-slate-200 bg-slate-50 font-bold print:bg-white print:border-black">
+            <tr>
+              <td className="print:hidden"></td>
+              <td className="p-2" style={{ color: '#000000' }}>TOTAL</td>
+              {AGING_BUCKETS.map(bucket => (
+                <React.Fragment key={bucket}>{amountCell(totals.buckets[bucket], BUCKET_STYLES[bucket])}</React.Fragment>
+              ))}
+              <td className="p-2 text-right text-black" style={{ color: '#000000' }}>{formatMoney(totals.total)}</td>
+            </tr>
+          </tfoot>
+        </table>
+        {totals.credit > 0 && (
+          <p className="text-xs text-slate-500 mt-3 px-2 print:px-0">
+            Clients also hold {formatMoney(totals.credit)} in unapplied credit, not deducted above.
+          </p>
+        )}
+      </div>
+
+      {/* Footer for Print */}
+      <div className="hidden print:block mt-4 pt-4 border-t border-slate-300 px-6 pb-6">
+        <div className="flex justify-between text-[10px] text-slate-500">
+          <p>Generated by Euro IT Accounts System</p>
+          <p>Printed on {new Date().toLocaleDateString()} at {new Date().toLocaleTimeString()}</p>
+        </div>
+      </div>
+    </div>
+  );
+};
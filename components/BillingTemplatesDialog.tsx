@@ -0,0 +1,351 @@
+import React, { useState } from 'react';
+import { AppData, BillingTemplate, RecurrenceFrequency, User } from '../types';
+import { Edit2, Pause, Play, Plus, Repeat, Trash2, X } from 'lucide-react';
+import { ConflictError } from '../services/backends';
+import { MergeDialog, MergeField } from './MergeDialog';
+import { formatMoney, parseMoneyInput, takaInputValue } from '../services/money';
+import { FREQUENCY_LABELS, isFinished, localDay } from '../services/recurring';
+import { can } from '../services/permissions';
+
+interface BillingTemplatesDialogProps {
+  data: AppData;
+  onAddTemplate: (template: BillingTemplate) => void;
+  onUpdateTemplate: (template: BillingTemplate) => Promise<void>;
+  onDeleteTemplate: (id: string) => void;
+  onClose: () => void;
+  user: User;
+}
+
+export const BillingTemplatesDialog: React.FC<BillingTemplatesDialogProps> = ({ data, onAddTemplate, onUpdateTemplate, onDeleteTemplate, onClose, user }) => {
+  const [formData, setFormData] = useState<Partial<BillingTemplate> | null>(null);
+  const [conflict, setConflict] = useState<BillingTemplate | null>(null);
+  // The template as the form loaded it, so the merge can tell whose change each difference is
+  const [mergeBase, setMergeBase] = useState<BillingTemplate | null>(null);
+
+  const activeClients = data.clients.filter(c => c.isActive !== false && !c.archivedAt);
+  const getClientName = (clientId: string) => data.clients.find(c => c.id === clientId)?.name || 'Unknown Client';
+  const getProjectName = (projectId?: string | null) => data.projects.find(p => p.id === projectId)?.name;
+
+  const templates = [...data.billingTemplates].sort((a, b) =>
+    getClientName(a.clientId).localeCompare(getClientName(b.clientId)) || a.description.localeCompare(b.description));
+
+  // The next period isn't merged: it moves when a period is billed, and an older value would bill it again
+  const mergeFields: MergeField<BillingTemplate>[] = [
+    { key: 'clientId', label: 'Client', format: getClientName },
+    { key: 'description', label: 'Description' },
+    { key: 'amount', label: 'Amount', format: v => formatMoney(v) },
+    { key: 'frequency', label: 'Frequency', format: (v: RecurrenceFrequency) => FREQUENCY_LABELS[v] },
+    { key: 'startDate', label: 'Start Date' },
+    { key: 'endDate', label: 'End Date' },
+    { key: 'paused', label: 'Paused', format: v => v ? 'Yes' : 'No' }
+  ];
+
+  // Returns false when the save hit a concurrent edit and the merge dialog took over
+  const saveTemplateUpdate = async (template: BillingTemplate) => {
+    try {
+      await onUpdateTemplate(template);
+      return true;
+    } catch (error) {
+      if (!(error instanceof ConflictError)) throw error;
+      setFormData(template);
+      setConflict(error.current as BillingTemplate);
+      return false;
+    }
+  };
+
+  const openEdit = (template: BillingTemplate) => {
+    setFormData(template);
+    setMergeBase(template);
+  };
+
+  const handleResolveConflict = async (merged: BillingTemplate) => {
+    // The merged row is built on the stored one, which becomes the base if this save conflicts too
+    setMergeBase(conflict);
+    setConflict(null);
+    setFormData(merged);
+    if (await saveTemplateUpdate(merged)) setFormData(null);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData?.clientId || !formData.description || !formData.startDate) return;
+    if (!(Number(formData.amount) > 0)) {
+      alert('Enter the amount to bill each period.');
+      return;
+    }
+    if (formData.endDate && formData.endDate < formData.startDate) {
+      alert('The end date cannot be before the start date.');
+      return;
+    }
+
+    if (formData.id) {
+      const original = data.billingTemplates.find(t => t.id === formData.id);
+      // Until the first period is dealt with, moving the start date moves the schedule with it
+      const nextDate = !original || original.nextDate === original.startDate ? formData.startDate : formData.nextDate;
+      const template = { ...formData, taxRate: Number(formData.taxRate) || 0, dueDays: Number(formData.dueDays) || undefined, nextDate } as BillingTemplate;
+      if (!(await saveTemplateUpdate(template))) return;
+    } else {
+      onAddTemplate({
+        id: crypto.randomUUID(),
+        clientId: formData.clientId,
+        projectId: formData.projectId || null,
+        description: formData.description,
+        amount: formData.amount!,
+        taxRate: Number(formData.taxRate) || 0,
+        dueDays: Number(formData.dueDays) || undefined,
+        frequency: formData.frequency || 'MONTHLY',
+        startDate: formData.startDate,
+        endDate: formData.endDate || '',
+        nextDate: formData.startDate,
+        createdAt: Date.now()
+      });
+    }
+    setFormData(null);
+  };
+
+  const handleTogglePaused = (template: BillingTemplate) => {
+    saveTemplateUpdate({ ...template, paused: !template.paused });
+  };
+
+  const handleDelete = (template: BillingTemplate) => {
+    if (window.confirm(`Stop billing ${getClientName(template.clientId)} for "${template.description}"? Invoices already posted are kept.`)) {
+      onDeleteTemplate(template.id);
+    }
+  };
+
+  const canCreate = can(user, 'recurring.create');
+  const canEdit = can(user, 'recurring.edit');
+  const canDelete = can(user, 'recurring.delete');
+  const pickableClients = activeClients.some(c => c.id === formData?.clientId)
+    ? activeClients
+    : [...data.clients.filter(c => c.id === formData?.clientId), ...activeClients];
+  const clientProjects = data.projects.filter(p =>
+    p.clientId === formData?.clientId && (p.status === 'ACTIVE' || p.status === 'ON_HOLD' || p.id === formData?.projectId));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="flex justify-between items-center p-6 border-b border-slate-100">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900">Recurring Billing</h2>
+            <p className="text-sm text-slate-500">Retainers and hosting plans billed every period</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {templates.length === 0 && !formData && (
+            <div className="flex flex-col items-center justify-center text-slate-400 py-6">
+              <Repeat className="w-10 h-10 mb-2 opacity-30" />
+              <p className="text-sm">No recurring billing set up yet</p>
+            </div>
+          )}
+
+          {templates.length > 0 && (
+            <div className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+              {templates.map(template => {
+                const projectName = getProjectName(template.projectId);
+                return (
+                  <div key={template.id} className="flex items-center gap-4 px-4 py-3 group">
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium text-slate-900 truncate">{template.description}</div>
+                      <div className="text-xs text-slate-500 mt-0.5 truncate">
+                        {getClientName(template.clientId)}{projectName && ` · ${projectName}`}
+                      </div>
+                    </div>
+                    <div className="text-right text-sm">
+                      <div className="text-slate-700">{formatMoney(template.amount)} <span className="text-xs text-slate-400">{FREQUENCY_LABELS[template.frequency].toLowerCase()}</span></div>
+                      <div className="text-xs text-slate-500">
+                        {isFinished(template) ? 'Ended' : template.paused ? <span className="text-amber-600 font-medium">Paused</span> : `Next ${template.nextDate}`}
+                      </div>
+                    </div>
+                    <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                      {canEdit && !isFinished(template) && (
+                        <button
+                          onClick={() => handleTogglePaused(template)}
+                          className="text-slate-400 hover:text-amber-600"
+                          title={template.paused ? 'Resume' : 'Pause'}
+                        >
+                          {template.paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                        </button>
+                      )}
+                      {canEdit && (
+                        <button onClick={() => openEdit(template)} className="text-slate-400 hover:text-blue-600" title="Edit">
+                          <Edit2 className="w-4 h-4" />
+                        </button>
+                      )}
+                      {canDelete && (
+                        <button onClick={() => handleDelete(template)} className="text-slate-400 hover:text-red-600" title="Delete">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {formData ? (
+            <form onSubmit={handleSave} className="border border-slate-200 rounded-lg p-4 space-y-4 bg-slate-50">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Client *</label>
+                  <select
+                    required
+                    disabled={!!formData.id}
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white disabled:bg-slate-100"
+                    value={formData.clientId || ''}
+                    onChange={e => setFormData({ ...formData, clientId: e.target.value, projectId: null })}
+                  >
+                    <option value="" disabled>Select a client</option>
+                    {pickableClients.map(c => (
+                      <option key={c.id} value={c.id}>{c.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Project</label>
+                  <select
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+                    value={formData.projectId || ''}
+                    onChange={e => setFormData({ ...formData, projectId: e.target.value || null })}
+                  >
+                    <option value="">No project</option>
+                    {clientProjects.map(p => (
+                      <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="sm:col-span-2">
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Description *</label>
+                  <input
+                    required
+                    type="text"
+                    placeholder="e.g. Web hosting"
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    value={formData.description || ''}
+                    onChange={e => setFormData({ ...formData, description: e.target.value })}
+                  />
+                  <p className="text-xs text-slate-400 mt-1">The period is added to the invoice line, e.g. "Web hosting (Oct 2026)".</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Amount per Period (৳) *</label>
+                  <input
+                    required
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    value={takaInputValue(formData.amount)}
+                    onChange={e => setFormData({ ...formData, amount: parseMoneyInput(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Frequency</label>
+                  <select
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+                    value={formData.frequency || 'MONTHLY'}
+                    onChange={e => setFormData({ ...formData, frequency: e.target.value as RecurrenceFrequency })}
+                  >
+                    {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map(frequency => (
+                      <option key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Start Date *</label>
+                  <input
+                    required
+                    type="date"
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    value={formData.startDate || ''}
+                    onChange={e => setFormData({ ...formData, startDate: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">End Date</label>
+                  <input
+                    type="date"
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    value={formData.endDate || ''}
+                    onChange={e => setFormData({ ...formData, endDate: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Tax Rate (%)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    value={formData.taxRate ?? ''}
+                    onChange={e => setFormData({ ...formData, taxRate: e.target.value === '' ? undefined : Number(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Payment Terms (days)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    placeholder="No due date"
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    value={formData.dueDays ?? ''}
+                    onChange={e => setFormData({ ...formData, dueDays: e.target.value === '' ? undefined : Number(e.target.value) })}
+                  />
+                </div>
+              </div>
+              {formData.id && formData.nextDate !== formData.startDate && (
+                <p className="text-xs text-slate-500">Periods before {formData.nextDate} have already been posted or skipped.</p>
+              )}
+              <div className="flex justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={() => setFormData(null)}
+                  className="px-4 py-2 text-slate-700 hover:bg-slate-100 rounded-lg font-medium"
+                >
+                  Cancel
+                </button>
+                <button type="submit" className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium shadow-sm">
+                  {formData.id ? 'Save Template' : 'Add Template'}
+                </button>
+              </div>
+            </form>
+          ) : canCreate && (
+            <button
+              onClick={() => setFormData({
+                clientId: activeClients.length > 0 ? activeClients[0].id : '',
+                frequency: 'MONTHLY',
+                taxRate: 0,
+                startDate: localDay()
+              })}
+              className="flex items-center gap-2 text-sm font-medium text-blue-600 hover:text-blue-700"
+            >
+              <Plus className="w-4 h-4" />
+              Add Recurring Billing
+            </button>
+          )}
+        </div>
+      </div>
+
+      {conflict && formData && (
+        <MergeDialog
+          title="Billing Template Edit Conflict"
+          mine={formData as BillingTemplate}
+          base={mergeBase || undefined}
+          theirs={conflict}
+          fields={mergeFields}
+          note="The next period to bill keeps its saved value, so no period is billed twice."
+          onResolve={handleResolveConflict}
+          onCancel={() => {
+            setConflict(null);
+            setFormData(null);
+          }}
+        />
+      )}
+    </div>
+  );
+};
@@ -1,29 +1,64 @@
 
 import React, { useState } from 'react';
-import { Client, Payment, AppData, UserRole } from '../types';
-import { Plus, Search, Mail, Phone, Building, X, Users, Edit2, CheckCircle, XCircle, MoreHorizontal, Power, Briefcase } from 'lucide-react';
+import { Client, Project, Payment, AppData, User } from '../types';
+import { Plus, Search, Mail, Phone, Building, X, Users, Edit2, CheckCircle, XCircle, MoreHorizontal, Power, Briefcase, Archive, ArchiveRestore, Trash2, AlertTriangle, Printer, ChevronDown, ChevronRight } from 'lucide-react';
+import { ConflictError } from '../services/backends';
+import { MergeDialog, MergeField } from './MergeDialog';
+import { ClientInUseError, ClientRemoval } from '../services/dataService';
+import { ZERO, formatMoney, parseMoneyInput, subtractMoney, toTaka } from '../services/money';
+import { clientBalance, openInvoices, allocateOldestFirst, invoicePaidAmounts, invoiceTotals, projectBalance } from '../services/finance';
+import { ProjectsDialog, PROJECT_STATUS_LABELS, PROJECT_STATUS_STYLES } from './ProjectsDialog';
+import { invoiceDocument, printDocument, receiptDocument } from '../services/documents';
+import { can } from '../services/permissions';
+
+const CLIENT_MERGE_FIELDS: MergeField<Client>[] = [
+  { key: 'name', label: 'Full Name' },
+  { key: 'email', label: 'Email' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'company', label: 'Company' },
+  { key: 'totalBilled', label: 'Opening Balance', format: v => formatMoney(v || ZERO) },
+  { key: 'notes', label: 'Notes' },
+  { key: 'isActive', label: 'Status', format: v => v === false ? 'Inactive' : 'Active' },
+  { key: 'assignedTo', label: 'Assigned Staff', format: (v: string[]) => v.join(', ') || '—' }
+];
 
 interface ClientsProps {
   data: AppData;
   onAddClient: (client: Client) => void;
-  onUpdateClient: (client: Client) => void;
+  onUpdateClient: (client: Client) => Promise<void>;
+  onSetClientArchived: (id: string, archived: boolean) => void;
+  onDeleteClient: (id: string, removal?: ClientRemoval) => Promise<void>;
+  onAddProject: (project: Project) => void;
+  onUpdateProject: (project: Project) => Promise<void>;
+  onDeleteProject: (id: string) => void;
+  onCompleteMilestone: (projectId: string, milestoneId: string) => void;
   onAddPayment: (payment: Payment) => void;
-  userRole: UserRole;
+  user: User;
 }
 
-export const Clients: React.FC<ClientsProps> = ({ data, onAddClient, onUpdateClient, onAddPayment, userRole }) => {
+export const Clients: React.FC<ClientsProps> = ({ data, onAddClient, onUpdateClient, onSetClientArchived, onDeleteClient, onAddProject, onUpdateProject, onDeleteProject, onCompleteMilestone, onAddPayment, user }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
   const [selectedClient, setSelectedClient] = useState<Client | null>(null);
-  const [statusFilter, setStatusFilter] = useState<'ALL' | 'ACTIVE' | 'INACTIVE'>('ALL');
+  const [statusFilter, setStatusFilter] = useState<'ALL' | 'ACTIVE' | 'INACTIVE' | 'ARCHIVED'>('ALL');
+  const [conflict, setConflict] = useState<Client | null>(null);
+  // The client as the form loaded it, so the merge can tell whose change each difference is
+  const [mergeBase, setMergeBase] = useState<Client | null>(null);
+  const [documentsClient, setDocumentsClient] = useState<Client | null>(null);
+  const [projectsClientId, setProjectsClientId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Delete dialog for a client that still has payments
+  const [inUse, setInUse] = useState<ClientInUseError | null>(null);
+  const [reassignTo, setReassignTo] = useState('');
   
   // New Client Form State
   const [formData, setFormData] = useState<Partial<Client>>({});
   
   // Payment Form State
   const [paymentData, setPaymentData] = useState<Partial<Payment>>({ 
-    amount: 0, 
+    amount: ZERO, 
     date: new Date().toISOString().split('T')[0],
     method: 'Cash',
     details: '',
@@ -35,6 +70,10 @@ export const Clients: React.FC<ClientsProps> = ({ data, onAddClient, onUpdateCli
                           client.company?.toLowerCase().includes(searchTerm.toLowerCase()) ||
                           client.email.toLowerCase().includes(searchTerm.toLowerCase());
     
+    // Archived clients only show up under their own filter
+    if (statusFilter === 'ARCHIVED') return matchesSearch && !!client.archivedAt;
+    if (client.archivedAt) return false;
+
     if (statusFilter === 'ALL') return matchesSearch;
     if (statusFilter === 'ACTIVE') return matchesSearch && (client.isActive !== false);
     if (statusFilter === 'INACTIVE') return matchesSearch && (client.isActive === false);
@@ -51,12 +90,24 @@ export const Clients: React.FC<ClientsProps> = ({ data, onAddClient, onUpdateCli
     return a.name.localeCompare(b.name);
   });
 
-  const handleSaveClient = (e: React.FormEvent) => {
+  // Returns false when the save hit a concurrent edit and the merge dialog took over
+  const saveClientUpdate = async (client: Client) => {
+    try {
+      await onUpdateClient(client);
+      return true;
+    } catch (error) {
+      if (!(error instanceof ConflictError)) throw error;
+      setConflict(error.current as Client);
+      return false;
+    }
+  };
+
+  const handleSaveClient = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.name || !formData.email) return;
 
     if (formData.id) {
-       onUpdateClient(formData as Client);
+       if (!(await saveClientUpdate(formData as Client))) return;
     } else {
        onAddClient({
         id: crypto.randomUUID(),
@@ -67,38 +118,84 @@ export const Clients: React.FC<ClientsProps> = ({ data, onAddClient, onUpdateCli
         notes: formData.notes || '',
         createdAt: Date.now(),
         isActive: true,
-        totalBilled: formData.totalBilled || 0
+        totalBilled: formData.totalBilled || ZERO,
+        assignedTo: formData.assignedTo || []
       });
     }
     setIsModalOpen(false);
     setFormData({});
   };
 
+  const handleResolveConflict = async (merged: Client) => {
+    // The merged row is built on the stored one, which becomes the base if this save conflicts too
+    setMergeBase(conflict);
+    setConflict(null);
+    setFormData(merged);
+    if (await saveClientUpdate(merged)) {
+      setIsModalOpen(false);
+      setFormData({});
+    }
+  };
+
+  const handleDiscardConflict = () => {
+    setConflict(null);
+    setIsModalOpen(false);
+    setFormData({});
+  };
+
   const handleToggleStatus = (client: Client) => {
-    if (userRole !== UserRole.ADMIN) return;
+    if (!can(user, 'clients.edit')) return;
     onUpdateClient({
       ...client,
       isActive: client.isActive === false ? true : false
+    }).catch(error => {
+      if (error instanceof ConflictError) alert(`${error.message} The latest version has been loaded.`);
     });
   };
 
+  const handleDeleteClient = async (client: Client) => {
+    if (!window.confirm(`Permanently delete ${client.name}? This cannot be undone. Archive the client instead to keep its history.`)) return;
+    try {
+      await onDeleteClient(client.id);
+    } catch (error) {
+      if (!(error instanceof ClientInUseError)) throw error;
+      setReassignTo('');
+      setInUse(error);
+    }
+  };
+
+  const handleConfirmRemoval = async (removal: ClientRemoval) => {
+    if (!inUse) return;
+    const client = inUse.client;
+    setInUse(null);
+    await onDeleteClient(client.id, removal);
+  };
+
   const handleSavePayment = (e: React.FormEvent) => {
     e.preventDefault();
     if (!selectedClient || !paymentData.amount) return;
 
+    const isRefund = paymentData.type === 'REFUND';
+    const { openingDue } = clientBalance(selectedClient, data.payments, data.invoices);
     onAddPayment({
       id: crypto.randomUUID(),
       clientId: selectedClient.id,
-      amount: Number(paymentData.amount),
+      amount: paymentData.amount!,
+      // Quick payments settle the opening balance, then open invoices oldest first; the rest is held as credit
+      allocations: isRefund ? [] : allocateOldestFirst(
+        subtractMoney(paymentData.amount || ZERO, openingDue),
+        openInvoices(selectedClient.id, data.invoices, data.payments)
+      ),
       date: paymentData.date || new Date().toISOString().split('T')[0],
       description: paymentData.description || 'Payment',
       method: paymentData.method || 'Cash',
       details: paymentData.details || '',
-      type: paymentData.type || 'RECEIVED'
+      type: paymentData.type || 'RECEIVED',
+      projectId: paymentData.projectId || null
     });
     setIsPaymentModalOpen(false);
     setPaymentData({ 
-      amount: 0, 
+      amount: ZERO, 
       date: new Date().toISOString().split('T')[0],
       method: 'Cash',
       details: '',
@@ -108,18 +205,19 @@ export const Clients: React.FC<ClientsProps> = ({ data, onAddClient, onUpdateCli
 
   const openEdit = (client: Client) => {
     setFormData(client);
+    setMergeBase(client);
     setIsModalOpen(true);
   };
 
   const openNew = () => {
-    setFormData({ isActive: true, totalBilled: 0 });
+    setFormData({ isActive: true, totalBilled: ZERO });
     setIsModalOpen(true);
   };
 
   const openPayment = (client: Client) => {
     setSelectedClient(client);
     setPaymentData({ 
-      amount: 0, 
+      amount: ZERO, 
       date: new Date().toISOString().split('T')[0],
       method: 'Cash',
       details: '',
@@ -129,18 +227,38 @@ export const Clients: React.FC<ClientsProps> = ({ data, onAddClient, onUpdateCli
   };
 
   const getClientFinancials = (clientId: string) => {
-    const clientPayments = data.payments.filter(p => p.clientId === clientId);
-    const received = clientPayments.filter(p => p.type !== 'REFUND').reduce((sum, p) => sum + p.amount, 0);
-    const refunded = clientPayments.filter(p => p.type === 'REFUND').reduce((sum, p) => sum + p.amount, 0);
-    const netPaid = received - refunded;
     const client = data.clients.find(c => c.id === clientId);
-    const billed = client?.totalBilled || 0;
-    const due = billed - netPaid;
-    
-    return { netPaid, due, billed };
+    if (!client) return { netPaid: ZERO, due: ZERO, billed: ZERO, credit: ZERO };
+    const { billed, paid, due, credit } = clientBalance(client, data.payments, data.invoices);
+    return { netPaid: paid, due, billed, credit };
   };
 
-  const isAdmin = userRole === UserRole.ADMIN;
+  const projectsClient = data.clients.find(c => c.id === projectsClientId);
+  const selectedClientProjects = selectedClient
+    ? data.projects.filter(p => p.clientId === selectedClient.id && (p.status === 'ACTIVE' || p.status === 'ON_HOLD'))
+    : [];
+  const paidAmounts = invoicePaidAmounts(data.payments);
+  const clientInvoices = documentsClient
+    ? data.invoices.filter(inv => inv.clientId === documentsClient.id && inv.status !== 'DRAFT').sort((a, b) => b.issueDate.localeCompare(a.issueDate))
+    : [];
+  const clientReceipts = documentsClient
+    ? data.payments.filter(p => p.clientId === documentsClient.id && p.type !== 'REFUND').sort((a, b) => b.date.localeCompare(a.date))
+    : [];
+
+  const canEdit = can(user, 'clients.edit');
+  // Only users who can't already see every client need an assignment
+  const staff = data.users.filter(u => u.status !== 'DEACTIVATED' && !can(u, 'clients.viewAll'));
+
+  const toggleAssigned = (email: string) => {
+    const assigned = formData.assignedTo || [];
+    setFormData({
+      ...formData,
+      assignedTo: assigned.includes(email) ? assigned.filter(e => e !== email) : [...assigned, email]
+    });
+  };
+  const canRecordPayment = can(user, 'payments.create');
+  const canArchive = can(user, 'clients.archive');
+  const canDelete = can(user, 'clients.delete');
 
   return (
     <div className="p-6 max-w-7xl mx-auto min-h-screen">
@@ -149,7 +267,7 @@ export const Clients: React.FC<ClientsProps> = ({ data, onAddClient, onUpdateCli
           <h1 className="text-3xl font-bold text-slate-900">Clients</h1>
           <p className="text-slate-500 mt-1">Manage client profiles and payments</p>
         </div>
-        {isAdmin && (
+        {can(user, 'clients.create') && (
           <button 
             onClick={openNew}
             className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors shadow-sm"
@@ -173,7 +291,7 @@ export const Clients: React.FC<ClientsProps> = ({ data, onAddClient, onUpdateCli
           />
         </div>
         <div className="flex bg-white rounded-lg border border-slate-200 p-1 shadow-sm">
-          {(['ALL', 'ACTIVE', 'INACTIVE'] as const).map(status => (
+          {(['ALL', 'ACTIVE', 'INACTIVE', 'ARCHIVED'] as const).map(status => (
             <button
               key={status}
               onClick={() => setStatusFilter(status)}
@@ -199,7 +317,7 @@ export const Clients: React.FC<ClientsProps> = ({ data, onAddClient, onUpdateCli
                 <th className="p-4 font-semibold">Contact</th>
                 <th className="p-4 font-semibold">Company</th>
                 <th className="p-4 font-semibold text-center">Status</th>
-                <th className="p-4 font-semibold text-right">Project Value</th>
+                <th className="p-4 font-semibold text-right">Billed</th>
                 <th className="p-4 font-semibold text-right">Paid</th>
                 <th className="p-4 font-semibold text-right">Due</th>
                 <th className="p-4 font-semibold text-right">Actions</th>
@@ -208,95 +326,170 @@ export const Clients: React.FC<ClientsProps> = ({ data, onAddClient, onUpdateCli
             <tbody className="divide-y divide-slate-100">
               {filteredClients.map(client => {
                 const financials = getClientFinancials(client.id);
+                const projects = data.projects.filter(p => p.clientId === client.id);
+                const isExpanded = expandedId === client.id;
                 return (
-                  <tr key={client.id} className="hover:bg-slate-50 transition-colors group">
-                    <td className="p-4">
-                      <div className="flex items-center gap-3">
-                        <div className="w-10 h-10 bg-blue-100 text-blue-600 rounded-full flex items-center justify-center font-bold text-sm">
-                          {client.name.charAt(0)}
-                        </div>
-                        <div>
-                          <div className="font-semibold text-slate-900">{client.name}</div>
-                          {client.notes && <div className="text-xs text-slate-400 truncate max-w-[150px]">{client.notes}</div>}
-                        </div>
-                      </div>
-                    </td>
-                    <td className="p-4">
-                      <div className="flex flex-col gap-1">
-                        <div className="flex items-center gap-1.5 text-sm text-slate-600">
-                          <Mail className="w-3.5 h-3.5 text-slate-400" />
-                          {client.email}
+                  <React.Fragment key={client.id}>
+                    <tr className="hover:bg-slate-50 transition-colors group">
+                      <td className="p-4">
+                        <div className="flex items-center gap-3">
+                          <div className="w-10 h-10 bg-blue-100 text-blue-600 rounded-full flex items-center justify-center font-bold text-sm">
+                            {client.name.charAt(0)}
+                          </div>
+                          <div>
+                            <div className="font-semibold text-slate-900">{client.name}</div>
+                            {client.notes && <div className="text-xs text-slate-400 truncate max-w-[150px]">{client.notes}</div>}
+                            {projects.length > 0 && (
+                              <button
+                                onClick={() => setExpandedId(isExpanded ? null : client.id)}
+                                className="flex items-center gap-0.5 text-xs font-medium text-blue-600 hover:text-blue-700 mt-0.5"
+                              >
+                                {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                                {projects.length} project{projects.length === 1 ? '' : 's'}
+                              </button>
+                            )}
+                          </div>
                         </div>
-                        {client.phone && (
+                      </td>
+                      <td className="p-4">
+                        <div className="flex flex-col gap-1">
                           <div className="flex items-center gap-1.5 text-sm text-slate-600">
-                            <Phone className="w-3.5 h-3.5 text-slate-400" />
-                            {client.phone}
+                            <Mail className="w-3.5 h-3.5 text-slate-400" />
+                            {client.email}
                           </div>
-                        )}
-                      </div>
-                    </td>
-                    <td className="p-4 text-sm text-slate-700">
-                      {client.company ? (
-                        <div className="flex items-center gap-1.5">
-                          <Building className="w-3.5 h-3.5 text-slate-400" />
-                          {client.company}
+                          {client.phone && (
+                            <div className="flex items-center gap-1.5 text-sm text-slate-600">
+                              <Phone className="w-3.5 h-3.5 text-slate-400" />
+                              {client.phone}
+                            </div>
+                          )}
                         </div>
-                      ) : (
-                        <span className="text-slate-400 italic">--</span>
-                      )}
-                    </td>
-                    <td className="p-4 text-center">
-                      <button
-                        onClick={() => handleToggleStatus(client)}
-                        disabled={!isAdmin}
-                        className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium border transition-colors ${
-                          client.isActive !== false 
-                            ? 'bg-green-50 text-green-700 border-green-200 hover:bg-green-100'
-                            : 'bg-slate-50 text-slate-500 border-slate-200 hover:bg-slate-100'
-                        } ${!isAdmin ? 'cursor-default opacity-80' : 'cursor-pointer'}`}
-                      >
-                        {client.isActive !== false ? (
-                          <>
-                            <CheckCircle className="w-3 h-3" /> Active
-                          </>
+                      </td>
+                      <td className="p-4 text-sm text-slate-700">
+                        {client.company ? (
+                          <div className="flex items-center gap-1.5">
+                            <Building className="w-3.5 h-3.5 text-slate-400" />
+                            {client.company}
+                          </div>
                         ) : (
-                          <>
-                            <XCircle className="w-3 h-3" /> Inactive
-                          </>
+                          <span className="text-slate-400 italic">--</span>
+                        )}
+                      </td>
+                      <td className="p-4 text-center">
+                        <button
+                          onClick={() => handleToggleStatus(client)}
+                          disabled={!canEdit}
+                          className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium border transition-colors ${
+                            client.isActive !== false 
+                              ? 'bg-green-50 text-green-700 border-green-200 hover:bg-green-100'
+                              : 'bg-slate-50 text-slate-500 border-slate-200 hover:bg-slate-100'
+                          } ${!canEdit ? 'cursor-default opacity-80' : 'cursor-pointer'}`}
+                        >
+                          {client.isActive !== false ? (
+                            <>
+                              <CheckCircle className="w-3 h-3" /> Active
+                            </>
+                          ) : (
+                            <>
+                              <XCircle className="w-3 h-3" /> Inactive
+                            </>
+                          )}
+                        </button>
+                      </td>
+                      <td className="p-4 text-right text-sm text-slate-500">
+                        {formatMoney(financials.billed)}
+                      </td>
+                      <td className="p-4 text-right text-sm font-medium text-green-600">
+                        {formatMoney(financials.netPaid)}
+                      </td>
+                      <td className="p-4 text-right text-sm font-bold text-orange-600">
+                        {financials.due > 0 ? formatMoney(financials.due) : <span className="text-slate-300">-</span>}
+                        {financials.credit > 0 && (
+                          <span className="block text-xs font-medium text-green-600">Credit {formatMoney(financials.credit)}</span>
                         )}
-                      </button>
-                    </td>
-                    <td className="p-4 text-right text-sm text-slate-500">
-                      ৳{financials.billed.toLocaleString()}
-                    </td>
-                    <td className="p-4 text-right text-sm font-medium text-green-600">
-                      ৳{financials.netPaid.toLocaleString()}
-                    </td>
-                    <td className="p-4 text-right text-sm font-bold text-orange-600">
-                      {financials.due > 0 ? `৳${financials.due.toLocaleString()}` : <span className="text-slate-300">-</span>}
-                    </td>
-                    <td className="p-4 text-right">
-                      {isAdmin && (
+                      </td>
+                      <td className="p-4 text-right">
                         <div className="flex items-center justify-end gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                          <button 
-                            onClick={() => openPayment(client)}
-                            disabled={client.isActive === false}
-                            className={`p-2 rounded-lg text-slate-400 hover:bg-blue-50 hover:text-blue-600 transition-colors ${client.isActive === false ? 'opacity-50 cursor-not-allowed' : ''}`}
-                            title="Record Payment"
+                          {canRecordPayment && (
+                            <button 
+                              onClick={() => openPayment(client)}
+                              disabled={client.isActive === false || !!client.archivedAt}
+                              className={`p-2 rounded-lg text-slate-400 hover:bg-blue-50 hover:text-blue-600 transition-colors ${client.isActive === false || client.archivedAt ? 'opacity-50 cursor-not-allowed' : ''}`}
+                              title="Record Payment"
+                            >
+                              <span className="font-bold text-lg leading-none">৳</span>
+                            </button>
+                          )}
+                          <button
+                            onClick={() => setProjectsClientId(client.id)}
+                            className="p-2 rounded-lg text-slate-400 hover:bg-slate-100 hover:text-slate-700 transition-colors"
+                            title="Projects"
                           >
-                            <span className="font-bold text-lg leading-none">৳</span>
+                            <Briefcase className="w-4 h-4" />
                           </button>
-                          <button 
-                            onClick={() => openEdit(client)}
+                          <button
+                            onClick={() => setDocumentsClient(client)}
                             className="p-2 rounded-lg text-slate-400 hover:bg-slate-100 hover:text-slate-700 transition-colors"
-                            title="Edit Details"
+                            title="Invoices & Receipts"
                           >
-                            <Edit2 className="w-4 h-4" />
+                            <Printer className="w-4 h-4" />
                           </button>
+                          {canEdit && (
+                            <button 
+                              onClick={() => openEdit(client)}
+                              className="p-2 rounded-lg text-slate-400 hover:bg-slate-100 hover:text-slate-700 transition-colors"
+                              title="Edit Details"
+                            >
+                              <Edit2 className="w-4 h-4" />
+                            </button>
+                          )}
+                          {canArchive && (
+                            <button
+                              onClick={() => onSetClientArchived(client.id, !client.archivedAt)}
+                              className="p-2 rounded-lg text-slate-400 hover:bg-slate-100 hover:text-slate-700 transition-colors"
+                              title={client.archivedAt ? 'Unarchive' : 'Archive'}
+                            >
+                              {client.archivedAt ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                            </button>
+                          )}
+                          {canDelete && (
+                            <button
+                              onClick={() => handleDeleteClient(client)}
+                              className="p-2 rounded-lg text-slate-400 hover:bg-red-50 hover:text-red-600 transition-colors"
+                              title="Delete Client"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          )}
                         </div>
-                      )}
-                    </td>
-                  </tr>
+                      </td>
+                    </tr>
+                    {isExpanded && projects.map(project => {
+                      const balance = projectBalance(project, data.payments, data.expenses);
+                      return (
+                        <tr key={project.id} className="bg-slate-50/60 text-sm">
+                          <td colSpan={4} className="py-2 pr-4 pl-16">
+                            <div className="flex items-center gap-2">
+                              <Briefcase className="w-3.5 h-3.5 text-slate-400" />
+                              <span className="font-medium text-slate-700">{project.name}</span>
+                              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${PROJECT_STATUS_STYLES[project.status]}`}>
+                                {PROJECT_STATUS_LABELS[project.status]}
+                              </span>
+                              {(project.startDate || project.endDate) && (
+                                <span className="text-xs text-slate-400">{project.startDate}{project.endDate && ` – ${project.endDate}`}</span>
+                              )}
+                            </div>
+                          </td>
+                          <td className="py-2 px-4 text-right text-slate-500">{formatMoney(balance.value)}</td>
+                          <td className="py-2 px-4 text-right text-green-600">{formatMoney(balance.received)}</td>
+                          <td className="py-2 px-4 text-right font-medium text-orange-600">
+                            {balance.due > 0 ? formatMoney(balance.due) : <span className="text-slate-300">-</span>}
+                          </td>
+                          <td></td>
+                        </tr>
+                      );
+                    })}
+                  </React.Fragment>
                 );
               })}
               
@@ -376,18 +569,18 @@ export const Clients: React.FC<ClientsProps> = ({ data, onAddClient, onUpdateCli
               </div>
               
               <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">Project Value / Total Billed (৳)</label>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Opening Balance (৳)</label>
                 <div className="relative">
                   <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 font-bold">৳</span>
                   <input 
                     type="number" 
                     min="0"
                     className="w-full pl-8 pr-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
-                    value={formData.totalBilled || 0}
-                    onChange={e => setFormData({...formData, totalBilled: parseFloat(e.target.value)})}
+                    value={toTaka(formData.totalBilled || ZERO)}
+                    onChange={e => setFormData({...formData, totalBilled: parseMoneyInput(e.target.value)})}
                   />
                 </div>
-                <p className="text-xs text-slate-500 mt-1">Total amount you expect to receive from this client.</p>
+                <p className="text-xs text-slate-500 mt-1">Amount billed before using invoices. New work is billed from Invoices.</p>
               </div>
 
               <div>
@@ -399,6 +592,25 @@ export const Clients: React.FC<ClientsProps> = ({ data, onAddClient, onUpdateCli
                   onChange={e => setFormData({...formData, notes: e.target.value})}
                 />
               </div>
+
+              {staff.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Assigned Staff</label>
+                  <p className="text-xs text-slate-500 mb-2">Staff only see the clients assigned to them, along with those clients' payments.</p>
+                  <div className="space-y-1 max-h-32 overflow-y-auto border border-slate-200 rounded-lg p-2">
+                    {staff.map(u => (
+                      <label key={u.id} className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={!!formData.assignedTo?.includes(u.email)}
+                          onChange={() => toggleAssigned(u.email)}
+                        />
+                        {u.name} <span className="text-slate-400">{u.email}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
               
               {/* Status Toggle in Edit Mode */}
               {formData.id && (
@@ -440,6 +652,77 @@ export const Clients: React.FC<ClientsProps> = ({ data, onAddClient, onUpdateCli
         </div>
       )}
 
+      {conflict && (
+        <MergeDialog
+          title="Client Edit Conflict"
+          mine={formData as Client}
+          base={mergeBase || undefined}
+          theirs={conflict}
+          fields={CLIENT_MERGE_FIELDS}
+          onResolve={handleResolveConflict}
+          onCancel={handleDiscardConflict}
+        />
+      )}
+
+      {/* Delete Client With Payments */}
+      {inUse && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-xl w-full max-w-md overflow-hidden animate-in fade-in zoom-in duration-200">
+            <div className="flex justify-between items-center p-6 border-b border-slate-100">
+              <h2 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+                <AlertTriangle className="w-5 h-5 text-red-600" />
+                Delete {inUse.client.name}
+              </h2>
+              <button onClick={() => setInUse(null)} className="text-slate-400 hover:text-slate-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-6">
+              <p className="text-sm text-slate-600">
+                This client has {inUse.paymentCount} payment{inUse.paymentCount === 1 ? '' : 's'} (including any in the recycle bin). Choose what happens to them.
+              </p>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Reassign payments to</label>
+                <div className="flex gap-2">
+                  <select
+                    className="flex-1 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+                    value={reassignTo}
+                    onChange={e => setReassignTo(e.target.value)}
+                  >
+                    <option value="">Select a client...</option>
+                    {data.clients
+                      .filter(c => c.id !== inUse.client.id)
+                      .sort((a, b) => a.name.localeCompare(b.name))
+                      .map(c => (
+                        <option key={c.id} value={c.id}>{c.name}{c.archivedAt ? ' (archived)' : ''}</option>
+                      ))}
+                  </select>
+                  <button
+                    onClick={() => handleConfirmRemoval({ mode: 'reassign', toClientId: reassignTo })}
+                    disabled={!reassignTo}
+                    className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Reassign &amp; Delete
+                  </button>
+                </div>
+              </div>
+
+              <div className="border-t border-slate-100 pt-4">
+                <button
+                  onClick={() => handleConfirmRemoval({ mode: 'cascade' })}
+                  className="w-full px-4 py-2 border border-red-200 text-red-600 hover:bg-red-50 rounded-lg font-medium"
+                >
+                  Delete Client and All Its Payments
+                </button>
+                <p className="text-xs text-slate-400 mt-2">Payments are removed permanently and will not appear in the recycle bin.</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Payment Modal */}
       {isPaymentModalOpen && selectedClient && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
@@ -497,8 +780,8 @@ export const Clients: React.FC<ClientsProps> = ({ data, onAddClient, onUpdateCli
                         ? 'border-red-200 text-red-600 focus:ring-red-500' 
                         : 'border-slate-300 text-slate-900 focus:ring-blue-500'
                     }`}
-                    value={paymentData.amount || ''}
-                    onChange={e => setPaymentData({...paymentData, amount: parseFloat(e.target.value)})}
+                    value={paymentData.amount ? toTaka(paymentData.amount) : ''}
+                    onChange={e => setPaymentData({...paymentData, amount: parseMoneyInput(e.target.value)})}
                   />
                 </div>
               </div>
@@ -531,6 +814,22 @@ export const Clients: React.FC<ClientsProps> = ({ data, onAddClient, onUpdateCli
                 </div>
               </div>
 
+              {selectedClientProjects.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Project</label>
+                  <select
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none bg-white"
+                    value={paymentData.projectId || ''}
+                    onChange={e => setPaymentData({...paymentData, projectId: e.target.value || null})}
+                  >
+                    <option value="">No specific project</option>
+                    {selectedClientProjects.map(project => (
+                      <option key={project.id} value={project.id}>{project.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-slate-700 mb-1">Payment Details</label>
                 <input 
@@ -553,6 +852,12 @@ export const Clients: React.FC<ClientsProps> = ({ data, onAddClient, onUpdateCli
                 />
               </div>
 
+              {paymentData.type !== 'REFUND' && (
+                <p className="text-xs text-slate-500">
+                  Applied to any opening balance, then open invoices oldest first; anything left over is held as credit. To choose invoices, record it from Payments.
+                </p>
+              )}
+
               <div className="pt-4 flex justify-end gap-3">
                  <button 
                   type="button" 
@@ -576,6 +881,86 @@ export const Clients: React.FC<ClientsProps> = ({ data, onAddClient, onUpdateCli
           </div>
         </div>
       )}
+
+      {projectsClient && (
+        <ProjectsDialog
+          client={projectsClient}
+          data={data}
+          onAddProject={onAddProject}
+          onUpdateProject={onUpdateProject}
+          onDeleteProject={onDeleteProject}
+          onCompleteMilestone={onCompleteMilestone}
+          onClose={() => setProjectsClientId(null)}
+          user={user}
+        />
+      )}
+
+      {/* Documents Modal */}
+      {documentsClient && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+            <div className="flex justify-between items-center p-6 border-b border-slate-100">
+              <div>
+                <h2 className="text-xl font-bold text-slate-900">Invoices & Receipts</h2>
+                <p className="text-sm text-slate-500">For {documentsClient.name}. Print, or choose "Save as PDF" in the print dialog.</p>
+              </div>
+              <button onClick={() => setDocumentsClient(null)} className="text-slate-400 hover:text-slate-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+            <div className="p-6 space-y-6 overflow-y-auto">
+              <div>
+                <h3 className="text-xs font-semibold uppercase tracking-wider text-slate-500 mb-2">Invoices</h3>
+                {clientInvoices.length === 0 ? (
+                  <p className="text-sm text-slate-400">No invoices sent yet.</p>
+                ) : (
+                  <div className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+                    {clientInvoices.map(invoice => (
+                      <div key={invoice.id} className="flex items-center justify-between px-3 py-2">
+                        <div>
+                          <div className="text-sm font-medium text-slate-900">{invoice.number}{invoice.status === 'VOID' && ' (Void)'}</div>
+                          <div className="text-xs text-slate-500">{invoice.issueDate} · {formatMoney(invoiceTotals(invoice).total)}</div>
+                        </div>
+                        <button
+                          onClick={() => printDocument(invoiceDocument(invoice, documentsClient, paidAmounts[invoice.id]))}
+                          className="flex items-center gap-1 text-sm font-medium text-blue-600 hover:text-blue-700"
+                        >
+                          <Printer className="w-4 h-4" />
+                          Invoice
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div>
+                <h3 className="text-xs font-semibold uppercase tracking-wider text-slate-500 mb-2">Payments</h3>
+                {clientReceipts.length === 0 ? (
+                  <p className="text-sm text-slate-400">No payments received yet.</p>
+                ) : (
+                  <div className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+                    {clientReceipts.map(payment => (
+                      <div key={payment.id} className="flex items-center justify-between px-3 py-2">
+                        <div>
+                          <div className="text-sm font-medium text-slate-900">{formatMoney(payment.amount)}</div>
+                          <div className="text-xs text-slate-500">{payment.date} · {payment.method || 'Cash'}</div>
+                        </div>
+                        <button
+                          onClick={() => printDocument(receiptDocument(payment, documentsClient, data.invoices))}
+                          className="flex items-center gap-1 text-sm font-medium text-green-600 hover:text-green-700"
+                        >
+                          <Printer className="w-4 h-4" />
+                          Receipt
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
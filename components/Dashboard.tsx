@@ -2,11 +2,13 @@
 import React, { useState, useMemo } from 'react';
 import { AppData } from '../types';
 import { generateFinancialInsight } from '../services/geminiService';
+import { summarize, recentMonthKeys, totalsByMonth, expensesByCategory, milestonesDue, ScheduledMilestone } from '../services/finance';
+import { toTaka, formatMoney } from '../services/money';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
   PieChart, Pie, Cell, Legend 
 } from 'recharts';
-import { TrendingUp, TrendingDown, Sparkles, Loader2, ArrowUpRight, ArrowDownRight, PieChart as PieChartIcon, AlertCircle } from 'lucide-react';
+import { TrendingUp, TrendingDown, Sparkles, Loader2, ArrowUpRight, ArrowDownRight, PieChart as PieChartIcon, AlertCircle, Flag } from 'lucide-react';
 
 interface DashboardProps {
   data: AppData;
@@ -18,74 +20,49 @@ export const Dashboard: React.FC<DashboardProps> = ({ data }) => {
   const [insight, setInsight] = useState<string | null>(null);
   const [loadingInsight, setLoadingInsight] = useState(false);
 
-  const stats = useMemo(() => {
-    // Calculate Income (Received - Refunds)
-    const totalIncome = data.payments.reduce((sum, p) => {
-      if (p.type === 'REFUND') return sum - p.amount;
-      return sum + p.amount;
-    }, 0);
-
-    const totalExpenses = data.expenses.reduce((sum, e) => sum + e.amount, 0);
-    const netProfit = totalIncome - totalExpenses;
-    const margin = totalIncome > 0 ? (netProfit / totalIncome) * 100 : 0;
-
-    // Calculate Total Outstanding Due
-    const totalDue = data.clients.reduce((sum, client) => {
-      const clientPayments = data.payments.filter(p => p.clientId === client.id);
-      const paid = clientPayments.reduce((acc, p) => {
-        return p.type === 'REFUND' ? acc - p.amount : acc + p.amount;
-      }, 0);
-      const billed = client.totalBilled || 0;
-      const due = billed - paid;
-      return sum + (due > 0 ? due : 0);
-    }, 0);
-
-    return { totalIncome, totalExpenses, netProfit, margin, totalDue };
-  }, [data]);
+  const stats = useMemo(() => summarize(data), [data]);
 
   const chartData = useMemo(() => {
-    // Group by month (last 6 months)
-    const months: Record<string, { name: string; income: number; expense: number }> = {};
-    const today = new Date();
-    
-    for (let i = 5; i >= 0; i--) {
-      const d = new Date(today.getFullYear(), today.getMonth() - i, 1);
-      const key = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
-      months[key] = {
-        name: d.toLocaleString('default', { month: 'short' }),
-        income: 0,
-        expense: 0
+    // Group by month (last 6 months); charts plot taka
+    const months = recentMonthKeys(6);
+    const totals = totalsByMonth(data.payments, data.expenses, months);
+    return months.map(key => {
+      const [year, month] = key.split('-').map(Number);
+      return {
+        name: new Date(year, month - 1, 1).toLocaleString('default', { month: 'short' }),
+        income: toTaka(totals[key].income),
+        expense: toTaka(totals[key].expense)
       };
-    }
-
-    data.payments.forEach(p => {
-      const key = p.date.substring(0, 7);
-      if (months[key]) {
-        if (p.type === 'REFUND') {
-          months[key].income -= p.amount;
-        } else {
-          months[key].income += p.amount;
-        }
-      }
     });
-
-    data.expenses.forEach(e => {
-      const key = e.date.substring(0, 7);
-      if (months[key]) months[key].expense += e.amount;
-    });
-
-    return Object.values(months);
   }, [data]);
 
   const expenseCategoryData = useMemo(() => {
-    const categories: Record<string, number> = {};
-    data.expenses.forEach(e => {
-      const cat = e.category as string;
-      categories[cat] = (categories[cat] || 0) + e.amount;
-    });
-    return Object.keys(categories).map(name => ({ name, value: categories[name] }));
+    const categories = expensesByCategory(data.expenses);
+    return Object.keys(categories).map(name => ({ name, value: toTaka(categories[name]) }));
   }, [data]);
 
+  const milestones = useMemo(
+    () => milestonesDue(data.projects, new Date().toISOString().split('T')[0], 30),
+    [data.projects]
+  );
+
+  const getClientName = (clientId: string) => data.clients.find(c => c.id === clientId)?.name || 'Unknown Client';
+
+  const renderMilestone = ({ project, milestone }: ScheduledMilestone, overdue: boolean) => (
+    <li key={milestone.id} className="flex items-center gap-4 py-3">
+      <div className="flex-1 min-w-0">
+        <div className="font-medium text-slate-900 truncate">{milestone.name}</div>
+        <div className="text-xs text-slate-500 truncate">{project.name} · {getClientName(project.clientId)}</div>
+      </div>
+      <div className="text-right">
+        <div className="font-medium text-slate-800">{formatMoney(milestone.amount)}</div>
+        <div className={`text-xs ${overdue ? 'text-red-600 font-medium' : 'text-slate-500'}`}>
+          {overdue ? 'Overdue since' : 'Due'} {milestone.dueDate}
+        </div>
+      </div>
+    </li>
+  );
+
   const handleGenerateInsight = async () => {
     setLoadingInsight(true);
     const result = await generateFinancialInsight(data);
@@ -109,7 +86,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ data }) => {
               <TrendingUp className="w-5 h-5 text-green-600" />
             </div>
           </div>
-          <p className="text-3xl font-bold text-slate-900">৳{stats.totalIncome.toLocaleString()}</p>
+          <p className="text-3xl font-bold text-slate-900">{formatMoney(stats.net)}</p>
         </div>
 
         <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
@@ -119,7 +96,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ data }) => {
               <TrendingDown className="w-5 h-5 text-red-600" />
             </div>
           </div>
-          <p className="text-3xl font-bold text-slate-900">৳{stats.totalExpenses.toLocaleString()}</p>
+          <p className="text-3xl font-bold text-slate-900">{formatMoney(stats.expenses)}</p>
         </div>
 
         <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
@@ -130,7 +107,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ data }) => {
             </div>
           </div>
           <div className="flex items-baseline gap-2">
-            <p className="text-3xl font-bold text-slate-900">৳{stats.netProfit.toLocaleString()}</p>
+            <p className="text-3xl font-bold text-slate-900">{formatMoney(stats.netProfit)}</p>
             {stats.netProfit > 0 ? (
                 <span className="text-sm font-medium text-green-600 flex items-center">
                     <ArrowUpRight className="w-3 h-3 mr-1" />
@@ -152,7 +129,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ data }) => {
               <AlertCircle className="w-5 h-5 text-orange-600" />
             </div>
           </div>
-          <p className="text-3xl font-bold text-slate-900">৳{stats.totalDue.toLocaleString()}</p>
+          <p className="text-3xl font-bold text-slate-900">{formatMoney(stats.outstanding)}</p>
           <p className="text-xs text-slate-500 mt-1">Pending payments</p>
         </div>
       </div>
@@ -257,6 +234,21 @@ export const Dashboard: React.FC<DashboardProps> = ({ data }) => {
           </div>
         </div>
       </div>
+
+      {/* Project milestones */}
+      {(milestones.overdue.length > 0 || milestones.upcoming.length > 0) && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+          <div className="flex items-center gap-2 mb-2">
+            <Flag className="w-5 h-5 text-blue-600" />
+            <h3 className="text-lg font-bold text-slate-800">Milestones</h3>
+          </div>
+          <p className="text-sm text-slate-500 mb-2">Overdue and due in the next 30 days. Complete them from a client's projects to raise the invoice.</p>
+          <ul className="divide-y divide-slate-100">
+            {milestones.overdue.map(m => renderMilestone(m, true))}
+            {milestones.upcoming.map(m => renderMilestone(m, false))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 };
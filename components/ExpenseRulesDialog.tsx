@@ -0,0 +1,392 @@
+import React, { useState } from 'react';
+import { AppData, ExpenseRule, RecurrenceFrequency, User } from '../types';
+import { AlertTriangle, Edit2, Pause, Play, Plus, Repeat, SkipForward, Trash2, Undo2, X } from 'lucide-react';
+import { ConflictError } from '../services/backends';
+import { MergeDialog, MergeField } from './MergeDialog';
+import { formatMoney, parseMoneyInput, takaInputValue } from '../services/money';
+import { FREQUENCY_LABELS, firstOccurrence, isFinished, localDay, skippedOccurrences } from '../services/recurring';
+import { can } from '../services/permissions';
+
+interface ExpenseRulesDialogProps {
+  data: AppData;
+  categories: string[];
+  getProjectLabel: (projectId?: string | null) => string | undefined;
+  onAddRule: (rule: ExpenseRule) => void;
+  onUpdateRule: (rule: ExpenseRule) => Promise<void>;
+  onDeleteRule: (id: string) => void;
+  onClose: () => void;
+  user: User;
+}
+
+const dayOf = (rule: Partial<ExpenseRule>) => rule.dayOfMonth ?? Number(rule.startDate?.split('-')[2]);
+
+export const ExpenseRulesDialog: React.FC<ExpenseRulesDialogProps> = ({ data, categories, getProjectLabel, onAddRule, onUpdateRule, onDeleteRule, onClose, user }) => {
+  const [formData, setFormData] = useState<Partial<ExpenseRule> | null>(null);
+  const [conflict, setConflict] = useState<ExpenseRule | null>(null);
+  // The rule as the form loaded it, so the merge can tell whose change each difference is
+  const [mergeBase, setMergeBase] = useState<ExpenseRule | null>(null);
+
+  const rules = [...data.expenseRules].sort((a, b) => a.description.localeCompare(b.description));
+  const original = data.expenseRules.find(r => r.id === formData?.id);
+  // Once an occurrence has been posted or skipped, the past is fixed and edits apply from the next one
+  const hasHistory = !!original && original.nextDate !== original.startDate;
+
+  // The next occurrence and skipped dates aren't merged: they move as occurrences are posted or skipped,
+  // and older values would post the same expense again
+  const mergeFields: MergeField<ExpenseRule>[] = [
+    { key: 'description', label: 'Description' },
+    { key: 'category', label: 'Category' },
+    { key: 'amount', label: 'Amount', format: v => formatMoney(v) },
+    { key: 'frequency', label: 'Frequency', format: (v: RecurrenceFrequency) => FREQUENCY_LABELS[v] },
+    { key: 'dayOfMonth', label: 'Day of Month' },
+    { key: 'endDate', label: 'End Date' },
+    { key: 'paused', label: 'Paused', format: v => v ? 'Yes' : 'No' }
+  ];
+
+  // Returns false when the save hit a concurrent edit and the merge dialog took over
+  const saveRuleUpdate = async (rule: ExpenseRule) => {
+    try {
+      await onUpdateRule(rule);
+      return true;
+    } catch (error) {
+      if (!(error instanceof ConflictError)) throw error;
+      setFormData(rule);
+      setConflict(error.current as ExpenseRule);
+      return false;
+    }
+  };
+
+  const openEdit = (rule: ExpenseRule) => {
+    setFormData({ ...rule, dayOfMonth: dayOf(rule) });
+    setMergeBase(rule);
+  };
+
+  const handleResolveConflict = async (merged: ExpenseRule) => {
+    // The merged row is built on the stored one, which becomes the base if this save conflicts too
+    setMergeBase(conflict);
+    setConflict(null);
+    setFormData(merged);
+    if (await saveRuleUpdate(merged)) setFormData(null);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData?.description || !formData.category || !formData.startDate) return;
+    const day = Number(formData.dayOfMonth);
+    if (!(Number(formData.amount) > 0)) {
+      alert('Enter the amount to post each time.');
+      return;
+    }
+    if (!Number.isInteger(day) || day < 1 || day > 31) {
+      alert('The day of the month must be between 1 and 31.');
+      return;
+    }
+
+    const fields = {
+      description: formData.description,
+      category: formData.category,
+      amount: formData.amount!,
+      frequency: formData.frequency || 'MONTHLY',
+      dayOfMonth: day,
+      endDate: formData.endDate || '',
+      projectId: formData.projectId || null
+    };
+
+    if (original) {
+      let schedule = { startDate: original.startDate, nextDate: original.nextDate, skipDates: original.skipDates || [] };
+      if (!hasHistory) {
+        const first = firstOccurrence(formData.startDate, day);
+        schedule = { startDate: first, nextDate: first, skipDates: [] };
+      } else if (day !== dayOf(original) || fields.frequency !== original.frequency) {
+        // Re-anchor the schedule at the month of the next occurrence; earlier ones stay as they were
+        const next = firstOccurrence(`${original.nextDate.substring(0, 7)}-01`, day);
+        schedule = { startDate: next, nextDate: next, skipDates: schedule.skipDates.filter(date => date < original.nextDate) };
+      }
+      if (fields.endDate && fields.endDate < schedule.nextDate && !hasHistory) {
+        alert('The end date cannot be before the first occurrence.');
+        return;
+      }
+      if (!(await saveRuleUpdate({ ...formData, ...fields, ...schedule } as ExpenseRule))) return;
+    } else {
+      const first = firstOccurrence(formData.startDate, day);
+      if (fields.endDate && fields.endDate < first) {
+        alert('The end date cannot be before the first occurrence.');
+        return;
+      }
+      onAddRule({
+        id: crypto.randomUUID(),
+        ...fields,
+        startDate: first,
+        nextDate: first,
+        skipDates: [],
+        createdAt: Date.now()
+      });
+    }
+    setFormData(null);
+  };
+
+  const handleTogglePaused = (rule: ExpenseRule) => {
+    saveRuleUpdate({ ...rule, paused: !rule.paused });
+  };
+
+  const handleToggleSkipNext = (rule: ExpenseRule) => {
+    const skipDates = rule.skipDates || [];
+    saveRuleUpdate({
+      ...rule,
+      skipDates: skipDates.includes(rule.nextDate) ? skipDates.filter(date => date !== rule.nextDate) : [...skipDates, rule.nextDate]
+    });
+  };
+
+  const handleDelete = (rule: ExpenseRule) => {
+    if (window.confirm(`Stop posting "${rule.description}"? Expenses already posted are kept.`)) {
+      onDeleteRule(rule.id);
+    }
+  };
+
+  const canCreate = can(user, 'recurring.create');
+  const canEdit = can(user, 'recurring.edit');
+  const canDelete = can(user, 'recurring.delete');
+  const pickableProjects = data.projects
+    .filter(p => p.status === 'ACTIVE' || p.status === 'ON_HOLD' || p.id === formData?.projectId)
+    .map(p => ({ id: p.id, label: getProjectLabel(p.id)! }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="flex justify-between items-center p-6 border-b border-slate-100">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900">Recurring Expenses</h2>
+            <p className="text-sm text-slate-500">Rent, salaries and subscriptions posted automatically when due</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {rules.length === 0 && !formData && (
+            <div className="flex flex-col items-center justify-center text-slate-400 py-6">
+              <Repeat className="w-10 h-10 mb-2 opacity-30" />
+              <p className="text-sm">No recurring expenses set up yet</p>
+            </div>
+          )}
+
+          {rules.length > 0 && (
+            <div className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+              {rules.map(rule => {
+                const skipped = skippedOccurrences(rule);
+                const skipsNext = !!rule.skipDates?.includes(rule.nextDate);
+                const finished = isFinished(rule);
+                return (
+                  <div key={rule.id} className="px-4 py-3 group">
+                    <div className="flex items-center gap-4">
+                      <div className="flex-1 min-w-0">
+                        <div className="font-medium text-slate-900 truncate">{rule.description}</div>
+                        <div className="text-xs text-slate-500 mt-0.5 truncate">
+                          {rule.category} · {FREQUENCY_LABELS[rule.frequency]} on day {dayOf(rule)}
+                          {getProjectLabel(rule.projectId) && ` · ${getProjectLabel(rule.projectId)}`}
+                        </div>
+                      </div>
+                      <div className="text-right text-sm">
+                        <div className="text-slate-700">{formatMoney(rule.amount)}</div>
+                        <div className="text-xs text-slate-500">
+                          {finished ? 'Ended' : rule.paused ? <span className="text-amber-600 font-medium">Paused</span> : `Next ${rule.nextDate}${skipsNext ? ' (skipping)' : ''}`}
+                        </div>
+                      </div>
+                      <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                        {canEdit && !finished && !rule.paused && (
+                          <button
+                            onClick={() => handleToggleSkipNext(rule)}
+                            className="text-slate-400 hover:text-amber-600"
+                            title={skipsNext ? 'Post the next occurrence after all' : 'Skip the next occurrence'}
+                          >
+                            {skipsNext ? <Undo2 className="w-4 h-4" /> : <SkipForward className="w-4 h-4" />}
+                          </button>
+                        )}
+                        {canEdit && !finished && (
+                          <button
+                            onClick={() => handleTogglePaused(rule)}
+                            className="text-slate-400 hover:text-amber-600"
+                            title={rule.paused ? 'Resume' : 'Pause'}
+                          >
+                            {rule.paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                          </button>
+                        )}
+                        {canEdit && (
+                          <button onClick={() => openEdit(rule)} className="text-slate-400 hover:text-blue-600" title="Edit">
+                            <Edit2 className="w-4 h-4" />
+                          </button>
+                        )}
+                        {canDelete && (
+                          <button onClick={() => handleDelete(rule)} className="text-slate-400 hover:text-red-600" title="Delete">
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    {skipped.length > 0 && (
+                      <div className="flex items-start gap-1.5 mt-1.5 text-xs text-amber-700">
+                        <AlertTriangle className="w-3.5 h-3.5 mt-px shrink-0" />
+                        <span>Skipped, not posted: {skipped.join(', ')}</span>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {formData ? (
+            <form onSubmit={handleSave} className="border border-slate-200 rounded-lg p-4 space-y-4 bg-slate-50">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="sm:col-span-2">
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Description *</label>
+                  <input
+                    required
+                    type="text"
+                    placeholder="e.g. Office rent"
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    value={formData.description || ''}
+                    onChange={e => setFormData({ ...formData, description: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Category *</label>
+                  <input
+                    required
+                    type="text"
+                    placeholder="e.g. Rent"
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    value={formData.category || ''}
+                    onChange={e => setFormData({ ...formData, category: e.target.value })}
+                    list="rule-category-suggestions"
+                  />
+                  <datalist id="rule-category-suggestions">
+                    {categories.map(cat => (
+                      <option key={cat} value={cat} />
+                    ))}
+                  </datalist>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Amount (৳) *</label>
+                  <input
+                    required
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    value={takaInputValue(formData.amount)}
+                    onChange={e => setFormData({ ...formData, amount: parseMoneyInput(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Frequency</label>
+                  <select
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+                    value={formData.frequency || 'MONTHLY'}
+                    onChange={e => setFormData({ ...formData, frequency: e.target.value as RecurrenceFrequency })}
+                  >
+                    {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map(frequency => (
+                      <option key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Day of Month *</label>
+                  <input
+                    required
+                    type="number"
+                    min="1"
+                    max="31"
+                    step="1"
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    value={formData.dayOfMonth ?? ''}
+                    onChange={e => setFormData({ ...formData, dayOfMonth: e.target.value === '' ? undefined : Number(e.target.value) })}
+                  />
+                  <p className="text-xs text-slate-400 mt-1">Shorter months use their last day.</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">{hasHistory ? 'Next Occurrence' : 'Starting From *'}</label>
+                  <input
+                    required
+                    type="date"
+                    disabled={hasHistory}
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none disabled:bg-slate-100"
+                    value={(hasHistory ? original?.nextDate : formData.startDate) || ''}
+                    onChange={e => setFormData({ ...formData, startDate: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">End Date</label>
+                  <input
+                    type="date"
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    value={formData.endDate || ''}
+                    onChange={e => setFormData({ ...formData, endDate: e.target.value })}
+                  />
+                </div>
+                <div className="sm:col-span-2">
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Project</label>
+                  <select
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+                    value={formData.projectId || ''}
+                    onChange={e => setFormData({ ...formData, projectId: e.target.value || null })}
+                  >
+                    <option value="">No project (general expense)</option>
+                    {pickableProjects.map(p => (
+                      <option key={p.id} value={p.id}>{p.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              {hasHistory && (
+                <p className="text-xs text-slate-500">Changes apply from the next occurrence. Expenses already posted keep their amounts and details.</p>
+              )}
+              <div className="flex justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={() => setFormData(null)}
+                  className="px-4 py-2 text-slate-700 hover:bg-slate-100 rounded-lg font-medium"
+                >
+                  Cancel
+                </button>
+                <button type="submit" className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium shadow-sm">
+                  {formData.id ? 'Save Rule' : 'Add Rule'}
+                </button>
+              </div>
+            </form>
+          ) : canCreate && (
+            <button
+              onClick={() => setFormData({
+                frequency: 'MONTHLY',
+                dayOfMonth: 1,
+                startDate: localDay()
+              })}
+              className="flex items-center gap-2 text-sm font-medium text-blue-600 hover:text-blue-700"
+            >
+              <Plus className="w-4 h-4" />
+              Add Recurring Expense
+            </button>
+          )}
+        </div>
+      </div>
+
+      {conflict && formData && (
+        <MergeDialog
+          title="Recurring Expense Edit Conflict"
+          mine={formData as ExpenseRule}
+          base={mergeBase || undefined}
+          theirs={conflict}
+          fields={mergeFields}
+          note="The next occurrence and skipped dates keep their saved values, so no expense is posted twice."
+          onResolve={handleResolveConflict}
+          onCancel={() => {
+            setConflict(null);
+            setFormData(null);
+          }}
+        />
+      )}
+    </div>
+  );
+};
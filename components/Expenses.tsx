@@ -1,15 +1,26 @@
 import React, { useState, useMemo } from 'react';
-import { Expense, AppData, UserRole } from '../types';
-import { Plus, Search, Filter, X, Receipt, Lock, Tag } from 'lucide-react';
+import { Expense, ExpenseRule, AppData, User } from '../types';
+import { Plus, Search, Filter, X, Receipt, Lock, Tag, Edit2, Repeat } from 'lucide-react';
+import { ConflictError } from '../services/backends';
+import { MergeDialog, MergeField } from './MergeDialog';
+import { formatMoney, parseMoneyInput, toTaka } from '../services/money';
+import { can } from '../services/permissions';
+import { ExpenseRulesDialog } from './ExpenseRulesDialog';
 
 interface ExpensesProps {
   data: AppData;
   onAddExpense: (expense: Expense) => void;
+  onUpdateExpense: (expense: Expense) => Promise<void>;
   onDeleteExpense: (id: string) => void;
-  userRole: UserRole;
+  onAddExpenseRule: (rule: ExpenseRule) => void;
+  onUpdateExpenseRule: (rule: ExpenseRule) => Promise<void>;
+  onDeleteExpenseRule: (id: string) => void;
+  user: User;
 }
 
-export const Expenses: React.FC<ExpensesProps> = ({ data, onAddExpense, onDeleteExpense, userRole }) => {
+export const Expenses: React.FC<ExpensesProps> = ({
+  data, onAddExpense, onUpdateExpense, onDeleteExpense, onAddExpenseRule, onUpdateExpenseRule, onDeleteExpenseRule, user
+}) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [categoryFilter, setCategoryFilter] = useState<string>('All');
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -17,6 +28,10 @@ export const Expenses: React.FC<ExpensesProps> = ({ data, onAddExpense, onDelete
     date: new Date().toISOString().split('T')[0],
     category: ''
   });
+  const [conflict, setConflict] = useState<Expense | null>(null);
+  // The expense as the form loaded it, so the merge can tell whose change each difference is
+  const [mergeBase, setMergeBase] = useState<Expense | null>(null);
+  const [isRecurringOpen, setIsRecurringOpen] = useState(false);
 
   // Calculate unique categories from existing data for the filter
   const uniqueCategories = useMemo(() => {
@@ -31,27 +46,93 @@ export const Expenses: React.FC<ExpensesProps> = ({ data, onAddExpense, onDelete
     return matchesSearch && matchesCategory;
   }).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
-  const handleSave = (e: React.FormEvent) => {
+  const handleOpenModal = (expense?: Expense) => {
+    if (expense) {
+      setFormData(expense);
+      setMergeBase(expense);
+    } else {
+      setFormData({
+        date: new Date().toISOString().split('T')[0],
+        category: '',
+        amount: undefined,
+        description: ''
+      });
+    }
+    setIsModalOpen(true);
+  };
+
+  // "Client — Project", or undefined when the project isn't visible to this user
+  const getProjectLabel = (projectId?: string | null) => {
+    const project = data.projects.find(p => p.id === projectId);
+    if (!project) return undefined;
+    const client = data.clients.find(c => c.id === project.clientId);
+    return client ? `${client.name} — ${project.name}` : project.name;
+  };
+
+  // Open projects, plus the one already chosen even if it has since been closed
+  const pickableProjects = data.projects
+    .filter(p => p.status === 'ACTIVE' || p.status === 'ON_HOLD' || p.id === formData.projectId)
+    .map(p => ({ id: p.id, label: getProjectLabel(p.id)! }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+  const mergeFields: MergeField<Expense>[] = [
+    { key: 'amount', label: 'Amount', format: v => formatMoney(v) },
+    { key: 'description', label: 'Description' },
+    { key: 'category', label: 'Category' },
+    { key: 'date', label: 'Date' },
+    { key: 'projectId', label: 'Project', format: v => getProjectLabel(v) || 'Unknown Project' }
+  ];
+
+  // Returns false when the save hit a concurrent edit and the merge dialog took over
+  const saveExpenseUpdate = async (expense: Expense) => {
+    try {
+      await onUpdateExpense(expense);
+      return true;
+    } catch (error) {
+      if (!(error instanceof ConflictError)) throw error;
+      setConflict(error.current as Expense);
+      return false;
+    }
+  };
+
+  const handleResolveConflict = async (merged: Expense) => {
+    // The merged row is built on the stored one, which becomes the base if this save conflicts too
+    setMergeBase(conflict);
+    setConflict(null);
+    setFormData(merged);
+    if (await saveExpenseUpdate(merged)) setIsModalOpen(false);
+  };
+
+  const handleDiscardConflict = () => {
+    setConflict(null);
+    setIsModalOpen(false);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.amount || !formData.description || !formData.category) return;
 
-    onAddExpense({
-      id: crypto.randomUUID(),
-      amount: Number(formData.amount),
-      category: formData.category,
-      date: formData.date || new Date().toISOString().split('T')[0],
-      description: formData.description
-    });
+    if (formData.id) {
+      // Edit
+      if (!(await saveExpenseUpdate({ ...formData, amount: formData.amount! } as Expense))) return;
+    } else {
+      // Add
+      onAddExpense({
+        id: crypto.randomUUID(),
+        amount: formData.amount!,
+        category: formData.category,
+        date: formData.date || new Date().toISOString().split('T')[0],
+        description: formData.description,
+        projectId: formData.projectId || null
+      });
+    }
     setIsModalOpen(false);
-    setFormData({
-      date: new Date().toISOString().split('T')[0],
-      category: '',
-      amount: undefined,
-      description: ''
-    });
   };
 
-  const isAdmin = userRole === UserRole.ADMIN;
+  const canCreate = can(user, 'expenses.create');
+  const canEdit = can(user, 'expenses.edit');
+  const canDelete = can(user, 'expenses.delete');
+  const canManageRecurring = can(user, 'recurring.create') || can(user, 'recurring.edit') || can(user, 'recurring.delete');
 
   return (
     <div className="p-6 max-w-7xl mx-auto min-h-screen">
@@ -60,15 +141,26 @@ export const Expenses: React.FC<ExpensesProps> = ({ data, onAddExpense, onDelete
           <h1 className="text-3xl font-bold text-slate-900">Expenses</h1>
           <p className="text-slate-500 mt-1">Track business spending and receipts</p>
         </div>
-        {isAdmin && (
-          <button 
-            onClick={() => setIsModalOpen(true)}
-            className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors shadow-sm"
-          >
-            <Plus className="w-5 h-5" />
-            Log Expense
-          </button>
-        )}
+        <div className="flex gap-3">
+          {canManageRecurring && (
+            <button
+              onClick={() => setIsRecurringOpen(true)}
+              className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-4 py-2 rounded-lg font-medium transition-colors shadow-sm"
+            >
+              <Repeat className="w-5 h-5" />
+              Recurring
+            </button>
+          )}
+          {canCreate && (
+            <button 
+              onClick={() => handleOpenModal()}
+              className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors shadow-sm"
+            >
+              <Plus className="w-5 h-5" />
+              Log Expense
+            </button>
+          )}
+        </div>
       </div>
 
       <div className="flex flex-col sm:flex-row gap-4 mb-6">
@@ -113,24 +205,45 @@ export const Expenses: React.FC<ExpensesProps> = ({ data, onAddExpense, onDelete
               {filteredExpenses.map(expense => (
                 <tr key={expense.id} className="hover:bg-slate-50 transition-colors group">
                   <td className="p-4 text-slate-600 whitespace-nowrap">{expense.date}</td>
-                  <td className="p-4 font-medium text-slate-900">{expense.description}</td>
+                  <td className="p-4">
+                    <div className="font-medium text-slate-900">
+                      {expense.description}
+                      {expense.recurringRuleId && <Repeat className="inline w-3.5 h-3.5 ml-1.5 text-slate-400" aria-label="Posted by a recurring rule" />}
+                    </div>
+                    {getProjectLabel(expense.projectId) && (
+                      <div className="text-xs text-slate-400 mt-0.5">{getProjectLabel(expense.projectId)}</div>
+                    )}
+                  </td>
                   <td className="p-4">
                     <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
                       {expense.category}
                     </span>
                   </td>
                   <td className="p-4 text-right font-bold text-slate-900">
-                    ৳{expense.amount.toFixed(2)}
+                    {formatMoney(expense.amount)}
                   </td>
                   <td className="p-4 text-right">
-                    {isAdmin ? (
-                      <button 
-                        onClick={() => onDeleteExpense(expense.id)}
-                        className="text-slate-400 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-all"
-                        title="Delete expense"
-                      >
-                        <X className="w-5 h-5" />
-                      </button>
+                    {canEdit || canDelete ? (
+                      <div className="flex justify-end gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                        {canEdit && (
+                          <button
+                            onClick={() => handleOpenModal(expense)}
+                            className="text-slate-400 hover:text-blue-600"
+                            title="Edit expense"
+                          >
+                            <Edit2 className="w-4 h-4" />
+                          </button>
+                        )}
+                        {canDelete && (
+                          <button 
+                            onClick={() => onDeleteExpense(expense.id)}
+                            className="text-slate-400 hover:text-red-600"
+                            title="Delete expense"
+                          >
+                            <X className="w-5 h-5" />
+                          </button>
+                        )}
+                      </div>
                     ) : (
                       <Lock className="w-4 h-4 text-slate-200 opacity-0 group-hover:opacity-100 ml-auto" />
                     )}
@@ -152,12 +265,27 @@ export const Expenses: React.FC<ExpensesProps> = ({ data, onAddExpense, onDelete
         </div>
       </div>
 
+      {isRecurringOpen && (
+        <ExpenseRulesDialog
+          data={data}
+          categories={uniqueCategories}
+          getProjectLabel={getProjectLabel}
+          onAddRule={onAddExpenseRule}
+          onUpdateRule={onUpdateExpenseRule}
+          onDeleteRule={onDeleteExpenseRule}
+          onClose={() => setIsRecurringOpen(false)}
+          user={user}
+        />
+      )}
+
       {/* Expense Modal */}
       {isModalOpen && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
           <div className="bg-white rounded-2xl shadow-xl w-full max-w-md overflow-hidden animate-in fade-in zoom-in duration-200">
             <div className="flex justify-between items-center p-6 border-b border-slate-100">
-              <h2 className="text-xl font-bold text-slate-900">Log New Expense</h2>
+              <h2 className="text-xl font-bold text-slate-900">
+                {formData.id ? 'Edit Expense' : 'Log New Expense'}
+              </h2>
               <button onClick={() => setIsModalOpen(false)} className="text-slate-400 hover:text-slate-600">
                 <X className="w-6 h-6" />
               </button>
@@ -174,8 +302,8 @@ export const Expenses: React.FC<ExpensesProps> = ({ data, onAddExpense, onDelete
                     min="0"
                     step="0.01"
                     className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none text-lg font-semibold"
-                    value={formData.amount || ''}
-                    onChange={e => setFormData({...formData, amount: parseFloat(e.target.value)})}
+                    value={formData.amount ? toTaka(formData.amount) : ''}
+                    onChange={e => setFormData({...formData, amount: parseMoneyInput(e.target.value)})}
                   />
                 </div>
               </div>
@@ -225,6 +353,22 @@ export const Expenses: React.FC<ExpensesProps> = ({ data, onAddExpense, onDelete
                 </div>
               </div>
 
+              {pickableProjects.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Project</label>
+                  <select
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none bg-white"
+                    value={formData.projectId || ''}
+                    onChange={e => setFormData({...formData, projectId: e.target.value || null})}
+                  >
+                    <option value="">Not for a project</option>
+                    {pickableProjects.map(project => (
+                      <option key={project.id} value={project.id}>{project.label}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               <div className="pt-4 flex justify-end gap-3">
                  <button 
                   type="button" 
@@ -244,6 +388,18 @@ export const Expenses: React.FC<ExpensesProps> = ({ data, onAddExpense, onDelete
           </div>
         </div>
       )}
+
+      {conflict && (
+        <MergeDialog
+          title="Expense Edit Conflict"
+          mine={formData as Expense}
+          base={mergeBase || undefined}
+          theirs={conflict}
+          fields={mergeFields}
+          onResolve={handleResolveConflict}
+          onCancel={handleDiscardConflict}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,538 @@
+import React, { useState, useMemo } from 'react';
+import { Invoice, InvoiceLine, InvoiceStatus, AppData, BillingTemplate, User } from '../types';
+import { Plus, Search, X, FileText, Edit2, Send, Ban, Trash2, Printer, Repeat, SkipForward } from 'lucide-react';
+import { ConflictError } from '../services/backends';
+import { MergeDialog, MergeField } from './MergeDialog';
+import { Money, ZERO, formatMoney } from '../services/money';
+import { invoiceTotals, invoicePaidAmounts, invoiceStatus } from '../services/finance';
+import { can } from '../services/permissions';
+import { invoiceDocument, printDocument } from '../services/documents';
+import { billingQueue, billingTotal, localDay, periodLabel } from '../services/recurring';
+import { BillingTemplatesDialog } from './BillingTemplatesDialog';
+import { LineItemsEditor, newLine } from './LineItemsEditor';
+
+interface InvoicesProps {
+  data: AppData;
+  onAddInvoice: (invoice: Invoice) => void;
+  onUpdateInvoice: (invoice: Invoice) => Promise<void>;
+  onIssueInvoice: (invoice: Invoice) => Promise<void>;
+  onVoidInvoice: (id: string) => void;
+  onDeleteInvoice: (id: string) => void;
+  onAddBillingTemplate: (template: BillingTemplate) => void;
+  onUpdateBillingTemplate: (template: BillingTemplate) => Promise<void>;
+  onDeleteBillingTemplate: (id: string) => void;
+  onRecordBillingRun: (templateId: string, post: boolean) => void;
+  user: User;
+}
+
+const STATUS_LABELS: Record<InvoiceStatus, string> = {
+  DRAFT: 'Draft',
+  SENT: 'Sent',
+  PARTIALLY_PAID: 'Partially Paid',
+  PAID: 'Paid',
+  VOID: 'Void'
+};
+
+const STATUS_STYLES: Record<InvoiceStatus, string> = {
+  DRAFT: 'bg-slate-100 text-slate-600',
+  SENT: 'bg-blue-100 text-blue-700',
+  PARTIALLY_PAID: 'bg-amber-100 text-amber-700',
+  PAID: 'bg-green-100 text-green-700',
+  VOID: 'bg-red-100 text-red-700'
+};
+
+const today = () => localDay();
+
+export const Invoices: React.FC<InvoicesProps> = ({
+  data, onAddInvoice, onUpdateInvoice, onIssueInvoice, onVoidInvoice, onDeleteInvoice,
+  onAddBillingTemplate, onUpdateBillingTemplate, onDeleteBillingTemplate, onRecordBillingRun, user
+}) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<'ALL' | InvoiceStatus>('ALL');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [formData, setFormData] = useState<Partial<Invoice>>({});
+  const [conflict, setConflict] = useState<Invoice | null>(null);
+  // The invoice as the form loaded it, so the merge can tell whose change each difference is
+  const [mergeBase, setMergeBase] = useState<Invoice | null>(null);
+  const [isRecurringOpen, setIsRecurringOpen] = useState(false);
+
+  const activeClients = data.clients.filter(c => c.isActive !== false && !c.archivedAt);
+
+  const getClientName = (clientId: string) => data.clients.find(c => c.id === clientId)?.name || 'Unknown Client';
+
+  const paidAmounts = useMemo(
+    () => invoicePaidAmounts(data.payments),
+    [data.payments]
+  );
+
+  const rows = data.invoices.map(invoice => {
+    const paid = paidAmounts[invoice.id] ?? ZERO;
+    return { invoice, paid, totals: invoiceTotals(invoice), status: invoiceStatus(invoice, paid) };
+  });
+
+  const filteredRows = rows.filter(({ invoice, status }) => {
+    const search = searchTerm.toLowerCase();
+    const matchesSearch = (invoice.number || '').toLowerCase().includes(search) ||
+                          getClientName(invoice.clientId).toLowerCase().includes(search);
+    return matchesSearch && (statusFilter === 'ALL' || status === statusFilter);
+  }).sort((a, b) => b.invoice.issueDate.localeCompare(a.invoice.issueDate) || b.invoice.createdAt - a.invoice.createdAt);
+
+  const handleOpenModal = (invoice?: Invoice) => {
+    if (invoice) {
+      setFormData(invoice);
+      setMergeBase(invoice);
+    } else {
+      setFormData({
+        clientId: activeClients.length > 0 ? activeClients[0].id : '',
+        issueDate: today(),
+        dueDate: '',
+        lines: [newLine()],
+        taxRate: 0,
+        notes: '',
+        status: 'DRAFT'
+      });
+    }
+    setIsModalOpen(true);
+  };
+
+  const mergeFields: MergeField<Invoice>[] = [
+    { key: 'clientId', label: 'Client', format: getClientName },
+    { key: 'issueDate', label: 'Issue Date' },
+    { key: 'dueDate', label: 'Due Date' },
+    { key: 'lines', label: 'Line Items', format: (lines: InvoiceLine[]) => lines.map(l => `${l.quantity} × ${l.description}`).join(', ') },
+    { key: 'taxRate', label: 'Tax Rate', format: v => `${v}%` },
+    { key: 'notes', label: 'Notes' }
+  ];
+
+  // Returns false when the save hit a concurrent edit and the merge dialog took over
+  const saveInvoiceUpdate = async (invoice: Invoice, send: boolean) => {
+    try {
+      await (send ? onIssueInvoice(invoice) : onUpdateInvoice(invoice));
+      return true;
+    } catch (error) {
+      if (!(error instanceof ConflictError)) throw error;
+      setConflict(error.current as Invoice);
+      return false;
+    }
+  };
+
+  const handleResolveConflict = async (merged: Invoice) => {
+    // The merged row is built on the stored one, which becomes the base if this save conflicts too
+    setMergeBase(conflict);
+    setConflict(null);
+    setFormData(merged);
+    if (await saveInvoiceUpdate(merged, false)) setIsModalOpen(false);
+  };
+
+  const handleDiscardConflict = () => {
+    setConflict(null);
+    setIsModalOpen(false);
+  };
+
+  const handleSave = async (send: boolean) => {
+    const lines = (formData.lines || []).filter(l => l.description.trim());
+    if (!formData.clientId || !formData.issueDate) return;
+    if (lines.length === 0) {
+      alert('Add at least one line item with a description.');
+      return;
+    }
+    if (formData.dueDate && formData.dueDate < formData.issueDate) {
+      alert('The due date cannot be before the issue date.');
+      return;
+    }
+
+    const invoice = { ...formData, lines, taxRate: Number(formData.taxRate) || 0 } as Invoice;
+    if (invoice.id) {
+      if (!(await saveInvoiceUpdate(invoice, send))) return;
+    } else {
+      onAddInvoice({
+        ...invoice,
+        id: crypto.randomUUID(),
+        status: send ? 'SENT' : 'DRAFT',
+        createdAt: Date.now()
+      });
+    }
+    setIsModalOpen(false);
+  };
+
+  const handleSend = (invoice: Invoice) => {
+    if (window.confirm(`Send this invoice to ${getClientName(invoice.clientId)}? It will get its invoice number and can no longer be edited.`)) {
+      onIssueInvoice(invoice).catch(error => {
+        if (error instanceof ConflictError) alert(`${error.message} The latest version has been loaded.`);
+      });
+    }
+  };
+
+  const handleVoid = (invoice: Invoice) => {
+    if (window.confirm(`Void invoice ${invoice.number}? It keeps its number but no longer counts towards the client's dues.`)) {
+      onVoidInvoice(invoice.id);
+    }
+  };
+
+  const handlePrint = (invoice: Invoice, paid: Money) => {
+    printDocument(invoiceDocument(invoice, data.clients.find(c => c.id === invoice.clientId), paid));
+  };
+
+  const handleSkipRun = (template: BillingTemplate, date: string) => {
+    if (window.confirm(`Skip ${periodLabel(template, date)} for "${template.description}"? No invoice will be raised for it.`)) {
+      onRecordBillingRun(template.id, false);
+    }
+  };
+
+  const handleDelete = (invoice: Invoice) => {
+    if (window.confirm('Delete this draft invoice?')) {
+      onDeleteInvoice(invoice.id);
+    }
+  };
+
+  const canCreate = can(user, 'invoices.create');
+  const canEdit = can(user, 'invoices.edit');
+  const canVoid = can(user, 'invoices.void');
+  const canManageRecurring = can(user, 'recurring.create') || can(user, 'recurring.edit') || can(user, 'recurring.delete');
+  const queue = canCreate ? billingQueue(data.billingTemplates, today()) : [];
+  const draftTotals = invoiceTotals({ lines: formData.lines || [], taxRate: Number(formData.taxRate) || 0 });
+  const pickableClients = activeClients.some(c => c.id === formData.clientId)
+    ? activeClients
+    : [...data.clients.filter(c => c.id === formData.clientId), ...activeClients];
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto min-h-screen">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900">Invoices</h1>
+          <p className="text-slate-500 mt-1">Bill clients for each job and track what has been paid</p>
+        </div>
+        <div className="flex gap-3">
+          {canManageRecurring && (
+            <button
+              onClick={() => setIsRecurringOpen(true)}
+              className="flex items-center gap-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-200 px-4 py-2 rounded-lg font-medium transition-colors shadow-sm"
+            >
+              <Repeat className="w-5 h-5" />
+              Recurring
+            </button>
+          )}
+          {canCreate && (
+            <button
+              onClick={() => handleOpenModal()}
+              className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors shadow-sm"
+            >
+              <Plus className="w-5 h-5" />
+              New Invoice
+            </button>
+          )}
+        </div>
+      </div>
+
+      {queue.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl mb-6 overflow-hidden">
+          <div className="px-4 py-3 border-b border-amber-200">
+            <h2 className="font-semibold text-amber-900">Recurring billing to review ({queue.length})</h2>
+            <p className="text-xs text-amber-700">Post each period as a sent invoice, or skip it. Missed periods are listed oldest first and must be dealt with in order.</p>
+          </div>
+          <div className="divide-y divide-amber-100">
+            {queue.map(({ template, date, first }) => (
+              <div key={`${template.id}:${date}`} className="flex items-center gap-4 px-4 py-2 text-sm">
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium text-slate-900 truncate">{template.description} ({periodLabel(template, date)})</div>
+                  <div className="text-xs text-slate-500 truncate">{getClientName(template.clientId)} · {date}</div>
+                </div>
+                <div className="font-medium text-slate-900">{formatMoney(billingTotal(template))}</div>
+                {first ? (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => onRecordBillingRun(template.id, true)}
+                      className="flex items-center gap-1 px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-xs font-medium"
+                    >
+                      <Send className="w-3.5 h-3.5" />
+                      Post
+                    </button>
+                    <button
+                      onClick={() => handleSkipRun(template, date)}
+                      className="flex items-center gap-1 px-3 py-1 text-slate-600 hover:bg-amber-100 rounded-md text-xs font-medium"
+                    >
+                      <SkipForward className="w-3.5 h-3.5" />
+                      Skip
+                    </button>
+                  </div>
+                ) : (
+                  <span className="w-32 text-right text-xs text-slate-400">After earlier period</span>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-4 mb-6">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 w-5 h-5" />
+          <input
+            type="text"
+            placeholder="Search by invoice number or client..."
+            className="w-full pl-10 pr-4 py-2 bg-white border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+          />
+        </div>
+        <div className="flex flex-wrap bg-white rounded-lg border border-slate-200 p-1 shadow-sm">
+          {(['ALL', 'DRAFT', 'SENT', 'PARTIALLY_PAID', 'PAID', 'VOID'] as const).map(status => (
+            <button
+              key={status}
+              onClick={() => setStatusFilter(status)}
+              className={`px-3 py-1.5 rounded-md text-xs font-semibold transition-colors ${
+                statusFilter === status
+                  ? 'bg-blue-50 text-blue-700'
+                  : 'text-slate-500 hover:text-slate-700 hover:bg-slate-50'
+              }`}
+            >
+              {status === 'ALL' ? 'All' : STATUS_LABELS[status]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-slate-50 border-b border-slate-200 text-xs uppercase tracking-wider text-slate-500">
+                <th className="p-4 font-semibold">Invoice</th>
+                <th className="p-4 font-semibold">Client</th>
+                <th className="p-4 font-semibold">Issued</th>
+                <th className="p-4 font-semibold">Due</th>
+                <th className="p-4 font-semibold text-right">Total</th>
+                <th className="p-4 font-semibold text-right">Paid</th>
+                <th className="p-4 font-semibold text-center">Status</th>
+                <th className="p-4 font-semibold w-28"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {filteredRows.map(({ invoice, paid, totals, status }) => {
+                const isOverdue = (status === 'SENT' || status === 'PARTIALLY_PAID') && !!invoice.dueDate && invoice.dueDate < today();
+                return (
+                  <tr key={invoice.id} className={`hover:bg-slate-50 transition-colors group ${status === 'VOID' ? 'opacity-60' : ''}`}>
+                    <td className="p-4 font-medium text-slate-900 whitespace-nowrap">
+                      {invoice.number || <span className="text-slate-400 italic">Draft</span>}
+                      {invoice.billingTemplateId && <span className="block text-xs font-normal text-slate-400">Recurring</span>}
+                    </td>
+                    <td className="p-4 text-slate-700">
+                      {getClientName(invoice.clientId)}
+                      {invoice.projectId && (
+                        <div className="text-xs text-slate-400 mt-0.5">Project: {data.projects.find(p => p.id === invoice.projectId)?.name || 'Unknown Project'}</div>
+                      )}
+                    </td>
+                    <td className="p-4 text-slate-600 whitespace-nowrap">{invoice.issueDate}</td>
+                    <td className={`p-4 whitespace-nowrap ${isOverdue ? 'text-red-600 font-medium' : 'text-slate-600'}`}>
+                      {invoice.dueDate || '—'}
+                      {isOverdue && <span className="block text-xs">Overdue</span>}
+                    </td>
+                    <td className={`p-4 text-right font-bold text-slate-900 ${status === 'VOID' ? 'line-through' : ''}`}>
+                      {formatMoney(totals.total)}
+                    </td>
+                    <td className="p-4 text-right text-sm font-medium text-green-600">
+                      {paid > 0 ? formatMoney(paid) : <span className="text-slate-300">-</span>}
+                    </td>
+                    <td className="p-4 text-center">
+                      <span className={`inline-flex px-2.5 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[status]}`}>
+                        {STATUS_LABELS[status]}
+                      </span>
+                    </td>
+                    <td className="p-4 text-right">
+                      <div className="flex justify-end gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button onClick={() => handlePrint(invoice, paid)} className="text-slate-400 hover:text-blue-600" title="Print / Save as PDF">
+                          <Printer className="w-4 h-4" />
+                        </button>
+                        {invoice.status === 'DRAFT' && canEdit && (
+                          <>
+                            <button onClick={() => handleSend(invoice)} className="text-slate-400 hover:text-blue-600" title="Mark as sent">
+                              <Send className="w-4 h-4" />
+                            </button>
+                            <button onClick={() => handleOpenModal(invoice)} className="text-slate-400 hover:text-blue-600" title="Edit draft">
+                              <Edit2 className="w-4 h-4" />
+                            </button>
+                            <button onClick={() => handleDelete(invoice)} className="text-slate-400 hover:text-red-600" title="Delete draft">
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </>
+                        )}
+                        {invoice.status === 'SENT' && canVoid && (
+                          <button onClick={() => handleVoid(invoice)} className="text-slate-400 hover:text-red-600" title="Void invoice">
+                            <Ban className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+              {filteredRows.length === 0 && (
+                <tr>
+                  <td colSpan={8} className="p-12 text-center">
+                    <div className="flex flex-col items-center justify-center text-slate-400">
+                      <FileText className="w-12 h-12 mb-3 opacity-20" />
+                      <p>No invoices found matching your criteria</p>
+                    </div>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {isRecurringOpen && (
+        <BillingTemplatesDialog
+          data={data}
+          onAddTemplate={onAddBillingTemplate}
+          onUpdateTemplate={onUpdateBillingTemplate}
+          onDeleteTemplate={onDeleteBillingTemplate}
+          onClose={() => setIsRecurringOpen(false)}
+          user={user}
+        />
+      )}
+
+      {/* Invoice Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+            <div className="flex justify-between items-center p-6 border-b border-slate-100">
+              <h2 className="text-xl font-bold text-slate-900">
+                {formData.id ? 'Edit Draft Invoice' : 'New Invoice'}
+              </h2>
+              <button onClick={() => setIsModalOpen(false)} className="text-slate-400 hover:text-slate-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <form
+              onSubmit={e => {
+                e.preventDefault();
+                handleSave(false);
+              }}
+              className="p-6 space-y-4 overflow-y-auto"
+            >
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Client *</label>
+                  <select
+                    required
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none bg-white"
+                    value={formData.clientId || ''}
+                    onChange={e => setFormData({ ...formData, clientId: e.target.value })}
+                  >
+                    <option value="" disabled>Select a client</option>
+                    {pickableClients.map(c => (
+                      <option key={c.id} value={c.id}>{c.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Issue Date *</label>
+                  <input
+                    required
+                    type="date"
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                    value={formData.issueDate || ''}
+                    onChange={e => setFormData({ ...formData, issueDate: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Due Date</label>
+                  <input
+                    type="date"
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                    value={formData.dueDate || ''}
+                    onChange={e => setFormData({ ...formData, dueDate: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              {/* Line Items */}
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Line Items *</label>
+                <LineItemsEditor lines={formData.lines || []} onChange={lines => setFormData({ ...formData, lines })} />
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">Tax / VAT (%)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                      value={formData.taxRate ?? 0}
+                      onChange={e => setFormData({ ...formData, taxRate: Number(e.target.value) || 0 })}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">Notes</label>
+                    <textarea
+                      rows={2}
+                      placeholder="Payment instructions, terms..."
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none resize-none"
+                      value={formData.notes || ''}
+                      onChange={e => setFormData({ ...formData, notes: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="bg-slate-50 rounded-lg border border-slate-200 p-4 text-sm space-y-2 self-start">
+                  <div className="flex justify-between text-slate-600">
+                    <span>Subtotal</span>
+                    <span>{formatMoney(draftTotals.subtotal)}</span>
+                  </div>
+                  <div className="flex justify-between text-slate-600">
+                    <span>Tax ({Number(formData.taxRate) || 0}%)</span>
+                    <span>{formatMoney(draftTotals.tax)}</span>
+                  </div>
+                  <div className="flex justify-between font-bold text-slate-900 text-base border-t border-slate-200 pt-2">
+                    <span>Total</span>
+                    <span>{formatMoney(draftTotals.total)}</span>
+                  </div>
+                </div>
+              </div>
+
+              <div className="pt-4 flex justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={() => setIsModalOpen(false)}
+                  className="px-4 py-2 text-slate-700 hover:bg-slate-100 rounded-lg font-medium"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 rounded-lg font-medium shadow-sm"
+                >
+                  Save Draft
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleSave(true)}
+                  className="flex items-center gap-2 px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium shadow-sm"
+                >
+                  <Send className="w-4 h-4" />
+                  Save & Send
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {conflict && (
+        <MergeDialog
+          title="Invoice Edit Conflict"
+          mine={formData as Invoice}
+          base={mergeBase || undefined}
+          theirs={conflict}
+          fields={mergeFields}
+          onResolve={handleResolveConflict}
+          onCancel={handleDiscardConflict}
+        />
+      )}
+    </div>
+  );
+};
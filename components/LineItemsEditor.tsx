@@ -0,0 +1,90 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { InvoiceLine } from '../types';
+import { ZERO, formatMoney, parseMoneyInput, toTaka } from '../services/money';
+import { lineAmount } from '../services/finance';
+
+interface LineItemsEditorProps {
+  lines: InvoiceLine[];
+  onChange: (lines: InvoiceLine[]) => void;
+}
+
+export const newLine = (): InvoiceLine => ({ id: crypto.randomUUID(), description: '', quantity: 1, rate: ZERO });
+
+// Editable description / qty / rate table shared by the invoice and quote forms
+export const LineItemsEditor: React.FC<LineItemsEditorProps> = ({ lines, onChange }) => {
+  const updateLine = (id: string, changes: Partial<InvoiceLine>) => {
+    onChange(lines.map(l => l.id === id ? { ...l, ...changes } : l));
+  };
+
+  const removeLine = (id: string) => {
+    onChange(lines.filter(l => l.id !== id));
+  };
+
+  return (
+    <div className="border border-slate-200 rounded-lg overflow-hidden">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="bg-slate-50 text-xs uppercase tracking-wider text-slate-500">
+            <th className="p-2 text-left font-semibold">Description</th>
+            <th className="p-2 text-right font-semibold w-20">Qty</th>
+            <th className="p-2 text-right font-semibold w-32">Rate (৳)</th>
+            <th className="p-2 text-right font-semibold w-32">Amount</th>
+            <th className="p-2 w-8"></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {lines.map(line => (
+            <tr key={line.id}>
+              <td className="p-2">
+                <input
+                  type="text"
+                  placeholder="e.g. Website design"
+                  className="w-full px-2 py-1 border border-slate-300 rounded focus:ring-2 focus:ring-blue-500 outline-none"
+                  value={line.description}
+                  onChange={e => updateLine(line.id, { description: e.target.value })}
+                />
+              </td>
+              <td className="p-2">
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  className="w-full px-2 py-1 border border-slate-300 rounded text-right focus:ring-2 focus:ring-blue-500 outline-none"
+                  value={line.quantity}
+                  onChange={e => updateLine(line.id, { quantity: Number(e.target.value) || 0 })}
+                />
+              </td>
+              <td className="p-2">
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  className="w-full px-2 py-1 border border-slate-300 rounded text-right focus:ring-2 focus:ring-blue-500 outline-none"
+                  value={line.rate ? toTaka(line.rate) : ''}
+                  onChange={e => updateLine(line.id, { rate: parseMoneyInput(e.target.value) || ZERO })}
+                />
+              </td>
+              <td className="p-2 text-right font-medium text-slate-700 whitespace-nowrap">
+                {formatMoney(lineAmount(line))}
+              </td>
+              <td className="p-2 text-center">
+                <button type="button" onClick={() => removeLine(line.id)} className="text-slate-400 hover:text-red-600" title="Remove line">
+                  <X className="w-4 h-4" />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button
+        type="button"
+        onClick={() => onChange([...lines, newLine()])}
+        className="w-full flex items-center justify-center gap-1 p-2 text-sm font-medium text-blue-600 hover:bg-blue-50 border-t border-slate-100"
+      >
+        <Plus className="w-4 h-4" />
+        Add Line
+      </button>
+    </div>
+  );
+};
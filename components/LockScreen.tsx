@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { User } from '../types';
+import { Lock, Loader2, LogOut } from 'lucide-react';
+import { authService } from '../services/authService';
+
+interface LockScreenProps {
+  user: User;
+  onUnlock: () => void;
+  onLogout: () => void;
+}
+
+// Shown in place of the app after the idle timeout; the session stays signed in but hidden until the password is re-entered
+export const LockScreen: React.FC<LockScreenProps> = ({ user, onUnlock, onLogout }) => {
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsChecking(true);
+    try {
+      await authService.confirmPassword(password);
+      onUnlock();
+    } catch (err: any) {
+      setError(err.message);
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md text-center">
+        <div className="w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-4">
+          <Lock className="w-8 h-8 text-blue-600" />
+        </div>
+        <h2 className="text-3xl font-extrabold text-slate-900">Locked</h2>
+        <p className="mt-2 text-sm text-slate-600">
+          Locked after a period of inactivity. Enter the password for <span className="font-medium">{user.email}</span> to continue.
+        </p>
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="bg-white py-8 px-4 shadow-xl shadow-slate-200/50 rounded-2xl sm:px-10 border border-slate-100">
+          <form className="space-y-6" onSubmit={handleUnlock}>
+            {error && (
+              <div className="bg-red-50 text-red-600 text-sm p-3 rounded-lg border border-red-100 text-center">
+                {error}
+              </div>
+            )}
+            <div>
+              <label htmlFor="unlock-password" className="block text-sm font-medium text-slate-700">
+                Password
+              </label>
+              <input
+                id="unlock-password"
+                type="password"
+                autoComplete="current-password"
+                autoFocus
+                required
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="mt-1 appearance-none block w-full px-3 py-2 border border-slate-300 rounded-lg placeholder-slate-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isChecking}
+              className="w-full flex justify-center items-center gap-2 py-2.5 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 transition-colors disabled:opacity-70"
+            >
+              {isChecking && <Loader2 className="w-4 h-4 animate-spin" />}
+              Unlock
+            </button>
+            <button
+              type="button"
+              onClick={onLogout}
+              className="w-full flex justify-center items-center gap-2 py-2 px-4 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+            >
+              <LogOut className="w-4 h-4" />
+              Sign out instead
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
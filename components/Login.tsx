@@ -1,7 +1,9 @@
 
-import React, { useState } from 'react';
-import { User, UserRole } from '../types';
-import { Lock, Mail, ArrowRight } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { User } from '../types';
+import { Lock, Mail, ArrowRight, Loader2, User as UserIcon, Send } from 'lucide-react';
+import { authService } from '../services/authService';
+import { MIN_PASSWORD_LENGTH } from '../services/auth';
 
 interface LoginProps {
   onLogin: (user: User) => void;
@@ -10,18 +12,58 @@ interface LoginProps {
 export const Login: React.FC<LoginProps> = ({ onLogin }) => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [name, setName] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
   const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const handleLogin = (e: React.FormEvent) => {
+  // A fresh local install has no accounts yet, so the form creates the first administrator
+  const [isSetup, setIsSetup] = useState(false);
+  useEffect(() => {
+    authService.needsSetup().then(setIsSetup);
+  }, []);
+  const canSendMagicLink = authService.canSendMagicLink();
+
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setNotice('');
+
+    if (isSetup && password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
 
-    if (email.toLowerCase() === 'admin@email.com' && password === '123456') {
-      onLogin({ email, name: 'Admin User', role: UserRole.ADMIN });
-    } else if (email.toLowerCase() === 'viewer@email.com' && password === '123456') {
-      onLogin({ email, name: 'Viewer User', role: UserRole.VIEWER });
-    } else {
-      setError('Invalid email or password');
+    setIsSubmitting(true);
+    try {
+      const user = isSetup
+        ? await authService.createFirstAdmin(name, email, password)
+        : await authService.signIn(email, password);
+      onLogin(user);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleMagicLink = async () => {
+    setError('');
+    setNotice('');
+    if (!email) {
+      setError('Enter your email address first');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await authService.sendMagicLink(email);
+      setNotice(`We sent a sign-in link to ${email}. Open it on this device to continue.`);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
@@ -39,7 +81,7 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
           Euro IT Accounts
         </h2>
         <p className="mt-2 text-center text-sm text-slate-600">
-          Sign in to access your business dashboard
+          {isSetup ? 'Create the administrator account for this device' : 'Sign in to access your business dashboard'}
         </p>
       </div>
 
@@ -51,7 +93,36 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
                 {error}
               </div>
             )}
-            
+            {notice && (
+              <div className="bg-green-50 text-green-700 text-sm p-3 rounded-lg border border-green-100 text-center">
+                {notice}
+              </div>
+            )}
+
+            {isSetup && (
+              <div>
+                <label htmlFor="name" className="block text-sm font-medium text-slate-700">
+                  Full name
+                </label>
+                <div className="mt-1 relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <UserIcon className="h-5 w-5 text-slate-400" />
+                  </div>
+                  <input
+                    id="name"
+                    name="name"
+                    type="text"
+                    autoComplete="name"
+                    required
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className="appearance-none block w-full pl-10 pr-3 py-2 border border-slate-300 rounded-lg placeholder-slate-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    placeholder="Your name"
+                  />
+                </div>
+              </div>
+            )}
+
             <div>
               <label htmlFor="email" className="block text-sm font-medium text-slate-700">
                 Email address
@@ -86,8 +157,9 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
                   id="password"
                   name="password"
                   type="password"
-                  autoComplete="current-password"
+                  autoComplete={isSetup ? 'new-password' : 'current-password'}
                   required
+                  minLength={isSetup ? MIN_PASSWORD_LENGTH : undefined}
                   value={password}
                   onChange={(e) => setPassword(e.target.value)}
                   className="appearance-none block w-full pl-10 pr-3 py-2 border border-slate-300 rounded-lg placeholder-slate-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
@@ -96,17 +168,51 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
               </div>
             </div>
 
-            <div>
+            {isSetup && (
+              <div>
+                <label htmlFor="confirm-password" className="block text-sm font-medium text-slate-700">
+                  Confirm password
+                </label>
+                <div className="mt-1 relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <Lock className="h-5 w-5 text-slate-400" />
+                  </div>
+                  <input
+                    id="confirm-password"
+                    name="confirm-password"
+                    type="password"
+                    autoComplete="new-password"
+                    required
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    className="appearance-none block w-full pl-10 pr-3 py-2 border border-slate-300 rounded-lg placeholder-slate-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    placeholder="••••••••"
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-3">
               <button
                 type="submit"
-                className="w-full flex justify-center items-center gap-2 py-2 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+                disabled={isSubmitting}
+                className="w-full flex justify-center items-center gap-2 py-2 px-4 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors disabled:opacity-70"
               >
-                Sign in
-                <ArrowRight className="h-4 w-4" />
+                {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+                {isSetup ? 'Create account' : 'Sign in'}
+                {!isSubmitting && <ArrowRight className="h-4 w-4" />}
               </button>
-              <p className="mt-4 text-center text-xs text-slate-400 font-mono">
-                username: viewer@email.com &nbsp;&nbsp; Password: 123456
-              </p>
+              {canSendMagicLink && (
+                <button
+                  type="button"
+                  onClick={handleMagicLink}
+                  disabled={isSubmitting}
+                  className="w-full flex justify-center items-center gap-2 py-2 px-4 border border-slate-300 rounded-lg text-sm font-medium text-slate-700 bg-white hover:bg-slate-50 transition-colors disabled:opacity-70"
+                >
+                  <Send className="h-4 w-4" />
+                  Email me a sign-in link
+                </button>
+              )}
             </div>
           </form>
         </div>
@@ -0,0 +1,145 @@
+
+import React, { useState } from 'react';
+import { GitMerge, X } from 'lucide-react';
+
+export interface MergeField<T> {
+  key: keyof T & string;
+  label: string;
+  format?: (value: any) => string;
+}
+
+interface MergeDialogProps<T> {
+  title: string;
+  base?: T; // The row as it was when editing started; without it every difference is asked about
+  mine: T;
+  theirs: T;
+  fields: MergeField<T>[];
+  note?: string; // Fields left out of `fields` always keep the stored value; say which when the user may have edited them
+  onResolve: (merged: T) => void;
+  onCancel: () => void;
+}
+
+const display = (value: any, format?: (value: any) => string) => {
+  if (value === undefined || value === null || value === '') return '—';
+  return format ? format(value) : String(value);
+};
+
+// Compared by value so list fields (e.g. a client's assigned staff) only differ when their contents do
+const same = (a: any, b: any) => JSON.stringify(a ?? '') === JSON.stringify(b ?? '');
+
+// Three-way merge: a field only one side changed since `base` takes that side's value,
+// and only fields both sides changed, to different values, are asked about.
+export const MergeDialog = <T,>({ title, base, mine, theirs, fields, note, onResolve, onCancel }: MergeDialogProps<T>) => {
+  const changed = fields.filter(f => !same(mine[f.key], theirs[f.key]));
+  const onlyMine = base ? changed.filter(f => same(theirs[f.key], base[f.key])) : [];
+  const onlyTheirs = base ? changed.filter(f => same(mine[f.key], base[f.key])) : [];
+  const conflicting = changed.filter(f => !onlyMine.includes(f) && !onlyTheirs.includes(f));
+  const [choices, setChoices] = useState<Record<string, 'mine' | 'theirs'>>(
+    () => Object.fromEntries(conflicting.map(f => [f.key, 'mine']))
+  );
+
+  const handleApply = () => {
+    // Start from the stored row so its version is the one we update against
+    const merged = { ...theirs };
+    onlyMine.forEach(f => { merged[f.key] = mine[f.key]; });
+    conflicting.forEach(f => {
+      if (choices[f.key] === 'mine') merged[f.key] = mine[f.key];
+    });
+    onResolve(merged);
+  };
+
+  const combined = [
+    ...onlyMine.map(f => ({ field: f, side: 'Yours', value: mine[f.key] })),
+    ...onlyTheirs.map(f => ({ field: f, side: 'Theirs', value: theirs[f.key] }))
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="flex justify-between items-center p-6 border-b border-slate-100">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+              <GitMerge className="w-5 h-5 text-amber-600" />
+              {title}
+            </h2>
+            <p className="text-sm text-slate-500">Someone else saved changes while you were editing. Pick which value to keep where you both changed a field.</p>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 max-h-[60vh] overflow-y-auto">
+          {note && <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 mb-4">{note}</p>}
+          {conflicting.length === 0 ? (
+            <p className="text-sm text-slate-500">
+              {combined.length === 0 ? 'Both versions are identical. Saving will keep them as they are.' : 'None of your changes clash with theirs.'}
+            </p>
+          ) : (
+            <table className="w-full text-left text-sm border-collapse">
+              <thead>
+                <tr className="border-b border-slate-200 text-xs uppercase tracking-wider text-slate-500">
+                  <th className="p-2 font-semibold">Field</th>
+                  <th className="p-2 font-semibold">Your Value</th>
+                  <th className="p-2 font-semibold">Their Value</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {conflicting.map(f => (
+                  <tr key={f.key}>
+                    <td className="p-2 font-medium text-slate-700">{f.label}</td>
+                    {(['mine', 'theirs'] as const).map(side => (
+                      <td key={side} className="p-2">
+                        <label className={`flex items-center gap-2 px-3 py-2 rounded-lg border cursor-pointer transition-colors ${
+                          choices[f.key] === side ? 'border-blue-500 bg-blue-50 text-blue-900' : 'border-slate-200 text-slate-600 hover:bg-slate-50'
+                        }`}>
+                          <input
+                            type="radio"
+                            name={`merge-${f.key}`}
+                            checked={choices[f.key] === side}
+                            onChange={() => setChoices({ ...choices, [f.key]: side })}
+                          />
+                          <span className="break-all">{display((side === 'mine' ? mine : theirs)[f.key], f.format)}</span>
+                        </label>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {combined.length > 0 && (
+            <div className="mt-4">
+              <p className="text-xs uppercase tracking-wider text-slate-500 font-semibold mb-2">Combined automatically</p>
+              <ul className="text-sm divide-y divide-slate-100 border border-slate-100 rounded-lg">
+                {combined.map(({ field, side, value }) => (
+                  <li key={field.key} className="px-3 py-2 flex justify-between gap-4">
+                    <span className="font-medium text-slate-700">{field.label}</span>
+                    <span className="text-slate-600 break-all text-right">{display(value, field.format)} <span className="text-xs text-slate-400">({side})</span></span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 pt-0 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-slate-700 hover:bg-slate-100 rounded-lg font-medium"
+          >
+            Discard My Changes
+          </button>
+          <button
+            type="button"
+            onClick={handleApply}
+            className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium shadow-sm"
+          >
+            Save Merged
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+
+import React, { useState } from 'react';
+import { ShieldAlert, X, Loader2 } from 'lucide-react';
+import { authService } from '../services/authService';
+
+interface PasswordPromptProps {
+  reason: string;
+  onConfirmed: () => void;
+  onCancel: () => void;
+}
+
+// Asks the signed-in user for their password again before a destructive action
+export const PasswordPrompt: React.FC<PasswordPromptProps> = ({ reason, onConfirmed, onCancel }) => {
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsChecking(true);
+    try {
+      await authService.confirmPassword(password);
+      onConfirmed();
+    } catch (err: any) {
+      setError(err.message);
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-sm overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="flex justify-between items-center p-6 border-b border-slate-100">
+          <h2 className="text-xl font-bold text-slate-900 flex items-center gap-2">
+            <ShieldAlert className="w-5 h-5 text-red-600" />
+            Confirm It's You
+          </h2>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <p className="text-sm text-slate-600">{reason}</p>
+          {error && (
+            <div className="bg-red-50 text-red-600 text-sm p-3 rounded-lg border border-red-100">{error}</div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Your Password</label>
+            <input
+              required
+              autoFocus
+              type="password"
+              autoComplete="current-password"
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+            />
+          </div>
+          <div className="pt-2 flex justify-end gap-3">
+            <button type="button" onClick={onCancel} className="px-4 py-2 text-slate-700 hover:bg-slate-100 rounded-lg font-medium">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isChecking}
+              className="flex items-center gap-2 px-6 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg font-medium shadow-sm disabled:opacity-70"
+            >
+              {isChecking && <Loader2 className="w-4 h-4 animate-spin" />}
+              Confirm
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -1,35 +1,51 @@
 
 import React, { useState } from 'react';
-import { Payment, AppData, UserRole } from '../types';
-import { Search, X, Calendar, Plus, Lock, Edit2, Trash2, CreditCard, FileText, ArrowRightLeft } from 'lucide-react';
+import { Payment, PaymentAllocation, AppData, User } from '../types';
+import { Search, X, Calendar, Plus, Lock, Edit2, Trash2, CreditCard, FileText, ArrowRightLeft, Printer } from 'lucide-react';
+import { ConflictError } from '../services/backends';
+import { MergeDialog, MergeField } from './MergeDialog';
+import { Money, ZERO, formatMoney, negateMoney, parseMoneyInput, subtractMoney, sumMoney, takaInputValue, toTaka } from '../services/money';
+import { allocateOldestFirst, clientBalance, openInvoices } from '../services/finance';
+import { printDocument, receiptDocument } from '../services/documents';
+import { can } from '../services/permissions';
 
 interface PaymentsProps {
   data: AppData;
   onAddPayment: (payment: Payment) => void;
-  onUpdatePayment: (payment: Payment) => void;
+  onUpdatePayment: (payment: Payment) => Promise<void>;
   onDeletePayment: (id: string) => void;
-  userRole: UserRole;
+  user: User;
 }
 
-export const Payments: React.FC<PaymentsProps> = ({ data, onAddPayment, onUpdatePayment, onDeletePayment, userRole }) => {
+export const Payments: React.FC<PaymentsProps> = ({ data, onAddPayment, onUpdatePayment, onDeletePayment, user }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [formData, setFormData] = useState<Partial<Payment>>({
     date: new Date().toISOString().split('T')[0],
-    amount: 0,
+    amount: ZERO,
     method: 'Cash',
     details: '',
     type: 'RECEIVED'
   });
+  const [conflict, setConflict] = useState<Payment | null>(null);
+  // The payment as the form loaded it, so the merge can tell whose change each difference is
+  const [mergeBase, setMergeBase] = useState<Payment | null>(null);
 
   // Filter Active Clients for the Dropdown
-  const activeClients = data.clients.filter(c => c.isActive !== false);
+  const activeClients = data.clients.filter(c => c.isActive !== false && !c.archivedAt);
 
   const getClientName = (clientId: string) => {
     const client = data.clients.find(c => c.id === clientId);
     return client ? client.name : 'Unknown Client';
   };
 
+  const getProjectName = (projectId?: string | null) => data.projects.find(p => p.id === projectId)?.name;
+
+  const getInvoiceNumber = (invoiceId: string) => data.invoices.find(inv => inv.id === invoiceId)?.number || 'Unknown Invoice';
+
+  const formatAllocations = (allocations: PaymentAllocation[] = []) =>
+    allocations.length ? allocations.map(a => `${getInvoiceNumber(a.invoiceId)} ${formatMoney(a.amount)}`).join(', ') : 'None';
+
   const filteredPayments = data.payments.filter(payment => {
     const clientName = getClientName(payment.clientId).toLowerCase();
     const desc = (payment.description || '').toLowerCase();
@@ -41,10 +57,11 @@ export const Payments: React.FC<PaymentsProps> = ({ data, onAddPayment, onUpdate
   const handleOpenModal = (payment?: Payment) => {
     if (payment) {
       setFormData(payment);
+      setMergeBase(payment);
     } else {
       setFormData({
         date: new Date().toISOString().split('T')[0],
-        amount: 0,
+        amount: ZERO,
         clientId: activeClients.length > 0 ? activeClients[0].id : '',
         method: 'Cash',
         details: '',
@@ -54,30 +71,112 @@ export const Payments: React.FC<PaymentsProps> = ({ data, onAddPayment, onUpdate
     setIsModalOpen(true);
   };
 
-  const handleSave = (e: React.FormEvent) => {
+  const mergeFields: MergeField<Payment>[] = [
+    { key: 'clientId', label: 'Client', format: getClientName },
+    { key: 'type', label: 'Type', format: v => v === 'REFUND' ? 'Refund' : 'Received' },
+    { key: 'amount', label: 'Amount', format: v => formatMoney(v) },
+    { key: 'date', label: 'Date' },
+    { key: 'method', label: 'Method' },
+    { key: 'details', label: 'Payment Details' },
+    { key: 'description', label: 'Description' },
+    { key: 'projectId', label: 'Project', format: v => getProjectName(v) || 'Unknown Project' },
+    { key: 'allocations', label: 'Allocated To', format: formatAllocations }
+  ];
+
+  // What the payment in the form can be allocated to: the client's open invoices, counting everyone's allocations but its own
+  const isReceived = formData.type !== 'REFUND';
+  const formClient = data.clients.find(c => c.id === formData.clientId);
+  // Open projects, plus the one already chosen even if it has since been closed
+  const formProjects = data.projects.filter(p =>
+    p.clientId === formData.clientId && (p.status === 'ACTIVE' || p.status === 'ON_HOLD' || p.id === formData.projectId)
+  );
+  const otherPayments = data.payments.filter(p => p.id !== formData.id);
+  const allocatable = formClient && isReceived ? openInvoices(formClient.id, data.invoices, otherPayments) : [];
+  const openingDue = formClient ? clientBalance(formClient, otherPayments, data.invoices).openingDue : ZERO;
+  const allocations = isReceived ? formData.allocations || [] : [];
+  const allocatedTotal = sumMoney(allocations, a => a.amount);
+  const heldAsCredit = subtractMoney(formData.amount || ZERO, allocatedTotal);
+
+  const allocationFor = (invoiceId: string) => allocations.find(a => a.invoiceId === invoiceId)?.amount;
+
+  const setAllocation = (invoiceId: string, amount?: Money) => {
+    const others = allocations.filter(a => a.invoiceId !== invoiceId);
+    setFormData({ ...formData, allocations: amount ? [...others, { invoiceId, amount }] : others });
+  };
+
+  const handleAutoAllocate = () => {
+    setFormData({
+      ...formData,
+      allocations: allocateOldestFirst(subtractMoney(formData.amount || ZERO, openingDue), allocatable)
+    });
+  };
+
+  // Returns false when the save hit a concurrent edit and the merge dialog took over
+  const savePaymentUpdate = async (payment: Payment) => {
+    try {
+      await onUpdatePayment(payment);
+      return true;
+    } catch (error) {
+      if (!(error instanceof ConflictError)) throw error;
+      setConflict(error.current as Payment);
+      return false;
+    }
+  };
+
+  const handleResolveConflict = async (merged: Payment) => {
+    // The merged row is built on the stored one, which becomes the base if this save conflicts too
+    setMergeBase(conflict);
+    setConflict(null);
+    setFormData(merged);
+    if (await savePaymentUpdate(merged)) setIsModalOpen(false);
+  };
+
+  const handleDiscardConflict = () => {
+    setConflict(null);
+    setIsModalOpen(false);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.clientId || !formData.amount || !formData.date) return;
+    if (allocatedTotal > (formData.amount || ZERO)) {
+      alert('The amounts allocated to invoices add up to more than the payment.');
+      return;
+    }
+    const overAllocated = allocatable.find(({ invoice, outstanding }) => (allocationFor(invoice.id) || ZERO) > outstanding);
+    if (overAllocated) {
+      alert(`Invoice ${overAllocated.invoice.number} only has ${formatMoney(overAllocated.outstanding)} left to pay.`);
+      return;
+    }
 
     if (formData.id) {
       // Edit
-      onUpdatePayment(formData as Payment);
+      if (!(await savePaymentUpdate({ ...formData, allocations } as Payment))) return;
     } else {
       // Add
       onAddPayment({
         id: crypto.randomUUID(),
         clientId: formData.clientId,
-        amount: Number(formData.amount),
+        amount: formData.amount!,
         date: formData.date,
         description: formData.description || 'Payment',
         method: formData.method || 'Cash',
         details: formData.details || '',
-        type: formData.type || 'RECEIVED'
+        type: formData.type || 'RECEIVED',
+        projectId: formData.projectId || null,
+        allocations
       });
     }
     setIsModalOpen(false);
   };
 
-  const isAdmin = userRole === UserRole.ADMIN;
+  const handlePrintReceipt = (payment: Payment) => {
+    printDocument(receiptDocument(payment, data.clients.find(c => c.id === payment.clientId), data.invoices));
+  };
+
+  const canCreate = can(user, 'payments.create');
+  const canEdit = can(user, 'payments.edit');
+  const canDelete = can(user, 'payments.delete');
 
   return (
     <div className="p-6 max-w-7xl mx-auto min-h-screen">
@@ -86,7 +185,7 @@ export const Payments: React.FC<PaymentsProps> = ({ data, onAddPayment, onUpdate
           <h1 className="text-3xl font-bold text-slate-900">Payments</h1>
           <p className="text-slate-500 mt-1">Track and manage client payments</p>
         </div>
-        {isAdmin && (
+        {canCreate && (
           <button 
             onClick={() => handleOpenModal()}
             className="flex items-center gap-2 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg font-medium transition-colors shadow-sm"
@@ -150,27 +249,48 @@ export const Payments: React.FC<PaymentsProps> = ({ data, onAddPayment, onUpdate
                       <div className="text-slate-900 font-medium mb-0.5">{payment.details}</div>
                     )}
                     <div className="text-slate-500">{payment.description}</div>
+                    {getProjectName(payment.projectId) && (
+                      <div className="text-xs text-slate-400 mt-0.5">Project: {getProjectName(payment.projectId)}</div>
+                    )}
+                    {!!payment.allocations?.length && (
+                      <div className="text-xs text-blue-600 mt-0.5">
+                        For {payment.allocations.map(a => getInvoiceNumber(a.invoiceId)).join(', ')}
+                      </div>
+                    )}
                   </td>
                   <td className={`p-4 text-right font-bold ${payment.type === 'REFUND' ? 'text-red-600' : 'text-green-600'}`}>
-                    {payment.type === 'REFUND' && '-'}৳{payment.amount.toFixed(2)}
+                    {payment.type === 'REFUND' && '-'}{formatMoney(payment.amount)}
                   </td>
                   <td className="p-4 text-right">
-                    {isAdmin ? (
+                    {canEdit || canDelete || payment.type !== 'REFUND' ? (
                       <div className="flex justify-end gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                         <button 
-                          onClick={() => handleOpenModal(payment)}
-                          className="text-slate-400 hover:text-blue-600"
-                          title="Edit"
-                        >
-                          <Edit2 className="w-4 h-4" />
-                        </button>
-                        <button 
-                          onClick={() => onDeletePayment(payment.id)}
-                          className="text-slate-400 hover:text-red-600"
-                          title="Delete"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </button>
+                        {payment.type !== 'REFUND' && (
+                          <button
+                            onClick={() => handlePrintReceipt(payment)}
+                            className="text-slate-400 hover:text-green-600"
+                            title="Money Receipt"
+                          >
+                            <Printer className="w-4 h-4" />
+                          </button>
+                        )}
+                        {canEdit && (
+                          <button 
+                            onClick={() => handleOpenModal(payment)}
+                            className="text-slate-400 hover:text-blue-600"
+                            title="Edit"
+                          >
+                            <Edit2 className="w-4 h-4" />
+                          </button>
+                        )}
+                        {canDelete && (
+                          <button 
+                            onClick={() => onDeletePayment(payment.id)}
+                            className="text-slate-400 hover:text-red-600"
+                            title="Delete"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
                       </div>
                     ) : (
                       <Lock className="w-4 h-4 text-slate-200 opacity-0 group-hover:opacity-100 ml-auto" />
@@ -196,7 +316,7 @@ export const Payments: React.FC<PaymentsProps> = ({ data, onAddPayment, onUpdate
       {/* Payment Modal */}
       {isModalOpen && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
-          <div className="bg-white rounded-2xl shadow-xl w-full max-w-md overflow-hidden animate-in fade-in zoom-in duration-200">
+          <div className="bg-white rounded-2xl shadow-xl w-full max-w-md max-h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
             <div className="flex justify-between items-center p-6 border-b border-slate-100">
               <h2 className="text-xl font-bold text-slate-900">
                 {formData.id ? 'Edit Payment' : 'Record New Payment'}
@@ -206,14 +326,14 @@ export const Payments: React.FC<PaymentsProps> = ({ data, onAddPayment, onUpdate
               </button>
             </div>
 
-            <form onSubmit={handleSave} className="p-6 space-y-4">
+            <form onSubmit={handleSave} className="p-6 space-y-4 overflow-y-auto">
               <div>
                 <label className="block text-sm font-medium text-slate-700 mb-1">Client *</label>
                 <select
                   required
                   className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 outline-none"
                   value={formData.clientId || ''}
-                  onChange={e => setFormData({...formData, clientId: e.target.value})}
+                  onChange={e => setFormData({...formData, clientId: e.target.value, projectId: null, allocations: []})}
                   disabled={activeClients.length === 0}
                 >
                   <option value="" disabled>Select a Client</option>
@@ -229,6 +349,22 @@ export const Payments: React.FC<PaymentsProps> = ({ data, onAddPayment, onUpdate
                    <p className="text-xs text-red-500 mt-1">Add active clients before recording payments.</p>
                 )}
               </div>
+
+              {formProjects.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Project</label>
+                  <select
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-green-500 outline-none bg-white"
+                    value={formData.projectId || ''}
+                    onChange={e => setFormData({...formData, projectId: e.target.value || null})}
+                  >
+                    <option value="">No specific project</option>
+                    {formProjects.map(project => (
+                      <option key={project.id} value={project.id}>{project.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
               
               {/* Type Toggle */}
               <div className="flex bg-slate-100 p-1 rounded-lg">
@@ -272,12 +408,60 @@ export const Payments: React.FC<PaymentsProps> = ({ data, onAddPayment, onUpdate
                         ? 'border-red-200 text-red-600 focus:ring-red-500' 
                         : 'border-slate-300 text-slate-900 focus:ring-green-500'
                     }`}
-                    value={formData.amount || ''}
-                    onChange={e => setFormData({...formData, amount: parseFloat(e.target.value)})}
+                    value={formData.amount ? toTaka(formData.amount) : ''}
+                    onChange={e => setFormData({...formData, amount: parseMoneyInput(e.target.value)})}
                   />
                 </div>
               </div>
 
+              {isReceived && formClient && (
+                <div className="border border-slate-200 rounded-lg">
+                  <div className="flex justify-between items-center px-3 py-2 border-b border-slate-100">
+                    <span className="text-sm font-medium text-slate-700">Allocate to Invoices</span>
+                    {allocatable.length > 0 && (
+                      <button type="button" onClick={handleAutoAllocate} className="text-xs font-medium text-green-600 hover:text-green-700">
+                        Oldest first
+                      </button>
+                    )}
+                  </div>
+                  {allocatable.length === 0 ? (
+                    <p className="px-3 py-2 text-xs text-slate-400">No open invoices for this client.</p>
+                  ) : (
+                    <div className="max-h-40 overflow-y-auto divide-y divide-slate-100">
+                      {allocatable.map(({ invoice, outstanding }) => (
+                        <div key={invoice.id} className="flex items-center gap-3 px-3 py-2">
+                          <div className="flex-1 min-w-0">
+                            <div className="text-sm font-medium text-slate-900">{invoice.number}</div>
+                            <div className="text-xs text-slate-500">
+                              {formatMoney(outstanding)} open{invoice.dueDate && ` · due ${invoice.dueDate}`}
+                            </div>
+                          </div>
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            placeholder="0"
+                            className="w-28 px-2 py-1 border border-slate-300 rounded text-right text-sm focus:ring-2 focus:ring-green-500 outline-none"
+                            value={takaInputValue(allocationFor(invoice.id))}
+                            onChange={e => setAllocation(invoice.id, parseMoneyInput(e.target.value))}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex justify-between px-3 py-2 border-t border-slate-100 bg-slate-50 text-xs">
+                    <span className="text-slate-500">Allocated {formatMoney(allocatedTotal)}</span>
+                    <span className={heldAsCredit < 0 ? 'text-red-600 font-medium' : 'text-slate-500'}>
+                      {heldAsCredit < 0
+                        ? `Over by ${formatMoney(negateMoney(heldAsCredit))}`
+                        : openingDue > 0
+                          ? `${formatMoney(heldAsCredit)} towards the opening balance or credit`
+                          : `${formatMoney(heldAsCredit)} held as credit`}
+                    </span>
+                  </div>
+                </div>
+              )}
+
               <div className="grid grid-cols-2 gap-4">
                 <div>
                    <label className="block text-sm font-medium text-slate-700 mb-1">Method</label>
@@ -361,6 +545,18 @@ export const Payments: React.FC<PaymentsProps> = ({ data, onAddPayment, onUpdate
           </div>
         </div>
       )}
+
+      {conflict && (
+        <MergeDialog
+          title="Payment Edit Conflict"
+          mine={formData as Payment}
+          base={mergeBase || undefined}
+          theirs={conflict}
+          fields={mergeFields}
+          onResolve={handleResolveConflict}
+          onCancel={handleDiscardConflict}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,404 @@
+import React, { useState } from 'react';
+import { AppData, Client, Milestone, Project, ProjectStatus, User } from '../types';
+import { Briefcase, CheckCircle, Edit2, FileText, Plus, Trash2, X } from 'lucide-react';
+import { ConflictError } from '../services/backends';
+import { MergeDialog, MergeField } from './MergeDialog';
+import { ZERO, formatMoney, parseMoneyInput, sumMoney, takaInputValue, toTaka } from '../services/money';
+import { MilestoneState, milestoneState, projectBalance } from '../services/finance';
+import { can } from '../services/permissions';
+
+interface ProjectsDialogProps {
+  client: Client;
+  data: AppData;
+  onAddProject: (project: Project) => void;
+  onUpdateProject: (project: Project) => Promise<void>;
+  onDeleteProject: (id: string) => void;
+  onCompleteMilestone: (projectId: string, milestoneId: string) => void;
+  onClose: () => void;
+  user: User;
+}
+
+export const PROJECT_STATUS_LABELS: Record<ProjectStatus, string> = {
+  ACTIVE: 'Active',
+  ON_HOLD: 'On Hold',
+  COMPLETED: 'Completed',
+  CANCELLED: 'Cancelled'
+};
+
+export const PROJECT_STATUS_STYLES: Record<ProjectStatus, string> = {
+  ACTIVE: 'bg-green-50 text-green-700',
+  ON_HOLD: 'bg-amber-50 text-amber-700',
+  COMPLETED: 'bg-blue-50 text-blue-700',
+  CANCELLED: 'bg-slate-100 text-slate-500'
+};
+
+const MILESTONE_STATE_LABELS: Record<MilestoneState, string> = {
+  PENDING: 'Pending',
+  OVERDUE: 'Overdue',
+  TO_INVOICE: 'To Invoice',
+  INVOICED: 'Invoiced'
+};
+
+const MILESTONE_STATE_STYLES: Record<MilestoneState, string> = {
+  PENDING: 'text-slate-500',
+  OVERDUE: 'text-red-600',
+  TO_INVOICE: 'text-amber-600',
+  INVOICED: 'text-green-600'
+};
+
+const newMilestone = (): Milestone => ({ id: crypto.randomUUID(), name: '', amount: ZERO, dueDate: '' });
+
+// Milestones aren't merged: another device may have completed one and raised its invoice, and taking
+// an older copy would reopen it to be invoiced again. A conflicting save keeps the stored schedule.
+const PROJECT_MERGE_FIELDS: MergeField<Project>[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'contractValue', label: 'Contract Value', format: v => formatMoney(v) },
+  { key: 'startDate', label: 'Start Date' },
+  { key: 'endDate', label: 'End Date' },
+  { key: 'status', label: 'Status', format: (v: ProjectStatus) => PROJECT_STATUS_LABELS[v] }
+];
+
+export const ProjectsDialog: React.FC<ProjectsDialogProps> = ({ client, data, onAddProject, onUpdateProject, onDeleteProject, onCompleteMilestone, onClose, user }) => {
+  const [formData, setFormData] = useState<Partial<Project> | null>(null);
+  const [conflict, setConflict] = useState<Project | null>(null);
+  // The project as the form loaded it, so the merge can tell whose change each difference is
+  const [mergeBase, setMergeBase] = useState<Project | null>(null);
+
+  const projects = data.projects
+    .filter(p => p.clientId === client.id)
+    .sort((a, b) => (b.startDate || '').localeCompare(a.startDate || '') || b.createdAt - a.createdAt);
+
+  // Returns false when the save hit a concurrent edit and the merge dialog took over
+  const saveProjectUpdate = async (project: Project) => {
+    try {
+      await onUpdateProject(project);
+      return true;
+    } catch (error) {
+      if (!(error instanceof ConflictError)) throw error;
+      setConflict(error.current as Project);
+      return false;
+    }
+  };
+
+  const openEdit = (project: Project) => {
+    setFormData(project);
+    setMergeBase(project);
+  };
+
+  const handleResolveConflict = async (merged: Project) => {
+    // The merged row is built on the stored one, which becomes the base if this save conflicts too
+    setMergeBase(conflict);
+    setConflict(null);
+    setFormData(merged);
+    if (await saveProjectUpdate(merged)) setFormData(null);
+  };
+
+  const updateMilestone = (id: string, changes: Partial<Milestone>) => {
+    setFormData({ ...formData, milestones: (formData?.milestones || []).map(m => m.id === id ? { ...m, ...changes } : m) });
+  };
+
+  const removeMilestone = (id: string) => {
+    setFormData({ ...formData, milestones: (formData?.milestones || []).filter(m => m.id !== id) });
+  };
+
+  const handleComplete = (project: Project, milestone: Milestone) => {
+    const prompt = milestone.completedAt
+      ? `Raise a new draft invoice for "${milestone.name}"? Its previous invoice was deleted or voided.`
+      : `Mark "${milestone.name}" as complete and raise a draft invoice for ${formatMoney(milestone.amount)}?`;
+    if (window.confirm(prompt)) {
+      onCompleteMilestone(project.id, milestone.id);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData?.name) return;
+    if (formData.startDate && formData.endDate && formData.endDate < formData.startDate) {
+      alert('The end date cannot be before the start date.');
+      return;
+    }
+    const milestones = (formData.milestones || []).filter(m => m.name.trim());
+    if (milestones.some(m => !(m.amount > 0))) {
+      alert('Every milestone needs an amount.');
+      return;
+    }
+
+    if (formData.id) {
+      if (!(await saveProjectUpdate({ ...formData, milestones } as Project))) return;
+    } else {
+      onAddProject({
+        id: crypto.randomUUID(),
+        clientId: client.id,
+        name: formData.name,
+        contractValue: formData.contractValue || ZERO,
+        startDate: formData.startDate || '',
+        endDate: formData.endDate || '',
+        status: formData.status || 'ACTIVE',
+        milestones,
+        createdAt: Date.now()
+      });
+    }
+    setFormData(null);
+  };
+
+  const handleDelete = (project: Project) => {
+    if (window.confirm(`Delete the project "${project.name}"?`)) {
+      onDeleteProject(project.id);
+    }
+  };
+
+  const canCreate = can(user, 'projects.create');
+  const canEdit = can(user, 'projects.edit');
+  const canDelete = can(user, 'projects.delete');
+  const canComplete = canEdit && can(user, 'invoices.create');
+  const today = new Date().toISOString().split('T')[0];
+  const scheduledTotal = sumMoney(formData?.milestones || [], m => m.amount);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="flex justify-between items-center p-6 border-b border-slate-100">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900">Projects</h2>
+            <p className="text-sm text-slate-500">For {client.name}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {projects.length === 0 && !formData && (
+            <div className="flex flex-col items-center justify-center text-slate-400 py-6">
+              <Briefcase className="w-10 h-10 mb-2 opacity-30" />
+              <p className="text-sm">No projects yet</p>
+            </div>
+          )}
+
+          {projects.length > 0 && (
+            <div className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+              {projects.map(project => {
+                const balance = projectBalance(project, data.payments, data.expenses);
+                const milestones = project.milestones || [];
+                return (
+                  <div key={project.id} className="px-4 py-3 group">
+                    <div className="flex items-center gap-4">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-slate-900 truncate">{project.name}</span>
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${PROJECT_STATUS_STYLES[project.status]}`}>
+                            {PROJECT_STATUS_LABELS[project.status]}
+                          </span>
+                        </div>
+                        <div className="text-xs text-slate-500 mt-0.5">
+                          {project.startDate || 'No start date'}{project.endDate && ` – ${project.endDate}`}
+                          {balance.spent > 0 && ` · Spent ${formatMoney(balance.spent)}`}
+                        </div>
+                      </div>
+                      <div className="text-right text-sm">
+                        <div className="text-slate-500">{formatMoney(balance.value)}</div>
+                        <div className="text-xs text-green-600">Received {formatMoney(balance.received)}</div>
+                        {balance.due > 0 && <div className="text-xs font-medium text-orange-600">Due {formatMoney(balance.due)}</div>}
+                      </div>
+                      <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                        {canEdit && (
+                          <button onClick={() => openEdit(project)} className="text-slate-400 hover:text-blue-600" title="Edit">
+                            <Edit2 className="w-4 h-4" />
+                          </button>
+                        )}
+                        {canDelete && (
+                          <button onClick={() => handleDelete(project)} className="text-slate-400 hover:text-red-600" title="Delete">
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    {milestones.length > 0 && (
+                      <ul className="mt-2 space-y-1 border-l-2 border-slate-100 pl-3">
+                        {milestones.map(milestone => {
+                          const state = milestoneState(milestone, data.invoices, today);
+                          return (
+                            <li key={milestone.id} className="flex items-center gap-3 text-xs">
+                              <span className="flex-1 min-w-0 truncate text-slate-700">{milestone.name}</span>
+                              {milestone.dueDate && <span className="text-slate-400">{milestone.dueDate}</span>}
+                              <span className={`font-medium ${MILESTONE_STATE_STYLES[state]}`}>{MILESTONE_STATE_LABELS[state]}</span>
+                              <span className="w-24 text-right text-slate-600">{formatMoney(milestone.amount)}</span>
+                              {canComplete && state !== 'INVOICED' ? (
+                                <button
+                                  onClick={() => handleComplete(project, milestone)}
+                                  className="flex items-center gap-1 text-blue-600 hover:text-blue-700 font-medium"
+                                  title={milestone.completedAt ? 'Create invoice' : 'Complete & invoice'}
+                                >
+                                  {milestone.completedAt ? <FileText className="w-3.5 h-3.5" /> : <CheckCircle className="w-3.5 h-3.5" />}
+                                  {milestone.completedAt ? 'Invoice' : 'Complete'}
+                                </button>
+                              ) : <span className="w-16" />}
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {formData ? (
+            <form onSubmit={handleSave} className="border border-slate-200 rounded-lg p-4 space-y-4 bg-slate-50">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="sm:col-span-2">
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Project Name *</label>
+                  <input
+                    required
+                    type="text"
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    value={formData.name || ''}
+                    onChange={e => setFormData({ ...formData, name: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Contract Value (৳)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    value={takaInputValue(formData.contractValue)}
+                    onChange={e => setFormData({ ...formData, contractValue: parseMoneyInput(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Status</label>
+                  <select
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+                    value={formData.status || 'ACTIVE'}
+                    onChange={e => setFormData({ ...formData, status: e.target.value as ProjectStatus })}
+                  >
+                    {(Object.keys(PROJECT_STATUS_LABELS) as ProjectStatus[]).map(status => (
+                      <option key={status} value={status}>{PROJECT_STATUS_LABELS[status]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Start Date</label>
+                  <input
+                    type="date"
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    value={formData.startDate || ''}
+                    onChange={e => setFormData({ ...formData, startDate: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">End Date</label>
+                  <input
+                    type="date"
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                    value={formData.endDate || ''}
+                    onChange={e => setFormData({ ...formData, endDate: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="text-sm font-medium text-slate-700">Milestones</label>
+                  <button
+                    type="button"
+                    onClick={() => setFormData({ ...formData, milestones: [...(formData.milestones || []), newMilestone()] })}
+                    className="flex items-center gap-1 text-xs font-medium text-blue-600 hover:text-blue-700"
+                  >
+                    <Plus className="w-3.5 h-3.5" />
+                    Add Milestone
+                  </button>
+                </div>
+                {(formData.milestones || []).length === 0 ? (
+                  <p className="text-xs text-slate-400">No billing schedule. Add milestones to invoice this project in stages.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {(formData.milestones || []).map(milestone => (
+                      <div key={milestone.id} className="flex gap-2 items-center">
+                        <input
+                          type="text"
+                          placeholder="Milestone"
+                          disabled={!!milestone.completedAt}
+                          className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none disabled:bg-slate-100"
+                          value={milestone.name}
+                          onChange={e => updateMilestone(milestone.id, { name: e.target.value })}
+                        />
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          placeholder="Amount"
+                          disabled={!!milestone.completedAt}
+                          className="w-28 px-2 py-1.5 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none disabled:bg-slate-100"
+                          value={milestone.amount ? toTaka(milestone.amount) : ''}
+                          onChange={e => updateMilestone(milestone.id, { amount: parseMoneyInput(e.target.value) ?? ZERO })}
+                        />
+                        <input
+                          type="date"
+                          disabled={!!milestone.completedAt}
+                          className="w-36 px-2 py-1.5 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none disabled:bg-slate-100"
+                          value={milestone.dueDate || ''}
+                          onChange={e => updateMilestone(milestone.id, { dueDate: e.target.value })}
+                        />
+                        {milestone.completedAt ? (
+                          <span className="w-4" title="Completed milestones can't be changed">
+                            <CheckCircle className="w-4 h-4 text-green-600" />
+                          </span>
+                        ) : (
+                          <button type="button" onClick={() => removeMilestone(milestone.id)} className="w-4 text-slate-400 hover:text-red-600" title="Remove">
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                    <div className={`text-xs text-right ${scheduledTotal > (formData.contractValue || ZERO) ? 'text-red-600' : 'text-slate-500'}`}>
+                      Scheduled {formatMoney(scheduledTotal)} of {formatMoney(formData.contractValue || ZERO)}
+                    </div>
+                  </div>
+                )}
+              </div>
+              <div className="flex justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={() => setFormData(null)}
+                  className="px-4 py-2 text-slate-700 hover:bg-slate-100 rounded-lg font-medium"
+                >
+                  Cancel
+                </button>
+                <button type="submit" className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium shadow-sm">
+                  {formData.id ? 'Save Project' : 'Add Project'}
+                </button>
+              </div>
+            </form>
+          ) : canCreate && (
+            <button
+              onClick={() => setFormData({ status: 'ACTIVE', startDate: new Date().toISOString().split('T')[0] })}
+              className="flex items-center gap-2 text-sm font-medium text-blue-600 hover:text-blue-700"
+            >
+              <Plus className="w-4 h-4" />
+              Add Project
+            </button>
+          )}
+        </div>
+      </div>
+
+      {conflict && formData && (
+        <MergeDialog
+          title="Project Edit Conflict"
+          mine={formData as Project}
+          base={mergeBase || undefined}
+          theirs={conflict}
+          fields={PROJECT_MERGE_FIELDS}
+          note="Milestones keep the saved schedule, since someone may have completed and invoiced one meanwhile. Edit the project again to change them."
+          onResolve={handleResolveConflict}
+          onCancel={() => {
+            setConflict(null);
+            setFormData(null);
+          }}
+        />
+      )}
+    </div>
+  );
+};
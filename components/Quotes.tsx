@@ -0,0 +1,513 @@
+import React, { useState } from 'react';
+import { Quote, QuoteStatus, InvoiceLine, AppData, User } from '../types';
+import { Plus, Search, X, FileSignature, Edit2, Send, Trash2, Printer, CheckCircle, XCircle, FileText, Briefcase } from 'lucide-react';
+import { ConflictError } from '../services/backends';
+import { MergeDialog, MergeField } from './MergeDialog';
+import { formatMoney } from '../services/money';
+import { invoiceTotals } from '../services/finance';
+import { can } from '../services/permissions';
+import { printDocument, quoteDocument } from '../services/documents';
+import { addDays } from '../services/recurring';
+import { quoteInvoiceOf, quoteProjectOf, quoteStatus } from '../services/quotes';
+import { LineItemsEditor, newLine } from './LineItemsEditor';
+
+export type QuoteConversion = 'INVOICE' | 'PROJECT';
+
+interface QuotesProps {
+  data: AppData;
+  onAddQuote: (quote: Quote) => void;
+  onUpdateQuote: (quote: Quote) => Promise<void>;
+  onIssueQuote: (quote: Quote) => Promise<void>;
+  onRespondToQuote: (id: string, accepted: boolean) => void;
+  onConvertQuote: (id: string, to: QuoteConversion) => void;
+  onDeleteQuote: (id: string) => void;
+  user: User;
+}
+
+const STATUS_LABELS: Record<QuoteStatus, string> = {
+  DRAFT: 'Draft',
+  SENT: 'Sent',
+  ACCEPTED: 'Accepted',
+  REJECTED: 'Rejected',
+  EXPIRED: 'Expired'
+};
+
+const STATUS_STYLES: Record<QuoteStatus, string> = {
+  DRAFT: 'bg-slate-100 text-slate-600',
+  SENT: 'bg-blue-100 text-blue-700',
+  ACCEPTED: 'bg-green-100 text-green-700',
+  REJECTED: 'bg-red-100 text-red-700',
+  EXPIRED: 'bg-amber-100 text-amber-700'
+};
+
+// How long a new quote stays open by default
+const VALIDITY_DAYS = 30;
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export const Quotes: React.FC<QuotesProps> = ({
+  data, onAddQuote, onUpdateQuote, onIssueQuote, onRespondToQuote, onConvertQuote, onDeleteQuote, user
+}) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<'ALL' | QuoteStatus>('ALL');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [formData, setFormData] = useState<Partial<Quote>>({});
+  const [conflict, setConflict] = useState<Quote | null>(null);
+  // The quote as the form loaded it, so the merge can tell whose change each difference is
+  const [mergeBase, setMergeBase] = useState<Quote | null>(null);
+
+  const activeClients = data.clients.filter(c => c.isActive !== false && !c.archivedAt);
+
+  const getClientName = (clientId: string) => data.clients.find(c => c.id === clientId)?.name || 'Unknown Client';
+
+  const rows = data.quotes.map(quote => ({
+    quote,
+    total: invoiceTotals(quote).total,
+    status: quoteStatus(quote, today()),
+    invoice: quoteInvoiceOf(quote, data.invoices),
+    project: quoteProjectOf(quote, data.projects)
+  }));
+
+  const filteredRows = rows.filter(({ quote, status }) => {
+    const search = searchTerm.toLowerCase();
+    const matchesSearch = (quote.number || '').toLowerCase().includes(search) ||
+                          quote.title.toLowerCase().includes(search) ||
+                          getClientName(quote.clientId).toLowerCase().includes(search);
+    return matchesSearch && (statusFilter === 'ALL' || status === statusFilter);
+  }).sort((a, b) => b.quote.issueDate.localeCompare(a.quote.issueDate) || b.quote.createdAt - a.quote.createdAt);
+
+  const handleOpenModal = (quote?: Quote) => {
+    if (quote) {
+      setFormData(quote);
+      setMergeBase(quote);
+    } else {
+      setFormData({
+        clientId: activeClients.length > 0 ? activeClients[0].id : '',
+        title: '',
+        issueDate: today(),
+        validUntil: addDays(today(), VALIDITY_DAYS),
+        lines: [newLine()],
+        taxRate: 0,
+        notes: '',
+        status: 'DRAFT'
+      });
+    }
+    setIsModalOpen(true);
+  };
+
+  const mergeFields: MergeField<Quote>[] = [
+    { key: 'clientId', label: 'Client', format: getClientName },
+    { key: 'title', label: 'Title' },
+    { key: 'issueDate', label: 'Issue Date' },
+    { key: 'validUntil', label: 'Valid Until' },
+    { key: 'lines', label: 'Line Items', format: (lines: InvoiceLine[]) => lines.map(l => `${l.quantity} × ${l.description}`).join(', ') },
+    { key: 'taxRate', label: 'Tax Rate', format: v => `${v}%` },
+    { key: 'notes', label: 'Terms & Notes' }
+  ];
+
+  // Returns false when the save hit a concurrent edit and the merge dialog took over
+  const saveQuoteUpdate = async (quote: Quote, send: boolean) => {
+    try {
+      await (send ? onIssueQuote(quote) : onUpdateQuote(quote));
+      return true;
+    } catch (error) {
+      if (!(error instanceof ConflictError)) throw error;
+      setConflict(error.current as Quote);
+      return false;
+    }
+  };
+
+  const handleResolveConflict = async (merged: Quote) => {
+    // The merged row is built on the stored one, which becomes the base if this save conflicts too
+    setMergeBase(conflict);
+    setConflict(null);
+    setFormData(merged);
+    if (await saveQuoteUpdate(merged, false)) setIsModalOpen(false);
+  };
+
+  const handleDiscardConflict = () => {
+    setConflict(null);
+    setIsModalOpen(false);
+  };
+
+  const handleSave = async (send: boolean) => {
+    const lines = (formData.lines || []).filter(l => l.description.trim());
+    if (!formData.clientId || !formData.issueDate || !formData.validUntil || !formData.title?.trim()) return;
+    if (lines.length === 0) {
+      alert('Add at least one line item with a description.');
+      return;
+    }
+    if (formData.validUntil < formData.issueDate) {
+      alert('The validity date cannot be before the issue date.');
+      return;
+    }
+
+    const quote = { ...formData, title: formData.title.trim(), lines, taxRate: Number(formData.taxRate) || 0 } as Quote;
+    if (quote.id) {
+      if (!(await saveQuoteUpdate(quote, send))) return;
+    } else {
+      onAddQuote({
+        ...quote,
+        id: crypto.randomUUID(),
+        status: send ? 'SENT' : 'DRAFT',
+        createdAt: Date.now()
+      });
+    }
+    setIsModalOpen(false);
+  };
+
+  const handleSend = (quote: Quote) => {
+    if (window.confirm(`Mark this quote to ${getClientName(quote.clientId)} as sent? It will get its quote number.`)) {
+      onIssueQuote(quote).catch(error => {
+        if (error instanceof ConflictError) alert(`${error.message} The latest version has been loaded.`);
+      });
+    }
+  };
+
+  const handleRespond = (quote: Quote, status: QuoteStatus, accepted: boolean) => {
+    const expired = status === 'EXPIRED' ? ` It expired on ${quote.validUntil}.` : '';
+    const message = accepted
+      ? `Record quote ${quote.number} as accepted by ${getClientName(quote.clientId)}?${expired} It can then be converted to an invoice or project, but no longer edited.`
+      : `Record quote ${quote.number} as rejected by ${getClientName(quote.clientId)}? It can no longer be edited.`;
+    if (window.confirm(message)) onRespondToQuote(quote.id, accepted);
+  };
+
+  const handleConvert = (quote: Quote, to: QuoteConversion) => {
+    const total = formatMoney(invoiceTotals(quote).total);
+    const message = to === 'INVOICE'
+      ? `Raise a draft invoice for ${total} from quote ${quote.number}? You can review and send it from Invoices.`
+      : `Create the project "${quote.title}" for ${getClientName(quote.clientId)} with a contract value of ${total}?`;
+    if (window.confirm(message)) onConvertQuote(quote.id, to);
+  };
+
+  const handlePrint = (quote: Quote, status: QuoteStatus) => {
+    printDocument(quoteDocument(quote, data.clients.find(c => c.id === quote.clientId), status));
+  };
+
+  const handleDelete = (quote: Quote) => {
+    if (window.confirm(`Delete ${quote.number ? `quote ${quote.number}` : 'this draft quote'}?`)) {
+      onDeleteQuote(quote.id);
+    }
+  };
+
+  const canCreate = can(user, 'quotes.create');
+  const canEdit = can(user, 'quotes.edit');
+  const canDelete = can(user, 'quotes.delete');
+  const canInvoice = canEdit && can(user, 'invoices.create');
+  const canCreateProject = canEdit && can(user, 'projects.create');
+  const draftTotals = invoiceTotals({ lines: formData.lines || [], taxRate: Number(formData.taxRate) || 0 });
+  const pickableClients = activeClients.some(c => c.id === formData.clientId)
+    ? activeClients
+    : [...data.clients.filter(c => c.id === formData.clientId), ...activeClients];
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto min-h-screen">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900">Quotes</h1>
+          <p className="text-slate-500 mt-1">Price work before it is won, then turn accepted quotes into invoices or projects</p>
+        </div>
+        {canCreate && (
+          <button
+            onClick={() => handleOpenModal()}
+            className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors shadow-sm"
+          >
+            <Plus className="w-5 h-5" />
+            New Quote
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-4 mb-6">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 w-5 h-5" />
+          <input
+            type="text"
+            placeholder="Search by quote number, title or client..."
+            className="w-full pl-10 pr-4 py-2 bg-white border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+          />
+        </div>
+        <div className="flex flex-wrap bg-white rounded-lg border border-slate-200 p-1 shadow-sm">
+          {(['ALL', 'DRAFT', 'SENT', 'ACCEPTED', 'REJECTED', 'EXPIRED'] as const).map(status => (
+            <button
+              key={status}
+              onClick={() => setStatusFilter(status)}
+              className={`px-3 py-1.5 rounded-md text-xs font-semibold transition-colors ${
+                statusFilter === status
+                  ? 'bg-blue-50 text-blue-700'
+                  : 'text-slate-500 hover:text-slate-700 hover:bg-slate-50'
+              }`}
+            >
+              {status === 'ALL' ? 'All' : STATUS_LABELS[status]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-slate-50 border-b border-slate-200 text-xs uppercase tracking-wider text-slate-500">
+                <th className="p-4 font-semibold">Quote</th>
+                <th className="p-4 font-semibold">Client</th>
+                <th className="p-4 font-semibold">Issued</th>
+                <th className="p-4 font-semibold">Valid Until</th>
+                <th className="p-4 font-semibold text-right">Total</th>
+                <th className="p-4 font-semibold text-center">Status</th>
+                <th className="p-4 font-semibold w-36"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {filteredRows.map(({ quote, total, status, invoice, project }) => {
+                const isOpen = quote.status === 'DRAFT' || quote.status === 'SENT';
+                return (
+                  <tr key={quote.id} className={`hover:bg-slate-50 transition-colors group ${status === 'REJECTED' ? 'opacity-60' : ''}`}>
+                    <td className="p-4 whitespace-nowrap">
+                      <div className="font-medium text-slate-900">{quote.number || <span className="text-slate-400 italic">Draft</span>}</div>
+                    </td>
+                    <td className="p-4 text-slate-700">
+                      {getClientName(quote.clientId)}
+                      <div className="text-xs text-slate-400 mt-0.5">{quote.title}</div>
+                    </td>
+                    <td className="p-4 text-slate-600 whitespace-nowrap">{quote.issueDate}</td>
+                    <td className={`p-4 whitespace-nowrap ${status === 'EXPIRED' ? 'text-amber-600 font-medium' : 'text-slate-600'}`}>
+                      {quote.validUntil}
+                    </td>
+                    <td className="p-4 text-right font-bold text-slate-900">{formatMoney(total)}</td>
+                    <td className="p-4 text-center">
+                      <span className={`inline-flex px-2.5 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[status]}`}>
+                        {STATUS_LABELS[status]}
+                      </span>
+                      {invoice && <div className="text-xs text-slate-400 mt-1">Invoice: {invoice.number || 'Draft'}</div>}
+                      {project && <div className="text-xs text-slate-400 mt-1">Project: {project.name}</div>}
+                    </td>
+                    <td className="p-4 text-right">
+                      <div className="flex justify-end gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button onClick={() => handlePrint(quote, status)} className="text-slate-400 hover:text-blue-600" title="Print / Save as PDF">
+                          <Printer className="w-4 h-4" />
+                        </button>
+                        {quote.status === 'DRAFT' && canEdit && (
+                          <button onClick={() => handleSend(quote)} className="text-slate-400 hover:text-blue-600" title="Mark as sent">
+                            <Send className="w-4 h-4" />
+                          </button>
+                        )}
+                        {quote.status === 'SENT' && canEdit && (
+                          <>
+                            <button onClick={() => handleRespond(quote, status, true)} className="text-slate-400 hover:text-green-600" title="Client accepted">
+                              <CheckCircle className="w-4 h-4" />
+                            </button>
+                            <button onClick={() => handleRespond(quote, status, false)} className="text-slate-400 hover:text-red-600" title="Client rejected">
+                              <XCircle className="w-4 h-4" />
+                            </button>
+                          </>
+                        )}
+                        {isOpen && canEdit && (
+                          <button onClick={() => handleOpenModal(quote)} className="text-slate-400 hover:text-blue-600" title="Edit quote">
+                            <Edit2 className="w-4 h-4" />
+                          </button>
+                        )}
+                        {quote.status === 'ACCEPTED' && !invoice && canInvoice && (
+                          <button onClick={() => handleConvert(quote, 'INVOICE')} className="text-slate-400 hover:text-blue-600" title="Convert to invoice">
+                            <FileText className="w-4 h-4" />
+                          </button>
+                        )}
+                        {quote.status === 'ACCEPTED' && !project && canCreateProject && (
+                          <button onClick={() => handleConvert(quote, 'PROJECT')} className="text-slate-400 hover:text-blue-600" title="Convert to project">
+                            <Briefcase className="w-4 h-4" />
+                          </button>
+                        )}
+                        {!invoice && !project && canDelete && (
+                          <button onClick={() => handleDelete(quote)} className="text-slate-400 hover:text-red-600" title="Delete quote">
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+              {filteredRows.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="p-12 text-center">
+                    <div className="flex flex-col items-center justify-center text-slate-400">
+                      <FileSignature className="w-12 h-12 mb-3 opacity-20" />
+                      <p>No quotes found matching your criteria</p>
+                    </div>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Quote Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+            <div className="flex justify-between items-center p-6 border-b border-slate-100">
+              <h2 className="text-xl font-bold text-slate-900">
+                {!formData.id ? 'New Quote' : formData.number ? `Edit Quote ${formData.number}` : 'Edit Draft Quote'}
+              </h2>
+              <button onClick={() => setIsModalOpen(false)} className="text-slate-400 hover:text-slate-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <form
+              onSubmit={e => {
+                e.preventDefault();
+                handleSave(false);
+              }}
+              className="p-6 space-y-4 overflow-y-auto"
+            >
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Client *</label>
+                  <select
+                    required
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none bg-white"
+                    value={formData.clientId || ''}
+                    onChange={e => setFormData({ ...formData, clientId: e.target.value })}
+                  >
+                    <option value="" disabled>Select a client</option>
+                    {pickableClients.map(c => (
+                      <option key={c.id} value={c.id}>{c.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Title *</label>
+                  <input
+                    required
+                    type="text"
+                    placeholder="e.g. Company website redesign"
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                    value={formData.title || ''}
+                    onChange={e => setFormData({ ...formData, title: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Issue Date *</label>
+                  <input
+                    required
+                    type="date"
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                    value={formData.issueDate || ''}
+                    onChange={e => setFormData({ ...formData, issueDate: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Valid Until *</label>
+                  <input
+                    required
+                    type="date"
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                    value={formData.validUntil || ''}
+                    onChange={e => setFormData({ ...formData, validUntil: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              {/* Line Items */}
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Line Items *</label>
+                <LineItemsEditor lines={formData.lines || []} onChange={lines => setFormData({ ...formData, lines })} />
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">Tax / VAT (%)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                      value={formData.taxRate ?? 0}
+                      onChange={e => setFormData({ ...formData, taxRate: Number(e.target.value) || 0 })}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">Terms & Notes</label>
+                    <textarea
+                      rows={2}
+                      placeholder="Delivery time, payment terms, what is excluded..."
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none resize-none"
+                      value={formData.notes || ''}
+                      onChange={e => setFormData({ ...formData, notes: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="bg-slate-50 rounded-lg border border-slate-200 p-4 text-sm space-y-2 self-start">
+                  <div className="flex justify-between text-slate-600">
+                    <span>Subtotal</span>
+                    <span>{formatMoney(draftTotals.subtotal)}</span>
+                  </div>
+                  <div className="flex justify-between text-slate-600">
+                    <span>Tax ({Number(formData.taxRate) || 0}%)</span>
+                    <span>{formatMoney(draftTotals.tax)}</span>
+                  </div>
+                  <div className="flex justify-between font-bold text-slate-900 text-base border-t border-slate-200 pt-2">
+                    <span>Total</span>
+                    <span>{formatMoney(draftTotals.total)}</span>
+                  </div>
+                </div>
+              </div>
+
+              <div className="pt-4 flex justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={() => setIsModalOpen(false)}
+                  className="px-4 py-2 text-slate-700 hover:bg-slate-100 rounded-lg font-medium"
+                >
+                  Cancel
+                </button>
+                {formData.status === 'SENT' ? (
+                  <button
+                    type="submit"
+                    className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium shadow-sm"
+                  >
+                    Save Changes
+                  </button>
+                ) : (
+                  <>
+                    <button
+                      type="submit"
+                      className="px-4 py-2 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 rounded-lg font-medium shadow-sm"
+                    >
+                      Save Draft
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleSave(true)}
+                      className="flex items-center gap-2 px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium shadow-sm"
+                    >
+                      <Send className="w-4 h-4" />
+                      Save & Send
+                    </button>
+                  </>
+                )}
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {conflict && (
+        <MergeDialog
+          title="Quote Edit Conflict"
+          mine={formData as Quote}
+          base={mergeBase || undefined}
+          theirs={conflict}
+          fields={mergeFields}
+          onResolve={handleResolveConflict}
+          onCancel={handleDiscardConflict}
+        />
+      )}
+    </div>
+  );
+};
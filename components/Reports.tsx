@@ -1,19 +1,28 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { AppData, UserRole } from '../types';
+import { AppData, User } from '../types';
 import { Calendar, Filter, CreditCard, Download, FileDown, Loader2 } from 'lucide-react';
+import { Money, ZERO, addMoney, subtractMoney, formatMoney, formatMoneyPlain } from '../services/money';
+import { paymentTotals, expenseTotal, netByMethod, clientBalance, projectBalance, inPeriod, agingReport, agingTotals, AGING_BUCKETS } from '../services/finance';
+import { PROJECT_STATUS_LABELS } from './ProjectsDialog';
+import { AgingReport, AGING_BUCKET_LABELS } from './AgingReport';
+import { can } from '../services/permissions';
+
+type ReportType = 'STATEMENT' | 'AGING';
 
 interface ReportsProps {
   data: AppData;
-  userRole: UserRole;
+  user: User;
 }
 
-export const Reports: React.FC<ReportsProps> = ({ data }) => {
+export const Reports: React.FC<ReportsProps> = ({ data, user }) => {
   // Default to current month
   const today = new Date();
   const firstDay = new Date(today.getFullYear(), today.getMonth(), 1).toISOString().split('T')[0];
   const lastDay = new Date(today.getFullYear(), today.getMonth() + 1, 0).toISOString().split('T')[0];
+  const asOf = today.toISOString().split('T')[0];
 
+  const [reportType, setReportType] = useState<ReportType>('STATEMENT');
   const [startDate, setStartDate] = useState(firstDay);
   const [endDate, setEndDate] = useState(lastDay);
   const [selectedClientId, setSelectedClientId] = useState<string>('ALL');
@@ -58,7 +67,7 @@ export const Reports: React.FC<ReportsProps> = ({ data }) => {
   const reportData = useMemo(() => {
     // 1. Filter Payments
     const filteredPayments = data.payments.filter(p => {
-      const dateMatch = p.date >= startDate && p.date <= endDate;
+      const dateMatch = inPeriod(p.date, startDate, endDate);
       const clientMatch = selectedClientId === 'ALL' || p.clientId === selectedClientId;
       const methodMatch = methodFilter === 'ALL' || (p.method || 'Cash') === methodFilter;
       return dateMatch && clientMatch && methodMatch;
@@ -67,53 +76,44 @@ export const Reports: React.FC<ReportsProps> = ({ data }) => {
     // 2. Filter Expenses 
     // Only include expenses if Client is ALL AND Method is ALL (Expenses don't have methods/clients linked usually)
     const filteredExpenses = (selectedClientId === 'ALL' && methodFilter === 'ALL')
-      ? data.expenses.filter(e => e.date >= startDate && e.date <= endDate).sort((a, b) => a.date.localeCompare(b.date))
+      ? data.expenses.filter(e => inPeriod(e.date, startDate, endDate)).sort((a, b) => a.date.localeCompare(b.date))
       : [];
 
     // 3. Calculations
-    const totalReceived = filteredPayments
-      .filter(p => p.type !== 'REFUND')
-      .reduce((sum, p) => sum + p.amount, 0);
-
-    const totalRefunded = filteredPayments
-      .filter(p => p.type === 'REFUND')
-      .reduce((sum, p) => sum + p.amount, 0);
+    const { received: totalReceived, refunded: totalRefunded, net: netIncome } = paymentTotals(filteredPayments);
 
-    const netIncome = totalReceived - totalRefunded;
-
-    const totalExpenses = filteredExpenses.reduce((sum, e) => sum + e.amount, 0);
-    const netProfit = netIncome - totalExpenses;
+    const totalExpenses = expenseTotal(filteredExpenses);
+    const netProfit = subtractMoney(netIncome, totalExpenses);
 
     // 4. Method Breakdown (Only relevant if Method Filter is ALL)
-    const methodBreakdown: Record<string, number> = {};
-    if (methodFilter === 'ALL') {
-       filteredPayments.forEach(p => {
-          const m = p.method || 'Cash';
-          const amt = p.type === 'REFUND' ? -p.amount : p.amount;
-          methodBreakdown[m] = (methodBreakdown[m] || 0) + amt;
-       });
-    }
+    const methodBreakdown: Record<string, Money> = methodFilter === 'ALL' ? netByMethod(filteredPayments) : {};
 
     // Client Specific Totals (Contextual info not bound by date range, but filtered by client)
     let clientContext = null;
     if (selectedClientId !== 'ALL') {
       const client = data.clients.find(c => c.id === selectedClientId);
       if (client) {
-        const allClientPayments = data.payments.filter(p => p.clientId === client.id);
-        const allPaid = allClientPayments.reduce((acc, p) => p.type === 'REFUND' ? acc - p.amount : acc + p.amount, 0);
+        const balance = clientBalance(client, data.payments, data.invoices);
         clientContext = {
           name: client.name,
           company: client.company,
-          totalBilled: client.totalBilled || 0,
-          totalPaidAllTime: allPaid,
-          currentDue: (client.totalBilled || 0) - allPaid
+          totalBilled: balance.billed,
+          totalPaidAllTime: balance.paid,
+          currentDue: balance.due
         };
       }
     }
 
+    // Project standing is all-time, like the client context, and follows the client filter
+    const projectBalances = data.projects
+      .filter(p => (selectedClientId === 'ALL' || p.clientId === selectedClientId) && p.status !== 'CANCELLED')
+      .map(project => ({ project, ...projectBalance(project, data.payments, data.expenses) }))
+      .sort((a, b) => a.project.name.localeCompare(b.project.name));
+
     return {
       payments: filteredPayments,
       expenses: filteredExpenses,
+      projectBalances,
       totalReceived,
       totalRefunded,
       netIncome,
@@ -124,10 +124,45 @@ export const Reports: React.FC<ReportsProps> = ({ data }) => {
     };
   }, [data, startDate, endDate, selectedClientId, methodFilter]);
 
+  // Aging is as of today and ignores the date and method filters; overpayments are shown, not netted
+  const aging = useMemo(() => {
+    const clientsInView = data.clients.filter(c => selectedClientId === 'ALL' || c.id === selectedClientId);
+    const rows = agingReport(clientsInView, data.invoices, data.payments, data.projects, asOf)
+      .sort((a, b) => a.client.name.localeCompare(b.client.name));
+    return { rows, totals: agingTotals(rows) };
+  }, [data, selectedClientId, asOf]);
+
   const getClientName = (id: string) => {
     return data.clients.find(c => c.id === id)?.name || 'Unknown';
   };
 
+  const getProjectName = (id?: string | null) => data.projects.find(p => p.id === id)?.name;
+
+  // Shared by the statement and aging headers
+  const logo = logoBase64 ? (
+    <img 
+      src={logoBase64}
+      alt="Euro IT Logo" 
+      className="w-16 h-16 object-contain"
+    />
+  ) : (
+    // Graceful Fallback Text Logo if image fails - Simplified for PDF compatibility
+    <div style={{ 
+        width: '64px', 
+        height: '64px', 
+        border: '2px solid #cbd5e1', 
+        borderRadius: '4px', 
+        display: 'flex', 
+        flexDirection: 'column', 
+        alignItems: 'center', 
+        justifyContent: 'center',
+        backgroundColor: '#ffffff'
+    }}>
+       <span style={{ fontSize: '12px', fontWeight: 'bold', color: '#1e3a8a', display: 'block' }}>EURO</span>
+       <span style={{ fontSize: '12px', fontWeight: 'bold', color: '#1e3a8a', display: 'block' }}>IT</span>
+    </div>
+  );
+
   const handleExportCSV = () => {
     const csvRows = [];
     // Headers
@@ -140,8 +175,8 @@ export const Reports: React.FC<ReportsProps> = ({ data }) => {
       const cleanDesc = (p.description || '').replace(/"/g, '""');
       const desc = `"${clientName}${cleanDesc ? ` - ${cleanDesc}` : ''}"`; 
       const type = p.type === 'REFUND' ? 'Refund' : 'Payment';
-      const debit = p.type === 'REFUND' ? p.amount.toFixed(2) : '0.00';
-      const credit = p.type !== 'REFUND' ? p.amount.toFixed(2) : '0.00';
+      const debit = p.type === 'REFUND' ? formatMoneyPlain(p.amount) : '0.00';
+      const credit = p.type !== 'REFUND' ? formatMoneyPlain(p.amount) : '0.00';
       
       csvRows.push([
         p.date,
@@ -163,7 +198,7 @@ export const Reports: React.FC<ReportsProps> = ({ data }) => {
           desc,
           'Expense',
           '-',
-          e.amount.toFixed(2),
+          formatMoneyPlain(e.amount),
           '0.00'
         ].join(','));
       });
@@ -171,23 +206,66 @@ export const Reports: React.FC<ReportsProps> = ({ data }) => {
     
     // Totals row
     csvRows.push(['', 'TOTALS', '', '', 
-      (reportData.totalRefunded + (methodFilter === 'ALL' ? reportData.totalExpenses : 0)).toFixed(2), 
-      reportData.totalReceived.toFixed(2)
+      formatMoneyPlain(addMoney(reportData.totalRefunded, methodFilter === 'ALL' ? reportData.totalExpenses : ZERO)), 
+      formatMoneyPlain(reportData.totalReceived)
+    ].join(','));
+
+    downloadCSV(csvRows, `Report_${startDate}_${endDate}.csv`);
+  };
+
+  // A summary row per client, then every open invoice behind it
+  const handleExportAgingCSV = () => {
+    const quote = (text: string) => `"${text.replace(/"/g, '""')}"`;
+    const csvRows = [];
+    csvRows.push(['Client', ...AGING_BUCKETS.map(b => AGING_BUCKET_LABELS[b]), 'Total', 'Unapplied Credit'].join(','));
+    aging.rows.forEach(row => {
+      csvRows.push([
+        quote(row.client.name),
+        ...AGING_BUCKETS.map(b => formatMoneyPlain(row.buckets[b])),
+        formatMoneyPlain(row.total),
+        formatMoneyPlain(row.credit)
+      ].join(','));
+    });
+    csvRows.push([
+      'TOTALS',
+      ...AGING_BUCKETS.map(b => formatMoneyPlain(aging.totals.buckets[b])),
+      formatMoneyPlain(aging.totals.total),
+      formatMoneyPlain(aging.totals.credit)
     ].join(','));
 
+    csvRows.push('');
+    csvRows.push(['Client', 'Invoice', 'Issue Date', 'Due Date', 'Days Overdue', 'Bucket', 'Outstanding'].join(','));
+    aging.rows.forEach(row => {
+      row.items.forEach(item => {
+        csvRows.push([
+          quote(row.client.name),
+          quote(item.invoice ? item.invoice.number || 'Unnumbered' : 'Opening balance'),
+          item.invoice?.issueDate || '',
+          item.dueDate,
+          Math.max(item.daysOverdue, 0),
+          AGING_BUCKET_LABELS[item.bucket],
+          formatMoneyPlain(item.outstanding)
+        ].join(','));
+      });
+    });
+
+    downloadCSV(csvRows, `Aging_${asOf}.csv`);
+  };
+
+  const downloadCSV = (csvRows: string[], filename: string) => {
     const csvString = csvRows.join('\n');
     const blob = new Blob([csvString], { type: 'text/csv' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `Report_${startDate}_${endDate}.csv`;
+    a.download = filename;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
   };
 
   const handleDownloadPDF = () => {
-    const element = document.getElementById('printable-report');
+    const element = document.getElementById(reportType === 'AGING' ? 'printable-aging' : 'printable-report');
     if (!element) return;
     
     setIsGeneratingPdf(true);
@@ -195,7 +273,7 @@ export const Reports: React.FC<ReportsProps> = ({ data }) => {
     // Options for html2pdf
     const opt = {
       margin: [10, 10, 10, 10], // top, left, bottom, right in mm
-      filename: `EuroIT_Report_${startDate}_to_${endDate}.pdf`,
+      filename: reportType === 'AGING' ? `EuroIT_Aging_${asOf}.pdf` : `EuroIT_Report_${startDate}_to_${endDate}.pdf`,
       image: { type: 'jpeg', quality: 0.98 },
       html2canvas: { scale: 3, useCORS: true, logging: false }, // Scale 3 for sharper text
       jsPDF: { unit: 'mm', format: 'a4', orientation: 'portrait' }
@@ -224,60 +302,84 @@ export const Reports: React.FC<ReportsProps> = ({ data }) => {
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8 print:hidden">
         <div>
           <h1 className="text-3xl font-bold text-slate-900">Financial Reports</h1>
-          <p className="text-slate-500 mt-1">Generate statements by date, client, or payment method</p>
-        </div>
-        <div className="flex gap-2">
-            <button 
-              type="button"
-              onClick={handleExportCSV}
-              className="flex items-center gap-2 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 px-4 py-2 rounded-lg font-medium transition-colors shadow-sm"
-            >
-              <Download className="w-5 h-5" />
-              Export CSV
-            </button>
-            <button 
-              id="btn-download-pdf"
-              type="button"
-              onClick={handleDownloadPDF}
-              disabled={isGeneratingPdf}
-              className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors shadow-sm disabled:opacity-70 disabled:cursor-wait"
-            >
-              {isGeneratingPdf ? (
-                 <Loader2 className="w-5 h-5 animate-spin" />
-              ) : (
-                 <FileDown className="w-5 h-5" />
-              )}
-              {isGeneratingPdf ? 'Generating...' : 'Download PDF'}
-            </button>
+          <p className="text-slate-500 mt-1">
+            {reportType === 'AGING' ? 'What each client owes, by how long it has been due' : 'Generate statements by date, client, or payment method'}
+          </p>
         </div>
+        {can(user, 'reports.export') && (
+          <div className="flex gap-2">
+              <button 
+                type="button"
+                onClick={reportType === 'AGING' ? handleExportAgingCSV : handleExportCSV}
+                className="flex items-center gap-2 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 px-4 py-2 rounded-lg font-medium transition-colors shadow-sm"
+              >
+                <Download className="w-5 h-5" />
+                Export CSV
+              </button>
+              <button 
+                id="btn-download-pdf"
+                type="button"
+                onClick={handleDownloadPDF}
+                disabled={isGeneratingPdf}
+                className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors shadow-sm disabled:opacity-70 disabled:cursor-wait"
+              >
+                {isGeneratingPdf ? (
+                   <Loader2 className="w-5 h-5 animate-spin" />
+                ) : (
+                   <FileDown className="w-5 h-5" />
+                )}
+                {isGeneratingPdf ? 'Generating...' : 'Download PDF'}
+              </button>
+          </div>
+        )}
+      </div>
+
+      {/* Report Type Toggle - Screen Only */}
+      <div className="flex bg-slate-100 p-1 rounded-lg mb-4 w-full sm:w-96 print:hidden">
+        {([['STATEMENT', 'Financial Statement'], ['AGING', 'Receivables Aging']] as [ReportType, string][]).map(([type, label]) => (
+          <button
+            key={type}
+            type="button"
+            className={`flex-1 py-1.5 text-sm font-medium rounded-md transition-all ${
+              reportType === type ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+            }`}
+            onClick={() => setReportType(type)}
+          >
+            {label}
+          </button>
+        ))}
       </div>
 
       {/* Filters - Screen Only */}
       <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 mb-6 grid grid-cols-1 md:grid-cols-4 gap-4 items-end print:hidden">
-        <div>
-          <label className="block text-xs font-medium text-slate-500 mb-1 uppercase tracking-wide">Start Date</label>
-          <div className="relative">
-            <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
-            <input 
-              type="date" 
-              className="pl-9 pr-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none w-full"
-              value={startDate}
-              onChange={e => setStartDate(e.target.value)}
-            />
-          </div>
-        </div>
-        <div>
-          <label className="block text-xs font-medium text-slate-500 mb-1 uppercase tracking-wide">End Date</label>
-          <div className="relative">
-             <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
-            <input 
-              type="date" 
-              className="pl-9 pr-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none w-full"
-              value={endDate}
-              onChange={e => setEndDate(e.target.value)}
-            />
-          </div>
-        </div>
+        {reportType === 'STATEMENT' && (
+          <>
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1 uppercase tracking-wide">Start Date</label>
+              <div className="relative">
+                <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+                <input 
+                  type="date" 
+                  className="pl-9 pr-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none w-full"
+                  value={startDate}
+                  onChange={e => setStartDate(e.target.value)}
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1 uppercase tracking-wide">End Date</label>
+              <div className="relative">
+                 <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+                <input 
+                  type="date" 
+                  className="pl-9 pr-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none w-full"
+                  value={endDate}
+                  onChange={e => setEndDate(e.target.value)}
+                />
+              </div>
+            </div>
+          </>
+        )}
         <div>
           <label className="block text-xs font-medium text-slate-500 mb-1 uppercase tracking-wide">Filter by Client</label>
           <div className="relative">
@@ -294,25 +396,30 @@ export const Reports: React.FC<ReportsProps> = ({ data }) => {
             </select>
           </div>
         </div>
-        <div>
-          <label className="block text-xs font-medium text-slate-500 mb-1 uppercase tracking-wide">Payment Method</label>
-          <div className="relative">
-             <CreditCard className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
-            <select 
-              className="pl-9 pr-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none w-full bg-white appearance-none"
-              value={methodFilter}
-              onChange={e => setMethodFilter(e.target.value)}
-            >
-              <option value="ALL">All Methods</option>
-              {methods.map(method => (
-                <option key={method} value={method}>{method}</option>
-              ))}
-            </select>
+        {reportType === 'STATEMENT' && (
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-1 uppercase tracking-wide">Payment Method</label>
+            <div className="relative">
+               <CreditCard className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+              <select 
+                className="pl-9 pr-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none w-full bg-white appearance-none"
+                value={methodFilter}
+                onChange={e => setMethodFilter(e.target.value)}
+              >
+                <option value="ALL">All Methods</option>
+                {methods.map(method => (
+                  <option key={method} value={method}>{method}</option>
+                ))}
+              </select>
+            </div>
           </div>
-        </div>
+        )}
       </div>
 
       {/* Printable Report Content */}
+      {reportType === 'AGING' ? (
+        <AgingReport rows={aging.rows} totals={aging.totals} asOf={asOf} logo={logo} />
+      ) : (
       <div id="printable-report" className="report-container bg-white rounded-xl shadow-sm border border-slate-200 print:border print:border-slate-300 print:overflow-visible print:shadow-none print:w-full font-sans">
         
         {/* Report Header */}
@@ -320,29 +427,7 @@ export const Reports: React.FC<ReportsProps> = ({ data }) => {
           <div className="flex justify-between items-start">
             <div className="flex items-center gap-4">
                <div className="bg-white p-2 rounded-lg border border-slate-200 print:border-none print:p-0">
-                  {logoBase64 ? (
-                    <img 
-                      src={logoBase64}
-                      alt="Euro IT Logo" 
-                      className="w-16 h-16 object-contain"
-                    />
-                  ) : (
-                    // Graceful Fallback Text Logo if image fails - Simplified for PDF compatibility
-                    <div style={{ 
-                        width: '64px', 
-                        height: '64px', 
-                        border: '2px solid #cbd5e1', 
-                        borderRadius: '4px', 
-                        display: 'flex', 
-                        flexDirection: 'column', 
-                        alignItems: 'center', 
-                        justifyContent: 'center',
-                        backgroundColor: '#ffffff'
-                    }}>
-                       <span style={{ fontSize: '12px', fontWeight: 'bold', color: '#1e3a8a', display: 'block' }}>EURO</span>
-                       <span style={{ fontSize: '12px', fontWeight: 'bold', color: '#1e3a8a', display: 'block' }}>IT</span>
-                    </div>
-                  )}
+                  {logo}
                </div>
                <div>
                   <h2 className="text-2xl font-bold text-black uppercase tracking-tight" style={{ color: '#000000' }}>Euro IT Accounts</h2>
@@ -392,16 +477,16 @@ export const Reports: React.FC<ReportsProps> = ({ data }) => {
                 </div>
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                    <div>
-                      <p className="text-slate-500 text-xs uppercase">Project Value</p>
-                      <p className="font-bold text-black">৳{reportData.clientContext.totalBilled.toLocaleString()}</p>
+                      <p className="text-slate-500 text-xs uppercase">Total Billed</p>
+                      <p className="font-bold text-black">{formatMoney(reportData.clientContext.totalBilled)}</p>
                    </div>
                    <div>
                       <p className="text-slate-500 text-xs uppercase">Total Paid (All Time)</p>
-                      <p className="font-bold text-green-700">৳{reportData.clientContext.totalPaidAllTime.toLocaleString()}</p>
+                      <p className="font-bold text-green-700">{formatMoney(reportData.clientContext.totalPaidAllTime)}</p>
                    </div>
                    <div>
                       <p className="text-slate-500 text-xs uppercase">Current Due</p>
-                      <p className="font-bold text-red-600">৳{reportData.clientContext.currentDue.toLocaleString()}</p>
+                      <p className="font-bold text-red-600">{formatMoney(reportData.clientContext.currentDue)}</p>
                    </div>
                 </div>
              </div>
@@ -414,16 +499,16 @@ export const Reports: React.FC<ReportsProps> = ({ data }) => {
               <p className="text-xs uppercase tracking-wider text-slate-500 font-medium mb-1">
                 {methodFilter !== 'ALL' ? `Received (${methodFilter})` : 'Total Income'}
               </p>
-              <p className="text-2xl font-bold text-green-600">৳{reportData.totalReceived.toLocaleString()}</p>
+              <p className="text-2xl font-bold text-green-600">{formatMoney(reportData.totalReceived)}</p>
            </div>
            <div className="p-6 text-center md:text-left print:p-4">
               <p className="text-xs uppercase tracking-wider text-slate-500 font-medium mb-1">Refunds</p>
-              <p className="text-2xl font-bold text-red-500">৳{reportData.totalRefunded.toLocaleString()}</p>
+              <p className="text-2xl font-bold text-red-500">{formatMoney(reportData.totalRefunded)}</p>
            </div>
            {selectedClientId === 'ALL' && methodFilter === 'ALL' && (
              <div className="p-6 text-center md:text-left print:p-4">
                 <p className="text-xs uppercase tracking-wider text-slate-500 font-medium mb-1">Expenses</p>
-                <p className="text-2xl font-bold text-orange-600">৳{reportData.totalExpenses.toLocaleString()}</p>
+                <p className="text-2xl font-bold text-orange-600">{formatMoney(reportData.totalExpenses)}</p>
              </div>
            )}
            <div className="p-6 text-center md:text-left print:p-4 bg-slate-50 print:bg-white">
@@ -431,7 +516,7 @@ export const Reports: React.FC<ReportsProps> = ({ data }) => {
                 {methodFilter !== 'ALL' ? `Net Balance` : 'Net Profit'}
               </p>
               <p className={`text-2xl font-bold ${reportData.netProfit >= 0 ? 'text-black' : 'text-red-600'}`} style={{ color: reportData.netProfit >= 0 ? '#000000' : '#dc2626' }}>
-                ৳{reportData.netProfit.toLocaleString()}
+                {formatMoney(reportData.netProfit)}
               </p>
            </div>
         </div>
@@ -444,13 +529,47 @@ export const Reports: React.FC<ReportsProps> = ({ data }) => {
                 {Object.entries(reportData.methodBreakdown).map(([method, amount]) => (
                    <div key={method} className="bg-white px-4 py-2 rounded-lg border border-slate-200 shadow-sm print:border-black print:shadow-none print:px-3 print:py-1">
                       <span className="text-xs text-slate-500 block mb-0.5 print:text-black">{method}</span>
-                      <span className="font-bold text-black" style={{ color: '#000000' }}>৳{amount.toLocaleString()}</span>
+                      <span className="font-bold text-black" style={{ color: '#000000' }}>{formatMoney(amount)}</span>
                    </div>
                 ))}
              </div>
           </div>
         )}
 
+        {/* Project Balances */}
+        {reportData.projectBalances.length > 0 && (
+          <div className="p-6 border-b border-slate-200 print:border-b-2 print:border-black print:p-4 break-inside-avoid">
+            <h3 className="text-xs uppercase tracking-wider text-slate-500 font-bold mb-3">Projects (All Time)</h3>
+            <table className="w-full text-left text-sm print:text-xs border-collapse">
+              <thead>
+                <tr className="border-b border-slate-200 text-slate-500 print:text-black print:border-black">
+                  <th className="p-2 font-bold" style={{ color: '#000000' }}>Project</th>
+                  <th className="p-2 font-bold" style={{ color: '#000000' }}>Status</th>
+                  <th className="p-2 font-bold text-right" style={{ color: '#000000' }}>Contract Value</th>
+                  <th className="p-2 font-bold text-right" style={{ color: '#000000' }}>Received</th>
+                  <th className="p-2 font-bold text-right" style={{ color: '#000000' }}>Spent</th>
+                  <th className="p-2 font-bold text-right" style={{ color: '#000000' }}>Due</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 print:divide-slate-300">
+                {reportData.projectBalances.map(({ project, value, received, spent, due }) => (
+                  <tr key={project.id}>
+                    <td className="p-2">
+                      <div className="font-medium text-black" style={{ color: '#000000' }}>{project.name}</div>
+                      {selectedClientId === 'ALL' && <div className="text-xs text-slate-500 print:text-slate-700">{getClientName(project.clientId)}</div>}
+                    </td>
+                    <td className="p-2 text-slate-600 print:text-black">{PROJECT_STATUS_LABELS[project.status]}</td>
+                    <td className="p-2 text-right text-slate-600 print:text-black">{formatMoney(value)}</td>
+                    <td className="p-2 text-right text-green-600 print:text-black">{formatMoney(received)}</td>
+                    <td className="p-2 text-right text-slate-600 print:text-black">{formatMoney(spent)}</td>
+                    <td className="p-2 text-right font-bold text-orange-600 print:text-black">{due > 0 ? formatMoney(due) : '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
         {/* Transaction Table */}
         <div className="p-6 print:p-4">
           <h3 className="text-lg font-bold text-slate-900 mb-4 px-2 print:mb-2 print:px-0" style={{ color: '#000000' }}>Detailed Transactions</h3>
@@ -473,6 +592,7 @@ export const Reports: React.FC<ReportsProps> = ({ data }) => {
                    <td className="p-3 print:p-2">
                      <div className="font-bold text-black" style={{ color: '#000000' }}>{getClientName(p.clientId)}</div>
                      {p.description && <div className="text-xs text-slate-500 print:text-slate-700">{p.description}</div>}
+                     {getProjectName(p.projectId) && <div className="text-xs text-slate-500 print:text-slate-700">Project: {getProjectName(p.projectId)}</div>}
                    </td>
                    <td className="p-3 print:p-2">
                      <span className={`text-xs px-2 py-0.5 rounded border ${p.type === 'REFUND' ? 'bg-red-50 text-red-700 border-red-200' : 'bg-green-50 text-green-700 border-green-200'} print:border-none print:px-0 print:bg-transparent print:text-black print:font-semibold`}>
@@ -481,10 +601,10 @@ export const Reports: React.FC<ReportsProps> = ({ data }) => {
                    </td>
                    <td className="p-3 text-slate-500 print:text-black print:p-2">{p.method}</td>
                    <td className="p-3 text-right font-medium text-slate-400 print:text-black print:p-2">
-                     {p.type === 'REFUND' ? `৳${p.amount.toLocaleString()}` : '-'}
+                     {p.type === 'REFUND' ? formatMoney(p.amount) : '-'}
                    </td>
                    <td className="p-3 text-right font-bold text-black print:p-2" style={{ color: '#000000' }}>
-                     {p.type !== 'REFUND' ? `৳${p.amount.toLocaleString()}` : '-'}
+                     {p.type !== 'REFUND' ? formatMoney(p.amount) : '-'}
                    </td>
                  </tr>
                ))}
@@ -496,10 +616,11 @@ export const Reports: React.FC<ReportsProps> = ({ data }) => {
                    <td className="p-3 print:p-2">
                      <div className="font-medium text-black" style={{ color: '#000000' }}>{e.description}</div>
                      <div className="text-xs text-slate-500 print:text-slate-700">Category: {e.category}</div>
+                     {getProjectName(e.projectId) && <div className="text-xs text-slate-500 print:text-slate-700">Project: {getProjectName(e.projectId)}</div>}
                    </td>
                    <td className="p-3 print:p-2"><span className="text-xs px-2 py-0.5 rounded bg-orange-100 text-orange-700 print:bg-transparent print:text-black print:px-0 print:font-semibold">EXPENSE</span></td>
                    <td className="p-3 text-slate-500 print:text-black print:p-2">-</td>
-                   <td className="p-3 text-right font-medium text-orange-600 print:text-black print:p-2">৳{e.amount.toLocaleString()}</td>
+                   <td className="p-3 text-right font-medium text-orange-600 print:text-black print:p-2">{formatMoney(e.amount)}</td>
                    <td className="p-3 text-right text-slate-400 print:text-black print:p-2">-</td>
                  </tr>
                ))}
@@ -515,8 +636,8 @@ export const Reports: React.FC<ReportsProps> = ({ data }) => {
              <tfoot className="border-t-2 border-slate-200 bg-slate-50 font-bold print:bg-white print:border-t-2 print:border-black">
                <tr>
                  <td colSpan={4} className="p-3 text-right print:p-2" style={{ color: '#000000' }}>TOTAL</td>
-                 <td className="p-3 text-right text-red-600 print:text-black print:p-2">৳{(reportData.totalRefunded + (methodFilter === 'ALL' ? reportData.totalExpenses : 0)).toLocaleString()}</td>
-                 <td className="p-3 text-right text-green-600 print:text-black print:p-2">৳{reportData.totalReceived.toLocaleString()}</td>
+                 <td className="p-3 text-right text-red-600 print:text-black print:p-2">{formatMoney(addMoney(reportData.totalRefunded, methodFilter === 'ALL' ? reportData.totalExpenses : ZERO))}</td>
+                 <td className="p-3 text-right text-green-600 print:text-black print:p-2">{formatMoney(reportData.totalReceived)}</td>
                </tr>
              </tfoot>
           </table>
@@ -542,6 +663,7 @@ export const Reports: React.FC<ReportsProps> = ({ data }) => {
           </div>
         </div>
       </div>
+      )}
     </div>
   );
 };
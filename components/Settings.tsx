@@ -1,25 +1,191 @@
 import React, { useRef, useState, useEffect } from 'react';
-import { AppData, UserRole } from '../types';
-import { Download, Upload, Trash2, AlertTriangle, FileJson, Database, Save, CheckCircle, ExternalLink, XCircle, Loader2, Copy } from 'lucide-react';
+import { AppData, User, UserAccount } from '../types';
+import { Download, Upload, Trash2, AlertTriangle, FileJson, Database, Save, CheckCircle, ExternalLink, XCircle, Loader2, Copy, CloudOff, RefreshCw, RotateCcw, Timer, Hash } from 'lucide-react';
 import { getSupabaseConfig, saveSupabaseConfig, clearSupabaseConfig, testSupabaseConnection } from '../lib/supabaseClient';
+import { dataService, RecyclableCollection } from '../services/dataService';
+import { createConfiguredBackend } from '../services/backends';
+import { createConfiguredAuth, getSessionSettings, saveSessionSettings } from '../services/auth';
+import { authService } from '../services/authService';
+import { Users } from './Users';
+import { outbox, describeOp, OutboxItem } from '../services/outbox';
+import { CURRENT_SCHEMA_VERSION, SchemaVersionError, migrateData } from '../services/migrations';
+import { formatMoney } from '../services/money';
+import { can } from '../services/permissions';
+import { getInvoiceNumbering, saveInvoiceNumbering, nextInvoiceNumber } from '../services/invoices';
 
 interface SettingsProps {
   data: AppData;
   onImportData: (data: AppData) => void;
   onClearData: () => void;
-  userRole: UserRole;
+  onRestoreDeleted: (collection: RecyclableCollection, id: string) => void;
+  onPurgeDeleted: (collection: RecyclableCollection, id: string) => void;
+  onInviteUser: (user: UserAccount, password?: string) => Promise<void>;
+  onUpdateUser: (user: UserAccount) => void;
+  onResetPassword: (email: string, newPassword?: string) => Promise<void>;
+  user: User;
   refreshData: () => void;
 }
 
-export const Settings: React.FC<SettingsProps> = ({ data, onImportData, onClearData, userRole, refreshData }) => {
+// Mirrors visibleData() and the can() matrix in services/permissions.ts, so a user's own key can't do more than the app lets them.
+// Deactivated users match none of the functions, so they can't read or write anything. Only administrators write clients
+// (and so who is assigned to them), delete, or touch the recycle bin; accountants add and edit records; other staff only read.
+// Only administrators write the user directory; everyone else may only accept their own invitation, keeping the role they were given.
+// The audit log is append-only: every member adds to it, only administrators (who see Activity) read it.
+// Existing policies are dropped first, so running this again upgrades an older setup.
+const SUPABASE_POLICIES_SQL = `create or replace function app_is_member() returns boolean language sql stable security definer as $$
+    select exists (select 1 from profiles where email = lower(auth.email()) and status <> 'DEACTIVATED') $$;
+  create or replace function app_sees_all_clients() returns boolean language sql stable security definer as $$
+    select exists (select 1 from profiles where email = lower(auth.email()) and status <> 'DEACTIVATED' and role in ('ADMIN', 'ACCOUNTANT')) $$;
+  create or replace function app_can_write() returns boolean language sql stable security definer as $$
+    select exists (select 1 from profiles where email = lower(auth.email()) and status <> 'DEACTIVATED' and role in ('ADMIN', 'ACCOUNTANT')) $$;
+  create or replace function app_is_admin() returns boolean language sql stable security definer as $$
+    select exists (select 1 from profiles where email = lower(auth.email()) and status <> 'DEACTIVATED' and role = 'ADMIN') $$;
+  create or replace function app_own_role() returns text language sql stable security definer as $$
+    select role from profiles where email = lower(auth.email()) $$;
+  create or replace function app_sees_client(client_id uuid) returns boolean language sql stable security definer as $$
+    select app_sees_all_clients() or exists (select 1 from clients c where c.id = client_id and lower(auth.email()) = any(c."assignedTo")) $$;
+  create or replace function app_sees_project(project_id uuid) returns boolean language sql stable security definer as $$
+    select app_sees_all_clients() or exists (select 1 from projects p join clients c on c.id = p."clientId" where p.id = project_id and lower(auth.email()) = any(c."assignedTo")) $$;
+
+  alter table clients enable row level security;
+  alter table projects enable row level security;
+  alter table quotes enable row level security;
+  alter table invoices enable row level security;
+  alter table billing_templates enable row level security;
+  alter table payments enable row level security;
+  alter table expenses enable row level security;
+  alter table expense_rules enable row level security;
+  alter table audit_log enable row level security;
+  alter table profiles enable row level security;
+
+  do $$ declare p record; begin
+    for p in select policyname, tablename from pg_policies where schemaname = 'public' and tablename in
+      ('clients', 'projects', 'quotes', 'invoices', 'billing_templates', 'payments', 'expenses', 'expense_rules', 'audit_log', 'profiles') loop
+      execute format('drop policy %I on %I', p.policyname, p.tablename);
+    end loop;
+  end $$;
+
+  create policy clients_read on clients for select to authenticated using (app_sees_client(id));
+  create policy clients_insert on clients for insert to authenticated with check (app_is_admin());
+  create policy clients_update on clients for update to authenticated using (app_is_admin()) with check (app_is_admin());
+  create policy clients_delete on clients for delete to authenticated using (app_is_admin());
+
+  create policy projects_read on projects for select to authenticated using (app_sees_client("clientId"));
+  create policy projects_insert on projects for insert to authenticated with check (app_can_write() and app_sees_client("clientId"));
+  create policy projects_update on projects for update to authenticated
+    using (app_can_write() and app_sees_client("clientId")) with check (app_can_write() and app_sees_client("clientId"));
+  create policy projects_delete on projects for delete to authenticated using (app_is_admin() and app_sees_client("clientId"));
+
+  create policy quotes_read on quotes for select to authenticated using (app_sees_client("clientId"));
+  create policy quotes_insert on quotes for insert to authenticated with check (app_can_write() and app_sees_client("clientId"));
+  create policy quotes_update on quotes for update to authenticated
+    using (app_can_write() and app_sees_client("clientId")) with check (app_can_write() and app_sees_client("clientId"));
+  create policy quotes_delete on quotes for delete to authenticated using (app_is_admin() and app_sees_client("clientId"));
+
+  create policy invoices_read on invoices for select to authenticated using (app_sees_client("clientId"));
+  create policy invoices_insert on invoices for insert to authenticated with check (app_can_write() and app_sees_client("clientId"));
+  create policy invoices_update on invoices for update to authenticated
+    using (app_can_write() and app_sees_client("clientId")) with check (app_can_write() and app_sees_client("clientId"));
+  create policy invoices_delete on invoices for delete to authenticated
+    using (app_sees_client("clientId") and (app_is_admin() or (app_can_write() and status = 'DRAFT')));
+
+  create policy billing_templates_read on billing_templates for select to authenticated using (app_sees_client("clientId"));
+  create policy billing_templates_insert on billing_templates for insert to authenticated with check (app_can_write() and app_sees_client("clientId"));
+  create policy billing_templates_update on billing_templates for update to authenticated
+    using (app_can_write() and app_sees_client("clientId")) with check (app_can_write() and app_sees_client("clientId"));
+  create policy billing_templates_delete on billing_templates for delete to authenticated using (app_is_admin() and app_sees_client("clientId"));
+
+  create policy payments_read on payments for select to authenticated using (app_sees_client("clientId"));
+  create policy payments_insert on payments for insert to authenticated with check (app_can_write() and app_sees_client("clientId") and "deletedAt" is null);
+  create policy payments_update on payments for update to authenticated
+    using (app_sees_client("clientId") and (app_is_admin() or (app_can_write() and "deletedAt" is null)))
+    with check (app_sees_client("clientId") and (app_is_admin() or (app_can_write() and "deletedAt" is null)));
+  create policy payments_delete on payments for delete to authenticated using (app_is_admin() and app_sees_client("clientId"));
+
+  create policy expenses_read on expenses for select to authenticated using (app_sees_project("projectId"));
+  create policy expenses_insert on expenses for insert to authenticated with check (app_can_write() and app_sees_project("projectId") and "deletedAt" is null);
+  create policy expenses_update on expenses for update to authenticated
+    using (app_sees_project("projectId") and (app_is_admin() or (app_can_write() and "deletedAt" is null)))
+    with check (app_sees_project("projectId") and (app_is_admin() or (app_can_write() and "deletedAt" is null)));
+  create policy expenses_delete on expenses for delete to authenticated using (app_is_admin() and app_sees_project("projectId"));
+
+  create policy expense_rules_read on expense_rules for select to authenticated using (app_sees_project("projectId"));
+  create policy expense_rules_insert on expense_rules for insert to authenticated with check (app_can_write() and app_sees_project("projectId"));
+  create policy expense_rules_update on expense_rules for update to authenticated
+    using (app_can_write() and app_sees_project("projectId")) with check (app_can_write() and app_sees_project("projectId"));
+  create policy expense_rules_delete on expense_rules for delete to authenticated using (app_is_admin() and app_sees_project("projectId"));
+
+  create policy audit_log_read on audit_log for select to authenticated using (app_is_admin());
+  create policy audit_log_insert on audit_log for insert to authenticated with check (app_is_member());
+
+  create policy profiles_read on profiles for select to authenticated using (true);
+  create policy profiles_insert on profiles for insert to authenticated with check (app_is_admin());
+  create policy profiles_update on profiles for update to authenticated using (app_is_admin()) with check (app_is_admin());
+  create policy profiles_delete on profiles for delete to authenticated using (app_is_admin());
+  create policy profiles_accept_invitation on profiles for update to authenticated
+    using (email = lower(auth.email()) and status = 'INVITED')
+    with check (email = lower(auth.email()) and status = 'ACTIVE' and role = app_own_role());`;
+
+// Converts a project set up when amounts were stored in taka to integer paisa: money columns become bigint, and the
+// amounts inside allocations, milestones, line items and audit snapshots are scaled too. It records the change in
+// app_settings, which the app checks before using the database, and does nothing when run a second time.
+const SUPABASE_PAISA_SQL = `create table if not exists app_settings ("key" text primary key, "value" text);
+  alter table app_settings enable row level security;
+  drop policy if exists app_settings_read on app_settings;
+  create policy app_settings_read on app_settings for select to authenticated using (true);
+
+  create or replace function app_paisa_field(obj jsonb, field text) returns jsonb language sql immutable as $$
+    select case when jsonb_typeof(obj -> field) = 'number'
+      then jsonb_set(obj, array[field], to_jsonb(round((obj ->> field)::numeric * 100))) else obj end $$;
+  create or replace function app_paisa_list(items jsonb, field text) returns jsonb language sql immutable as $$
+    select case when jsonb_typeof(items) = 'array' then coalesce((select jsonb_agg(app_paisa_field(item, field) order by i)
+      from jsonb_array_elements(items) with ordinality as t(item, i)), '[]'::jsonb) else items end $$;
+  create or replace function app_paisa_items(obj jsonb, list text, field text) returns jsonb language sql immutable as $$
+    select case when jsonb_typeof(obj -> list) = 'array' then jsonb_set(obj, array[list], app_paisa_list(obj -> list, field)) else obj end $$;
+  create or replace function app_paisa_row(entity text, snap jsonb) returns jsonb language sql immutable as $$
+    select case
+      when jsonb_typeof(snap) <> 'object' then snap
+      when entity = 'clients' then app_paisa_field(snap, 'totalBilled')
+      when entity = 'payments' then app_paisa_items(app_paisa_field(snap, 'amount'), 'allocations', 'amount')
+      when entity in ('expenses', 'expenseRules', 'billingTemplates') then app_paisa_field(snap, 'amount')
+      when entity = 'projects' then app_paisa_items(app_paisa_field(snap, 'contractValue'), 'milestones', 'amount')
+      when entity in ('invoices', 'quotes') then app_paisa_items(snap, 'lines', 'rate')
+      else snap end $$;
+
+  do $$ declare c record; begin
+    if exists (select 1 from app_settings where "key" = 'amounts' and "value" = 'paisa') then return; end if;
+    for c in select v.* from (values ('clients', 'totalBilled'), ('payments', 'amount'), ('expenses', 'amount'), ('projects', 'contractValue'),
+      ('billing_templates', 'amount'), ('expense_rules', 'amount')) as v(tbl, col)
+      join information_schema.columns i on i.table_schema = 'public' and i.table_name = v.tbl and i.column_name = v.col loop
+      execute format('alter table %I alter column %I type bigint using round(%I * 100)', c.tbl, c.col, c.col);
+    end loop;
+    for c in select v.* from (values ('payments', 'allocations', 'amount'), ('projects', 'milestones', 'amount'),
+      ('invoices', 'lines', 'rate'), ('quotes', 'lines', 'rate')) as v(tbl, col, field)
+      join information_schema.columns i on i.table_schema = 'public' and i.table_name = v.tbl and i.column_name = v.col loop
+      execute format('update %I set %I = app_paisa_list(%I, %L)', c.tbl, c.col, c.col, c.field);
+    end loop;
+    if to_regclass('public.audit_log') is not null then
+      update audit_log set "before" = app_paisa_row("entityType", "before"), "after" = app_paisa_row("entityType", "after");
+    end if;
+    insert into app_settings ("key", "value") values ('amounts', 'paisa') on conflict ("key") do update set "value" = excluded."value";
+  end $$;`;
+
+export const Settings: React.FC<SettingsProps> = ({ data, onImportData, onClearData, onRestoreDeleted, onPurgeDeleted, onInviteUser, onUpdateUser, onResetPassword, user, refreshData }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const isAdmin = userRole === UserRole.ADMIN;
+  const canConfigureBackend = can(user, 'settings.backend');
   
   // Supabase State
   const [sbUrl, setSbUrl] = useState('');
   const [sbKey, setSbKey] = useState('');
   const [connectionStatus, setConnectionStatus] = useState<'idle' | 'verifying' | 'success' | 'error'>('idle');
   const [errorMessage, setErrorMessage] = useState('');
+  const [outboxItems, setOutboxItems] = useState<OutboxItem[]>(outbox.list());
+  const [sessionSettings, setSessionSettings] = useState(getSessionSettings);
+  const [invoiceNumbering, setInvoiceNumbering] = useState(getInvoiceNumbering);
+
+  useEffect(() => {
+    return outbox.subscribe(() => setOutboxItems(outbox.list()));
+  }, []);
 
   useEffect(() => {
     const checkConnection = async () => {
@@ -56,9 +222,11 @@ export const Settings: React.FC<SettingsProps> = ({ data, onImportData, onClearD
       
       // If successful
       saveSupabaseConfig(sbUrl, sbKey);
+      dataService.setBackend(createConfiguredBackend());
       setConnectionStatus('success');
-      alert('Supabase connected successfully! The app is now synced with the cloud.');
-      refreshData();
+      alert('Supabase connected successfully! Sign in with your Supabase account to continue.');
+      // Cloud accounts replace the ones on this device, which signs the current user out
+      authService.setProvider(createConfiguredAuth());
     } catch (err: any) {
       console.error(err);
       setConnectionStatus('error');
@@ -81,17 +249,18 @@ export const Settings: React.FC<SettingsProps> = ({ data, onImportData, onClearD
   const handleDisconnect = () => {
     if (window.confirm("Disconnect from Supabase? The app will revert to using local storage.")) {
         clearSupabaseConfig();
+        dataService.setBackend(createConfiguredBackend());
         setSbUrl('');
         setSbKey('');
         setConnectionStatus('idle');
         setErrorMessage('');
-        alert('Supabase disconnected. Using local storage.');
-        refreshData();
+        alert('Supabase disconnected. Using local storage. Sign in with an account on this device to continue.');
+        authService.setProvider(createConfiguredAuth());
     }
   };
 
   const handleExport = () => {
-    const dataStr = JSON.stringify(data, null, 2);
+    const dataStr = JSON.stringify({ ...data, schemaVersion: CURRENT_SCHEMA_VERSION }, null, 2);
     const blob = new Blob([dataStr], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
@@ -112,24 +281,88 @@ export const Settings: React.FC<SettingsProps> = ({ data, onImportData, onClearD
 
     const reader = new FileReader();
     reader.onload = (event) => {
+      let imported: AppData;
       try {
-        const json = JSON.parse(event.target?.result as string);
-        if (Array.isArray(json.clients) && Array.isArray(json.payments) && Array.isArray(json.expenses)) {
-          if (window.confirm('This will overwrite your current data with the imported file. Are you sure?')) {
-            onImportData(json);
-            alert('Data imported successfully!');
-          }
+        imported = migrateData(JSON.parse(event.target?.result as string));
+      } catch (err) {
+        if (err instanceof SchemaVersionError) {
+          alert(err.message);
+        } else if (err instanceof SyntaxError) {
+          alert('Error parsing file.');
         } else {
           alert('Invalid file format.');
         }
-      } catch (err) {
-        alert('Error parsing file.');
+        return;
+      }
+      if (window.confirm('This will overwrite your current data with the imported file. Are you sure?')) {
+        onImportData(imported);
       }
     };
     reader.readAsText(file);
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  // Everything queued after a rejected change waits for it to be retried or discarded
+  const firstRejected = outboxItems.findIndex(item => item.failed);
+
+  const handleRetrySync = async (id: string) => {
+    outbox.retry(id);
+    await dataService.syncPending();
+  };
+
+  const handleDiscardSync = (item: OutboxItem) => {
+    if (window.confirm(`Discard "${describeOp(item.op)}"? This change will never reach the cloud database.`)) {
+      outbox.discard(item.id);
+      refreshData();
+    }
+  };
+
+  // Recycle bin: soft-deleted payments and expenses, most recently deleted first
+  const deletedItems = [
+    ...data.payments.filter(p => p.deletedAt).map(p => ({
+      collection: 'payments' as const,
+      id: p.id,
+      deletedAt: p.deletedAt!,
+      date: p.date,
+      label: `${p.type === 'REFUND' ? 'Refund' : 'Payment'} · ${data.clients.find(c => c.id === p.clientId)?.name || 'Unknown Client'}`,
+      amount: p.amount
+    })),
+    ...data.expenses.filter(e => e.deletedAt).map(e => ({
+      collection: 'expenses' as const,
+      id: e.id,
+      deletedAt: e.deletedAt!,
+      date: e.date,
+      label: `Expense · ${e.description}`,
+      amount: e.amount
+    }))
+  ].sort((a, b) => b.deletedAt - a.deletedAt);
+
+  const handlePurge = (collection: RecyclableCollection, id: string) => {
+    if (window.confirm('Permanently delete this item? It cannot be restored afterwards.')) {
+      onPurgeDeleted(collection, id);
+    }
+  };
+
+  const handleSaveSessionSettings = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      saveSessionSettings(sessionSettings);
+      alert('Session settings saved.');
+    } catch (error: any) {
+      alert(error.message);
+    }
+  };
+
+  const handleSaveInvoiceNumbering = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      saveInvoiceNumbering(invoiceNumbering);
+      alert('Invoice numbering saved. It applies to the next invoice sent.');
+    } catch (error: any) {
+      alert(error.message);
+    }
+  };
+
   const handleClearData = () => {
     if (window.confirm('ARE YOU SURE? This will permanently delete ALL data. This action cannot be undone.')) {
       onClearData();
@@ -144,142 +377,363 @@ export const Settings: React.FC<SettingsProps> = ({ data, onImportData, onClearD
       </header>
 
       {/* Cloud Connection */}
-      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
-        <div className="p-6 border-b border-slate-100 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
-          <div>
-            <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2">
-              <Database className="w-5 h-5 text-indigo-600" />
-              Cloud Database (Supabase)
-            </h2>
-            <p className="text-slate-500 text-sm mt-1">
-              Connect to Supabase to persist your data in the cloud.
-            </p>
-          </div>
+      {canConfigureBackend && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="p-6 border-b border-slate-100 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+            <div>
+              <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+                <Database className="w-5 h-5 text-indigo-600" />
+                Cloud Database (Supabase)
+              </h2>
+              <p className="text-slate-500 text-sm mt-1">
+                Connect to Supabase to persist your data in the cloud.
+              </p>
+            </div>
           
-          {connectionStatus === 'success' && (
-            <div className="flex items-center gap-2 px-3 py-1 bg-green-100 text-green-700 rounded-full text-sm font-medium animate-in fade-in">
-              <CheckCircle className="w-4 h-4" />
-              Connected
+            {connectionStatus === 'success' && (
+              <div className="flex items-center gap-2 px-3 py-1 bg-green-100 text-green-700 rounded-full text-sm font-medium animate-in fade-in">
+                <CheckCircle className="w-4 h-4" />
+                Connected
+              </div>
+            )}
+            {connectionStatus === 'error' && (
+              <div className="flex items-center gap-2 px-3 py-1 bg-red-100 text-red-700 rounded-full text-sm font-medium animate-in fade-in">
+                <XCircle className="w-4 h-4" />
+                Connection Failed
+              </div>
+            )}
+             {connectionStatus === 'verifying' && (
+              <div className="flex items-center gap-2 px-3 py-1 bg-yellow-100 text-yellow-800 rounded-full text-sm font-medium animate-in fade-in">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Verifying...
+              </div>
+            )}
+          </div>
+        
+          <div className="p-6 space-y-4">
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-800">
+              <div className="flex items-start gap-2">
+                 <AlertTriangle className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+                 <div>
+                   <span className="font-bold block mb-1">Important: Enable Database Access</span>
+                   By default, Supabase blocks all data access. Do not disable Row Level Security (RLS): run the access policies at the end of the setup below instead.
+                   They give each role the same access on the server as in the app, and keep staff to the clients assigned to them.
+                 </div>
+              </div>
             </div>
-          )}
-          {connectionStatus === 'error' && (
-            <div className="flex items-center gap-2 px-3 py-1 bg-red-100 text-red-700 rounded-full text-sm font-medium animate-in fade-in">
-              <XCircle className="w-4 h-4" />
-              Connection Failed
+          
+             {/* SQL Helper */}
+             <div className="bg-slate-50 border border-slate-200 rounded-lg p-4 text-sm">
+               <div className="flex items-center justify-between mb-2">
+                  <span className="font-bold text-slate-700">Database Setup (Run in Supabase SQL Editor)</span>
+               </div>
+               <p className="text-slate-500 mb-2">If you see errors about "isActive", run this command:</p>
+               <code className="block bg-slate-900 text-green-400 p-2 rounded text-xs overflow-x-auto">
+                 alter table clients add column "isActive" boolean default true;
+               </code>
+               <p className="text-slate-500 mt-3 mb-2">To detect conflicting edits between users, also run:</p>
+               <code className="block bg-slate-900 text-green-400 p-2 rounded text-xs overflow-x-auto whitespace-pre">
+                 {`alter table clients add column "version" integer default 0, add column "updatedAt" bigint;
+  alter table payments add column "version" integer default 0, add column "updatedAt" bigint, add column "deletedAt" bigint;
+  alter table expenses add column "version" integer default 0, add column "updatedAt" bigint, add column "deletedAt" bigint;
+  alter table clients add column "archivedAt" bigint;
+  alter table clients add column "assignedTo" text[] default '{}';`}
+               </code>
+               <p className="text-slate-500 mt-3 mb-2">To see other users' changes live, enable realtime:</p>
+               <code className="block bg-slate-900 text-green-400 p-2 rounded text-xs overflow-x-auto">
+                 alter publication supabase_realtime add table clients, projects, quotes, invoices, billing_templates, payments, expenses, expense_rules;
+               </code>
+               <p className="text-slate-500 mt-3 mb-2">To bill clients with invoices and allocate payments to them, run:</p>
+               <code className="block bg-slate-900 text-green-400 p-2 rounded text-xs overflow-x-auto whitespace-pre">
+                 {`create table invoices (id uuid primary key, "number" text unique, "clientId" uuid, "issueDate" text, "dueDate" text, "lines" jsonb, "taxRate" numeric default 0, "notes" text, "status" text not null default 'DRAFT', "createdAt" bigint, "version" integer default 0, "updatedAt" bigint);
+  alter table payments add column "allocations" jsonb default '[]';`}
+               </code>
+               <p className="text-slate-500 mt-3 mb-2">To track client projects, run:</p>
+               <code className="block bg-slate-900 text-green-400 p-2 rounded text-xs overflow-x-auto whitespace-pre">
+                 {`create table projects (id uuid primary key, "clientId" uuid, "name" text not null, "contractValue" bigint default 0, "startDate" text, "endDate" text, "status" text not null default 'ACTIVE', "createdAt" bigint, "version" integer default 0, "updatedAt" bigint);
+  alter table payments add column "projectId" uuid;
+  alter table expenses add column "projectId" uuid;
+  alter table projects add column "milestones" jsonb default '[]';
+  alter table invoices add column "projectId" uuid;`}
+               </code>
+               <p className="text-slate-500 mt-3 mb-2">To send quotations before work is won, run:</p>
+               <code className="block bg-slate-900 text-green-400 p-2 rounded text-xs overflow-x-auto whitespace-pre">
+                 {`create table quotes (id uuid primary key, "number" text unique, "clientId" uuid, "title" text not null, "issueDate" text, "validUntil" text, "lines" jsonb, "taxRate" numeric default 0, "notes" text, "status" text not null default 'DRAFT', "respondedAt" text, "invoiceId" uuid, "projectId" uuid, "createdAt" bigint, "version" integer default 0, "updatedAt" bigint);`}
+               </code>
+               <p className="text-slate-500 mt-3 mb-2">To bill retainers and hosting plans automatically, run:</p>
+               <code className="block bg-slate-900 text-green-400 p-2 rounded text-xs overflow-x-auto whitespace-pre">
+                 {`create table billing_templates (id uuid primary key, "clientId" uuid, "projectId" uuid, "description" text not null, "amount" bigint default 0, "taxRate" numeric default 0, "dueDays" integer, "frequency" text not null default 'MONTHLY', "startDate" text, "endDate" text, "nextDate" text, "paused" boolean default false, "createdAt" bigint, "version" integer default 0, "updatedAt" bigint);
+  alter table invoices add column "billingTemplateId" uuid;`}
+               </code>
+               <p className="text-slate-500 mt-3 mb-2">To post rent, salaries and other recurring expenses automatically, run:</p>
+               <code className="block bg-slate-900 text-green-400 p-2 rounded text-xs overflow-x-auto whitespace-pre">
+                 {`create table expense_rules (id uuid primary key, "category" text not null, "amount" bigint default 0, "description" text, "projectId" uuid, "frequency" text not null default 'MONTHLY', "dayOfMonth" integer, "startDate" text, "endDate" text, "nextDate" text, "skipDates" jsonb default '[]', "paused" boolean default false, "createdAt" bigint, "version" integer default 0, "updatedAt" bigint);
+  alter table expenses add column "recurringRuleId" uuid;`}
+               </code>
+               <p className="text-slate-500 mt-3 mb-2">To keep the activity log in the cloud, create the audit table:</p>
+               <code className="block bg-slate-900 text-green-400 p-2 rounded text-xs overflow-x-auto whitespace-pre">
+                 {`create table audit_log (id uuid primary key, "at" bigint, "userEmail" text, "userName" text, "action" text, "entityType" text, "entityId" text, "before" jsonb, "after" jsonb);`}
+               </code>
+               <p className="text-slate-500 mt-3 mb-2">Sign-in uses Supabase Auth. Create the user directory and your own administrator entry (use your Supabase Auth email), then invite everyone else from Users below:</p>
+               <code className="block bg-slate-900 text-green-400 p-2 rounded text-xs overflow-x-auto whitespace-pre">
+                 {`create table profiles (id uuid primary key, "email" text unique not null, "name" text, "role" text not null default 'VIEWER', "status" text not null default 'INVITED', "createdAt" bigint, "invitedBy" text, "version" integer default 0, "updatedAt" bigint);
+  insert into profiles (id, email, name, role, status) values (gen_random_uuid(), 'you@example.com', 'Your Name', 'ADMIN', 'ACTIVE');`}
+               </code>
+               <p className="text-slate-500 mt-3 mb-2">Amounts are stored as whole paisa. Once every device has the latest version of the app, run this once to convert the tables above (new projects need it too; running it again does nothing):</p>
+               <code className="block bg-slate-900 text-green-400 p-2 rounded text-xs overflow-x-auto whitespace-pre">
+                 {SUPABASE_PAISA_SQL}
+               </code>
+               <p className="text-slate-500 mt-3 mb-2">Finally, apply the access policies. Admins and accountants see every client; other users only see clients assigned to them and those clients' records, and can't change anything:</p>
+               <code className="block bg-slate-900 text-green-400 p-2 rounded text-xs overflow-x-auto whitespace-pre">
+                 {SUPABASE_POLICIES_SQL}
+               </code>
             </div>
-          )}
-           {connectionStatus === 'verifying' && (
-            <div className="flex items-center gap-2 px-3 py-1 bg-yellow-100 text-yellow-800 rounded-full text-sm font-medium animate-in fade-in">
-              <Loader2 className="w-4 h-4 animate-spin" />
-              Verifying...
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Project URL</label>
+              <input 
+                type="text" 
+                className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none font-mono text-sm ${connectionStatus === 'error' ? 'border-red-300 bg-red-50' : 'border-slate-300'}`}
+                placeholder="https://xyz.supabase.co"
+                value={sbUrl}
+                onChange={e => setSbUrl(e.target.value)}
+              />
             </div>
-          )}
-        </div>
-        
-        <div className="p-6 space-y-4">
-          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-800">
-            <div className="flex items-start gap-2">
-               <AlertTriangle className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
-               <div>
-                 <span className="font-bold block mb-1">Important: Enable Database Access</span>
-                 By default, Supabase blocks all data writing. You MUST disable Row Level Security (RLS) for this app to work:
-                 <ol className="list-decimal ml-4 mt-2 space-y-1">
-                   <li>Go to your <strong>Supabase Dashboard</strong> &gt; <strong>Authentication</strong> &gt; <strong>Policies</strong>.</li>
-                   <li>For the <code>clients</code>, <code>expenses</code>, and <code>payments</code> tables, click <strong>"Disable RLS"</strong>.</li>
-                 </ol>
-               </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1 flex items-center justify-between">
+                Anon Public Key
+                <span className="text-xs font-normal text-slate-400">
+                  (Found under "Project API keys" - use the 'anon' key)
+                </span>
+              </label>
+              <input 
+                type="password" 
+                className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none font-mono text-sm ${connectionStatus === 'error' ? 'border-red-300 bg-red-50' : 'border-slate-300'}`}
+                placeholder="eyJh..."
+                value={sbKey}
+                onChange={e => setSbKey(e.target.value)}
+              />
             </div>
-          </div>
           
-           {/* SQL Helper */}
-           <div className="bg-slate-50 border border-slate-200 rounded-lg p-4 text-sm">
-             <div className="flex items-center justify-between mb-2">
-                <span className="font-bold text-slate-700">Database Setup (Run in Supabase SQL Editor)</span>
-             </div>
-             <p className="text-slate-500 mb-2">If you see errors about "isActive", run this command:</p>
-             <code className="block bg-slate-900 text-green-400 p-2 rounded text-xs overflow-x-auto">
-               alter table clients add column "isActive" boolean default true;
-             </code>
-          </div>
+            {connectionStatus !== 'success' && (
+              <div className="p-4 bg-indigo-50 text-indigo-800 text-xs rounded-lg flex gap-2">
+                 <ExternalLink className="w-4 h-4 flex-shrink-0" />
+                 <div>
+                   <p className="font-semibold mb-1">How to verify connection:</p>
+                   <p>
+                     1. Enter credentials and click "Connect".<br/>
+                     2. If it says "Connected", try adding a client in the app.<br/>
+                     3. Check your Supabase Dashboard &gt; Table Editor to see if the data appears.
+                   </p>
+                   <p className="mt-2 text-indigo-600">
+                     <strong>Tip:</strong> Ensure you ran the SQL script to create tables.
+                   </p>
+                 </div>
+              </div>
+            )}
 
-          <div>
-            <label className="block text-sm font-medium text-slate-700 mb-1">Project URL</label>
-            <input 
-              type="text" 
-              className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none font-mono text-sm ${connectionStatus === 'error' ? 'border-red-300 bg-red-50' : 'border-slate-300'}`}
-              placeholder="https://xyz.supabase.co"
-              value={sbUrl}
-              onChange={e => setSbUrl(e.target.value)}
-            />
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-slate-700 mb-1 flex items-center justify-between">
-              Anon Public Key
-              <span className="text-xs font-normal text-slate-400">
-                (Found under "Project API keys" - use the 'anon' key)
-              </span>
-            </label>
-            <input 
-              type="password" 
-              className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none font-mono text-sm ${connectionStatus === 'error' ? 'border-red-300 bg-red-50' : 'border-slate-300'}`}
-              placeholder="eyJh..."
-              value={sbKey}
-              onChange={e => setSbKey(e.target.value)}
-            />
-          </div>
-          
-          {connectionStatus !== 'success' && (
-            <div className="p-4 bg-indigo-50 text-indigo-800 text-xs rounded-lg flex gap-2">
-               <ExternalLink className="w-4 h-4 flex-shrink-0" />
-               <div>
-                 <p className="font-semibold mb-1">How to verify connection:</p>
-                 <p>
-                   1. Enter credentials and click "Connect".<br/>
-                   2. If it says "Connected", try adding a client in the app.<br/>
-                   3. Check your Supabase Dashboard &gt; Table Editor to see if the data appears.
-                 </p>
-                 <p className="mt-2 text-indigo-600">
-                   <strong>Tip:</strong> Ensure you ran the SQL script to create tables.
-                 </p>
+            {errorMessage && (
+               <div className="p-3 bg-red-50 text-red-700 text-sm rounded-lg border border-red-100">
+                  <strong>Error:</strong> {errorMessage}
                </div>
-            </div>
-          )}
-
-          {errorMessage && (
-             <div className="p-3 bg-red-50 text-red-700 text-sm rounded-lg border border-red-100">
-                <strong>Error:</strong> {errorMessage}
-             </div>
-          )}
+            )}
 
-          <div className="flex justify-end gap-3 pt-2">
-            {connectionStatus === 'success' && (
+            <div className="flex justify-end gap-3 pt-2">
+              {connectionStatus === 'success' && (
+                <button 
+                  onClick={handleDisconnect}
+                  className="px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg font-medium text-sm transition-colors"
+                >
+                  Disconnect
+                </button>
+              )}
               <button 
-                onClick={handleDisconnect}
-                className="px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg font-medium text-sm transition-colors"
+                onClick={handleSaveConfig}
+                disabled={connectionStatus === 'verifying'}
+                className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-medium text-sm transition-colors disabled:opacity-70"
               >
-                Disconnect
+                {connectionStatus === 'verifying' ? (
+                    <>
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      Testing...
+                    </>
+                ) : (
+                    <>
+                      <Save className="w-4 h-4" />
+                      {connectionStatus === 'success' ? 'Update Connection' : 'Connect'}
+                    </>
+                )}
               </button>
-            )}
-            <button 
-              onClick={handleSaveConfig}
-              disabled={connectionStatus === 'verifying'}
-              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-medium text-sm transition-colors disabled:opacity-70"
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Offline Outbox */}
+      {outboxItems.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-amber-200 overflow-hidden">
+          <div className="p-6 border-b border-slate-100">
+            <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+              <CloudOff className="w-5 h-5 text-amber-600" />
+              Pending Sync
+            </h2>
+            <p className="text-slate-500 text-sm mt-1">
+              Changes recorded while offline. They are sent to the cloud in order when the connection returns.
+              A rejected change holds back the ones after it until you retry or discard it.
+            </p>
+          </div>
+          <ul className="divide-y divide-slate-100">
+            {outboxItems.map((item, index) => (
+              <li key={item.id} className="p-4 flex items-center justify-between gap-4 text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium text-slate-900">{describeOp(item.op)}</p>
+                  <p className="text-xs text-slate-500">
+                    Queued {new Date(item.queuedAt).toLocaleString()}
+                    {item.attempts > 0 && ` · ${item.attempts} attempt(s)`}
+                  </p>
+                  {item.lastError && (
+                    <p className={`text-xs mt-1 truncate ${item.failed ? 'text-red-600' : 'text-slate-400'}`}>
+                      {item.failed ? 'Rejected: ' : 'Last error: '}{item.lastError}
+                    </p>
+                  )}
+                </div>
+                {item.failed ? (
+                  <div className="flex gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => handleRetrySync(item.id)}
+                      className="flex items-center gap-1 px-3 py-1.5 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-xs font-medium"
+                    >
+                      <RefreshCw className="w-3 h-3" />
+                      Retry
+                    </button>
+                    <button
+                      onClick={() => handleDiscardSync(item)}
+                      className="px-3 py-1.5 text-red-600 hover:bg-red-50 rounded-lg text-xs font-medium"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                ) : firstRejected >= 0 && index > firstRejected ? (
+                  <div className="flex gap-2 items-center flex-shrink-0">
+                    <span className="text-xs font-medium text-red-700 bg-red-50 px-2 py-1 rounded-full">Held back</span>
+                    <button
+                      onClick={() => handleDiscardSync(item)}
+                      className="px-3 py-1.5 text-red-600 hover:bg-red-50 rounded-lg text-xs font-medium"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                ) : (
+                  <span className="text-xs font-medium text-amber-700 bg-amber-50 px-2 py-1 rounded-full flex-shrink-0">Waiting</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Session Security */}
+      {can(user, 'settings.security') && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="p-6 border-b border-slate-100">
+            <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+              <Timer className="w-5 h-5 text-blue-600" />
+              Session Security
+            </h2>
+            <p className="text-slate-500 text-sm mt-1">
+              Applies to everyone who signs in on this device.
+            </p>
+          </div>
+          <form onSubmit={handleSaveSessionSettings} className="p-6 grid gap-4 md:grid-cols-3 items-end">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Lock after idle (minutes)</label>
+              <input
+                type="number"
+                min="0"
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                value={sessionSettings.idleMinutes}
+                onChange={e => setSessionSettings({ ...sessionSettings, idleMinutes: Number(e.target.value) })}
+              />
+              <p className="text-xs text-slate-400 mt-1">0 never locks</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Sign out after (hours)</label>
+              <input
+                type="number"
+                min="1"
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                value={sessionSettings.maxSessionHours}
+                onChange={e => setSessionSettings({ ...sessionSettings, maxSessionHours: Number(e.target.value) })}
+              />
+              <p className="text-xs text-slate-400 mt-1">Counted from sign-in, even while active</p>
+            </div>
+            <button
+              type="submit"
+              className="flex items-center justify-center gap-2 py-2 px-4 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium shadow-sm mb-5"
             >
-              {connectionStatus === 'verifying' ? (
-                  <>
-                    <Loader2 className="w-4 h-4 animate-spin" />
-                    Testing...
-                  </>
-              ) : (
-                  <>
-                    <Save className="w-4 h-4" />
-                    {connectionStatus === 'success' ? 'Update Connection' : 'Connect'}
-                  </>
-              )}
+              <Save className="w-4 h-4" />
+              Save
             </button>
+          </form>
+        </div>
+      )}
+
+      {/* Invoice Numbering */}
+      {can(user, 'settings.invoicing') && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="p-6 border-b border-slate-100">
+            <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+              <Hash className="w-5 h-5 text-blue-600" />
+              Invoice Numbering
+            </h2>
+            <p className="text-slate-500 text-sm mt-1">
+              Numbers are given when an invoice is sent and continue from the highest number already used.
+              Quotes use the same digits and year setting in their own QT series.
+              Saved on this device only: set the same format on every device that sends invoices.
+              Next: <span className="font-mono text-slate-700">{nextInvoiceNumber(data.invoices, new Date().toISOString().split('T')[0], invoiceNumbering)}</span>
+            </p>
           </div>
+          <form onSubmit={handleSaveInvoiceNumbering} className="p-6 grid gap-4 md:grid-cols-4 items-end">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Prefix</label>
+              <input
+                type="text"
+                required
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none font-mono uppercase"
+                value={invoiceNumbering.prefix}
+                onChange={e => setInvoiceNumbering({ ...invoiceNumbering, prefix: e.target.value.toUpperCase() })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Digits</label>
+              <input
+                type="number"
+                min="1"
+                max="8"
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                value={invoiceNumbering.digits}
+                onChange={e => setInvoiceNumbering({ ...invoiceNumbering, digits: Number(e.target.value) })}
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-slate-700 py-2">
+              <input
+                type="checkbox"
+                className="rounded border-slate-300"
+                checked={invoiceNumbering.yearly}
+                onChange={e => setInvoiceNumbering({ ...invoiceNumbering, yearly: e.target.checked })}
+              />
+              Include year, restart each year
+            </label>
+            <button
+              type="submit"
+              className="flex items-center justify-center gap-2 py-2 px-4 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium shadow-sm"
+            >
+              <Save className="w-4 h-4" />
+              Save
+            </button>
+          </form>
         </div>
-      </div>
+      )}
 
       {/* Local Data Management */}
       <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
@@ -304,7 +758,8 @@ export const Settings: React.FC<SettingsProps> = ({ data, onImportData, onClearD
             </div>
             <button 
               onClick={handleExport}
-              className="w-full py-2 px-4 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 rounded-lg text-sm font-medium transition-colors shadow-sm"
+              disabled={!can(user, 'data.export')}
+              className="w-full py-2 px-4 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 rounded-lg text-sm font-medium transition-colors shadow-sm disabled:opacity-50"
             >
               Download JSON
             </button>
@@ -327,7 +782,7 @@ export const Settings: React.FC<SettingsProps> = ({ data, onImportData, onClearD
             />
             <button 
               onClick={handleImportClick}
-              disabled={!isAdmin}
+              disabled={!can(user, 'data.import')}
               className="w-full py-2 px-4 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 rounded-lg text-sm font-medium transition-colors shadow-sm disabled:opacity-50"
             >
               Upload JSON
@@ -336,8 +791,66 @@ export const Settings: React.FC<SettingsProps> = ({ data, onImportData, onClearD
         </div>
       </div>
 
+      {/* Users */}
+      {can(user, 'users.manage') && (
+        <Users
+          users={data.users}
+          currentUserEmail={user.email}
+          authKind={authService.getKind()}
+          onInviteUser={onInviteUser}
+          onUpdateUser={onUpdateUser}
+          onResetPassword={onResetPassword}
+        />
+      )}
+
+      {/* Recycle Bin */}
+      {can(user, 'recycleBin.manage') && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="p-6 border-b border-slate-100">
+            <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+              <Trash2 className="w-5 h-5 text-slate-600" />
+              Recycle Bin
+            </h2>
+            <p className="text-slate-500 text-sm mt-1">
+              Deleted payments and expenses are kept here and excluded from all totals until restored or permanently deleted.
+            </p>
+          </div>
+          {deletedItems.length === 0 ? (
+            <p className="p-6 text-sm text-slate-400 text-center">The recycle bin is empty.</p>
+          ) : (
+            <ul className="divide-y divide-slate-100">
+              {deletedItems.map(item => (
+                <li key={item.id} className="p-4 flex items-center justify-between gap-4 text-sm">
+                  <div className="min-w-0">
+                    <p className="font-medium text-slate-900 truncate">{item.label}</p>
+                    <p className="text-xs text-slate-500">
+                      {item.date} · {formatMoney(item.amount)} · Deleted {new Date(item.deletedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => onRestoreDeleted(item.collection, item.id)}
+                      className="flex items-center gap-1 px-3 py-1.5 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-xs font-medium"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                      Restore
+                    </button>
+                    <button
+                      onClick={() => handlePurge(item.collection, item.id)}
+                      className="px-3 py-1.5 text-red-600 hover:bg-red-50 rounded-lg text-xs font-medium"
+                    >
+                      Delete Forever
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       {/* Danger Zone */}
-      {isAdmin && (
+      {can(user, 'data.clear') && (
         <div className="bg-white rounded-xl shadow-sm border border-red-100 overflow-hidden">
           <div className="p-6 bg-red-50/50 flex items-center justify-between">
             <div>
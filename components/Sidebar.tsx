@@ -1,7 +1,8 @@
 
 import React from 'react';
-import { LayoutDashboard, Users, Receipt, PieChart, LogOut, Settings, CreditCard, FileBarChart } from 'lucide-react';
-import { ViewState, User, UserRole } from '../types';
+import { LayoutDashboard, Users, Receipt, PieChart, LogOut, Settings, CreditCard, FileBarChart, RefreshCw, CloudOff, History, KeyRound, FileText, FileSignature } from 'lucide-react';
+import { ViewState, User } from '../types';
+import { can } from '../services/permissions';
 
 interface SidebarProps {
   currentView: ViewState;
@@ -10,18 +11,28 @@ interface SidebarProps {
   setIsMobileOpen: (isOpen: boolean) => void;
   user: User;
   onLogout: () => void;
+  onChangePassword: () => void;
+  syncStatus: { pending: number; failed: number };
+  isSyncing: boolean;
+  onSync: () => void;
+  badges?: Partial<Record<ViewState, number>>; // Items waiting for attention, shown beside the menu item
 }
 
-export const Sidebar: React.FC<SidebarProps> = ({ currentView, setView, isMobileOpen, setIsMobileOpen, user, onLogout }) => {
+export const Sidebar: React.FC<SidebarProps> = ({ currentView, setView, isMobileOpen, setIsMobileOpen, user, onLogout, onChangePassword, syncStatus, isSyncing, onSync, badges = {} }) => {
   const navItems = [
     { id: ViewState.DASHBOARD, label: 'Dashboard', icon: LayoutDashboard },
     { id: ViewState.CLIENTS, label: 'Clients', icon: Users },
+    { id: ViewState.QUOTES, label: 'Quotes', icon: FileSignature },
+    { id: ViewState.INVOICES, label: 'Invoices', icon: FileText },
     { id: ViewState.PAYMENTS, label: 'Payments', icon: CreditCard },
     { id: ViewState.EXPENSES, label: 'Expenses', icon: Receipt },
     { id: ViewState.REPORTS, label: 'Reports', icon: FileBarChart },
   ];
 
-  if (user.role === UserRole.ADMIN) {
+  if (can(user, 'activity.view')) {
+    navItems.push({ id: ViewState.ACTIVITY, label: 'Activity', icon: History });
+  }
+  if (can(user, 'settings.view')) {
     navItems.push({ id: ViewState.SETTINGS, label: 'Settings', icon: Settings });
   }
 
@@ -73,10 +84,37 @@ export const Sidebar: React.FC<SidebarProps> = ({ currentView, setView, isMobile
               >
                 <item.icon className="w-5 h-5" />
                 {item.label}
+                {!!badges[item.id] && (
+                  <span className="ml-auto min-w-[1.25rem] px-1.5 py-0.5 rounded-full bg-amber-500 text-white text-xs font-semibold text-center">
+                    {badges[item.id]}
+                  </span>
+                )}
               </button>
             ))}
           </nav>
 
+          {(syncStatus.pending > 0 || syncStatus.failed > 0) && (
+            <div className="mx-4 mb-4 p-3 rounded-lg bg-slate-800 text-xs">
+              <div className="flex items-center justify-between gap-2">
+                <span className="flex items-center gap-2 text-amber-300 font-medium">
+                  <CloudOff className="w-4 h-4" />
+                  {syncStatus.pending} pending sync
+                </span>
+                <button
+                  onClick={onSync}
+                  disabled={isSyncing || syncStatus.pending === 0}
+                  className="p-1 rounded text-slate-300 hover:bg-slate-700 hover:text-white disabled:opacity-50"
+                  title="Sync now"
+                >
+                  <RefreshCw className={`w-4 h-4 ${isSyncing ? 'animate-spin' : ''}`} />
+                </button>
+              </div>
+              {syncStatus.failed > 0 && (
+                <p className="mt-1 text-red-400">{syncStatus.failed} failed — review in Settings</p>
+              )}
+            </div>
+          )}
+
           <div className="p-6 border-t border-slate-800">
             <div className="flex items-center gap-3 mb-4">
               <div className="w-10 h-10 rounded-full bg-slate-700 flex items-center justify-center text-slate-300 font-bold">
@@ -86,6 +124,13 @@ export const Sidebar: React.FC<SidebarProps> = ({ currentView, setView, isMobile
                 <p className="text-sm font-medium text-white truncate">{user.name}</p>
                 <p className="text-xs text-slate-500 truncate capitalize">{user.role.toLowerCase()}</p>
               </div>
+              <button
+                onClick={onChangePassword}
+                className="p-2 rounded-lg text-slate-500 hover:bg-slate-800 hover:text-slate-300 transition-colors"
+                title="Change Password"
+              >
+                <KeyRound className="w-4 h-4" />
+              </button>
             </div>
             <button 
               onClick={onLogout}
@@ -0,0 +1,312 @@
+
+import React, { useState } from 'react';
+import { UserAccount, UserRole, UserStatus } from '../types';
+import { UserPlus, X, KeyRound, Ban, CheckCircle, Loader2, Users as UsersIcon } from 'lucide-react';
+import { AuthKind, MIN_PASSWORD_LENGTH, normalizeEmail } from '../services/auth';
+
+interface UsersProps {
+  users: UserAccount[];
+  currentUserEmail: string;
+  authKind: AuthKind;
+  onInviteUser: (user: UserAccount, password?: string) => Promise<void>;
+  onUpdateUser: (user: UserAccount) => void;
+  onResetPassword: (email: string, newPassword?: string) => Promise<void>;
+}
+
+const STATUS_STYLES: Record<UserStatus, string> = {
+  INVITED: 'bg-amber-50 text-amber-700 border-amber-200',
+  ACTIVE: 'bg-green-50 text-green-700 border-green-200',
+  DEACTIVATED: 'bg-slate-100 text-slate-500 border-slate-200'
+};
+
+const ROLES = Object.values(UserRole);
+
+const formatRole = (role: string) => role.charAt(0) + role.slice(1).toLowerCase();
+
+export const Users: React.FC<UsersProps> = ({ users, currentUserEmail, authKind, onInviteUser, onUpdateUser, onResetPassword }) => {
+  const [isInviteOpen, setIsInviteOpen] = useState(false);
+  const [invite, setInvite] = useState({ name: '', email: '', role: UserRole.VIEWER, password: '' });
+  const [resetTarget, setResetTarget] = useState<UserAccount | null>(null);
+  const [newPassword, setNewPassword] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isLocal = authKind === 'local';
+  const sortedUsers = [...users].sort((a, b) => a.name.localeCompare(b.name));
+
+  // Someone has to be able to manage users afterwards
+  const isLastAdmin = (user: UserAccount) =>
+    user.role === UserRole.ADMIN && users.filter(u => u.role === UserRole.ADMIN && u.status !== 'DEACTIVATED').length <= 1;
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const email = normalizeEmail(invite.email);
+    if (users.some(u => u.email === email)) {
+      alert(`${email} is already in the user list.`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onInviteUser({
+        id: crypto.randomUUID(),
+        email,
+        name: invite.name.trim() || email,
+        role: invite.role,
+        status: 'INVITED',
+        createdAt: Date.now(),
+        invitedBy: currentUserEmail
+      }, isLocal ? invite.password : undefined);
+      setIsInviteOpen(false);
+      setInvite({ name: '', email: '', role: UserRole.VIEWER, password: '' });
+      if (!isLocal) alert(`An invitation email has been sent to ${email}.`);
+    } catch (error: any) {
+      alert(error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRoleChange = (user: UserAccount, role: UserRole) => {
+    if (role !== UserRole.ADMIN && isLastAdmin(user)) {
+      alert('At least one active administrator is required.');
+      return;
+    }
+    onUpdateUser({ ...user, role });
+  };
+
+  const handleToggleActive = (user: UserAccount) => {
+    if (user.status === 'DEACTIVATED') {
+      onUpdateUser({ ...user, status: 'ACTIVE' });
+      return;
+    }
+    if (isLastAdmin(user)) {
+      alert('At least one active administrator is required.');
+      return;
+    }
+    if (window.confirm(`Deactivate ${user.name}? They will be signed out and unable to sign in until reactivated.`)) {
+      onUpdateUser({ ...user, status: 'DEACTIVATED' });
+    }
+  };
+
+  const handleResetPassword = async (user: UserAccount) => {
+    if (isLocal) {
+      setNewPassword('');
+      setResetTarget(user);
+      return;
+    }
+    if (!window.confirm(`Email ${user.email} a link to set a new password?`)) return;
+    try {
+      await onResetPassword(user.email);
+      alert(`A password reset email has been sent to ${user.email}.`);
+    } catch (error: any) {
+      alert(error.message);
+    }
+  };
+
+  const handleSetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!resetTarget) return;
+    setIsSaving(true);
+    try {
+      await onResetPassword(resetTarget.email, newPassword);
+      alert(`The password for ${resetTarget.name} has been reset.`);
+      setResetTarget(null);
+    } catch (error: any) {
+      alert(error.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-6 border-b border-slate-100 flex justify-between items-start gap-4">
+        <div>
+          <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+            <UsersIcon className="w-5 h-5 text-slate-600" />
+            Users
+          </h2>
+          <p className="text-slate-500 text-sm mt-1">
+            {isLocal
+              ? 'Accounts that can sign in on this device.'
+              : 'Accounts that can sign in to the cloud database. Invitations are sent by email.'}
+          </p>
+        </div>
+        <button
+          onClick={() => setIsInviteOpen(true)}
+          className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors shadow-sm"
+        >
+          <UserPlus className="w-4 h-4" />
+          Invite User
+        </button>
+      </div>
+
+      <ul className="divide-y divide-slate-100">
+        {sortedUsers.map(user => {
+          const isSelf = user.email === currentUserEmail;
+          return (
+            <li key={user.id} className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3 text-sm">
+              <div className="min-w-0">
+                <p className="font-medium text-slate-900 truncate">
+                  {user.name} {isSelf && <span className="text-xs text-slate-400">(you)</span>}
+                </p>
+                <p className="text-xs text-slate-500 truncate">{user.email}</p>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium border ${STATUS_STYLES[user.status]}`}>
+                  {formatRole(user.status)}
+                </span>
+                <select
+                  value={user.role}
+                  disabled={isSelf}
+                  onChange={e => handleRoleChange(user, e.target.value as UserRole)}
+                  className="px-2 py-1 border border-slate-300 rounded-lg text-xs bg-white disabled:opacity-60"
+                  title={isSelf ? 'You cannot change your own role' : 'Role'}
+                >
+                  {ROLES.map(role => (
+                    <option key={role} value={role}>{formatRole(role)}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => handleResetPassword(user)}
+                  className="p-2 rounded-lg text-slate-400 hover:bg-slate-100 hover:text-slate-700 transition-colors"
+                  title="Reset Password"
+                >
+                  <KeyRound className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleToggleActive(user)}
+                  disabled={isSelf}
+                  className={`p-2 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${
+                    user.status === 'DEACTIVATED' ? 'text-green-600 hover:bg-green-50' : 'text-slate-400 hover:bg-red-50 hover:text-red-600'
+                  }`}
+                  title={user.status === 'DEACTIVATED' ? 'Reactivate' : 'Deactivate'}
+                >
+                  {user.status === 'DEACTIVATED' ? <CheckCircle className="w-4 h-4" /> : <Ban className="w-4 h-4" />}
+                </button>
+              </div>
+            </li>
+          );
+        })}
+        {sortedUsers.length === 0 && (
+          <li className="p-6 text-sm text-slate-400 text-center">No users yet.</li>
+        )}
+      </ul>
+
+      {/* Invite Modal */}
+      {isInviteOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-xl w-full max-w-md overflow-hidden animate-in fade-in zoom-in duration-200">
+            <div className="flex justify-between items-center p-6 border-b border-slate-100">
+              <h2 className="text-xl font-bold text-slate-900">Invite User</h2>
+              <button onClick={() => setIsInviteOpen(false)} className="text-slate-400 hover:text-slate-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+            <form onSubmit={handleInvite} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Full Name *</label>
+                <input
+                  required
+                  type="text"
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                  value={invite.name}
+                  onChange={e => setInvite({ ...invite, name: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Email *</label>
+                <input
+                  required
+                  type="email"
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                  value={invite.email}
+                  onChange={e => setInvite({ ...invite, email: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Role</label>
+                <select
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+                  value={invite.role}
+                  onChange={e => setInvite({ ...invite, role: e.target.value as UserRole })}
+                >
+                  {ROLES.map(role => (
+                    <option key={role} value={role}>{formatRole(role)}</option>
+                  ))}
+                </select>
+              </div>
+              {isLocal && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Starting Password *</label>
+                  <input
+                    required
+                    type="password"
+                    autoComplete="new-password"
+                    minLength={MIN_PASSWORD_LENGTH}
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                    value={invite.password}
+                    onChange={e => setInvite({ ...invite, password: e.target.value })}
+                  />
+                  <p className="text-xs text-slate-400 mt-1">Share it with them privately; they can change it after signing in.</p>
+                </div>
+              )}
+              <div className="pt-4 flex justify-end gap-3">
+                <button type="button" onClick={() => setIsInviteOpen(false)} className="px-4 py-2 text-slate-700 hover:bg-slate-100 rounded-lg font-medium">
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="flex items-center gap-2 px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium shadow-sm disabled:opacity-70"
+                >
+                  {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                  {isLocal ? 'Create Account' : 'Send Invitation'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Local Password Reset */}
+      {resetTarget && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+          <div className="bg-white rounded-2xl shadow-xl w-full max-w-sm overflow-hidden animate-in fade-in zoom-in duration-200">
+            <div className="flex justify-between items-center p-6 border-b border-slate-100">
+              <h2 className="text-xl font-bold text-slate-900">Reset Password</h2>
+              <button onClick={() => setResetTarget(null)} className="text-slate-400 hover:text-slate-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+            <form onSubmit={handleSetPassword} className="p-6 space-y-4">
+              <p className="text-sm text-slate-600">Set a new password for <span className="font-medium">{resetTarget.name}</span>.</p>
+              <input
+                required
+                type="password"
+                autoComplete="new-password"
+                minLength={MIN_PASSWORD_LENGTH}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                value={newPassword}
+                onChange={e => setNewPassword(e.target.value)}
+              />
+              <div className="pt-2 flex justify-end gap-3">
+                <button type="button" onClick={() => setResetTarget(null)} className="px-4 py-2 text-slate-700 hover:bg-slate-100 rounded-lg font-medium">
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="flex items-center gap-2 px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium shadow-sm disabled:opacity-70"
+                >
+                  {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                  Set Password
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
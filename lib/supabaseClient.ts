@@ -1,4 +1,4 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
 
 const STORAGE_KEY_URL = 'biztrack_sb_url';
 const STORAGE_KEY_KEY = 'biztrack_sb_key';
@@ -19,10 +19,16 @@ export const clearSupabaseConfig = () => {
   localStorage.removeItem(STORAGE_KEY_KEY);
 };
 
+// One client per configuration, so the signed-in session is shared by auth and data queries
+let cached: { url: string; key: string; client: SupabaseClient } | null = null;
+
 export const getSupabaseClient = () => {
   const { url, key } = getSupabaseConfig();
   if (url && key) {
-    return createClient(url, key);
+    if (!cached || cached.url !== url || cached.key !== key) {
+      cached = { url, key, client: createClient(url, key) };
+    }
+    return cached.client;
   }
   return null;
 };
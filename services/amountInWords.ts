@@ -0,0 +1,77 @@
+import { Money, PAISA_PER_TAKA } from './money';
+
+// Spells out taka amounts for invoices and money receipts, using the lakh/crore grouping
+// that Bangladeshi cheques and receipts use.
+
+const ENGLISH_ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'
+];
+const ENGLISH_TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+// Bangla number names below 100 don't follow a pattern, so they are listed in full
+const BANGLA_UNDER_100 = [
+  'শূন্য', 'এক', 'দুই', 'তিন', 'চার', 'পাঁচ', 'ছয়', 'সাত', 'আট', 'নয়',
+  'দশ', 'এগারো', 'বারো', 'তেরো', 'চৌদ্দ', 'পনেরো', 'ষোলো', 'সতেরো', 'আঠারো', 'উনিশ',
+  'বিশ', 'একুশ', 'বাইশ', 'তেইশ', 'চব্বিশ', 'পঁচিশ', 'ছাব্বিশ', 'সাতাশ', 'আটাশ', 'উনত্রিশ',
+  'ত্রিশ', 'একত্রিশ', 'বত্রিশ', 'তেত্রিশ', 'চৌত্রিশ', 'পঁয়ত্রিশ', 'ছত্রিশ', 'সাঁইত্রিশ', 'আটত্রিশ', 'উনচল্লিশ',
+  'চল্লিশ', 'একচল্লিশ', 'বিয়াল্লিশ', 'তেতাল্লিশ', 'চুয়াল্লিশ', 'পঁয়তাল্লিশ', 'ছেচল্লিশ', 'সাতচল্লিশ', 'আটচল্লিশ', 'উনপঞ্চাশ',
+  'পঞ্চাশ', 'একান্ন', 'বাহান্ন', 'তিপ্পান্ন', 'চুয়ান্ন', 'পঞ্চান্ন', 'ছাপ্পান্ন', 'সাতান্ন', 'আটান্ন', 'উনষাট',
+  'ষাট', 'একষট্টি', 'বাষট্টি', 'তেষট্টি', 'চৌষট্টি', 'পঁয়ষট্টি', 'ছেষট্টি', 'সাতষট্টি', 'আটষট্টি', 'উনসত্তর',
+  'সত্তর', 'একাত্তর', 'বাহাত্তর', 'তিয়াত্তর', 'চুয়াত্তর', 'পঁচাত্তর', 'ছিয়াত্তর', 'সাতাত্তর', 'আটাত্তর', 'উনআশি',
+  'আশি', 'একাশি', 'বিরাশি', 'তিরাশি', 'চুরাশি', 'পঁচাশি', 'ছিয়াশি', 'সাতাশি', 'আটাশি', 'উননব্বই',
+  'নব্বই', 'একানব্বই', 'বিরানব্বই', 'তিরানব্বই', 'চুরানব্বই', 'পঁচানব্বই', 'ছিয়ানব্বই', 'সাতানব্বই', 'আটানব্বই', 'নিরানব্বই'
+];
+
+interface Scale {
+  size: number;
+  english: string;
+  bangla: string;
+}
+
+// Largest first. Anything from 100 crore up is spelled as a number of crores.
+const SCALES: Scale[] = [
+  { size: 10000000, english: 'Crore', bangla: 'কোটি' },
+  { size: 100000, english: 'Lakh', bangla: 'লক্ষ' },
+  { size: 1000, english: 'Thousand', bangla: 'হাজার' },
+  { size: 100, english: 'Hundred', bangla: 'শত' }
+];
+
+const englishUnder100 = (n: number) =>
+  n < 20 ? ENGLISH_ONES[n] : [ENGLISH_TENS[Math.floor(n / 10)], ENGLISH_ONES[n % 10]].filter(Boolean).join('-');
+
+const spell = (n: number, under100: (n: number) => string, scaleName: (scale: Scale) => string): string => {
+  const parts: string[] = [];
+  let rest = n;
+  SCALES.forEach(scale => {
+    const count = Math.floor(rest / scale.size);
+    if (count === 0) return;
+    // Crores can run past 99, so spell the count itself in full
+    parts.push(`${scale.size === SCALES[0].size ? spell(count, under100, scaleName) : under100(count)} ${scaleName(scale)}`);
+    rest %= scale.size;
+  });
+  if (rest > 0) parts.push(under100(rest));
+  return parts.join(' ');
+};
+
+const splitTaka = (amount: Money) => {
+  const abs = Math.abs(amount);
+  return { taka: Math.floor(abs / PAISA_PER_TAKA), paisa: abs % PAISA_PER_TAKA };
+};
+
+// "One Lakh Twenty Thousand Five Hundred Taka and Fifty Paisa Only"
+export const amountInWords = (amount: Money): string => {
+  const { taka, paisa } = splitTaka(amount);
+  const takaWords = taka > 0 ? spell(taka, englishUnder100, s => s.english) : 'Zero';
+  const paisaWords = paisa > 0 ? ` and ${englishUnder100(paisa)} Paisa` : '';
+  return `${takaWords} Taka${paisaWords} Only`;
+};
+
+// "এক লক্ষ বিশ হাজার পাঁচ শত টাকা পঞ্চাশ পয়সা মাত্র"
+export const amountInWordsBangla = (amount: Money): string => {
+  const { taka, paisa } = splitTaka(amount);
+  const under100 = (n: number) => BANGLA_UNDER_100[n];
+  const takaWords = taka > 0 ? spell(taka, under100, s => s.bangla) : BANGLA_UNDER_100[0];
+  const paisaWords = paisa > 0 ? ` ${under100(paisa)} পয়সা` : '';
+  return `${takaWords} টাকা${paisaWords} মাত্র`;
+};
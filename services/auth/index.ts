@@ -0,0 +1,16 @@
+import { getSupabaseClient } from '../../lib/supabaseClient';
+import { createLocalAuth } from './localAuth';
+import { createSupabaseAuth } from './supabaseAuth';
+import { AuthProvider } from './types';
+
+export * from './types';
+export { localCredentials, createLocalAuth } from './localAuth';
+export { createSupabaseAuth } from './supabaseAuth';
+export { MIN_PASSWORD_LENGTH } from './passwords';
+export * from './session';
+
+// Supabase Auth when a cloud project is configured, otherwise the on-device credential store
+export const createConfiguredAuth = (): AuthProvider => {
+  const supabase = getSupabaseClient();
+  return supabase ? createSupabaseAuth(supabase) : createLocalAuth();
+};
@@ -0,0 +1,138 @@
+import { AuthError, AuthListener, AuthProvider, normalizeEmail } from './types';
+import { MIN_PASSWORD_LENGTH, PasswordHash, equalHex, hashPassword, signWithHash, verifyPassword } from './passwords';
+import { sessionExpiresAt } from './session';
+
+const CREDENTIALS_KEY = 'biztrack_credentials_v1';
+const SESSION_KEY = 'biztrack_auth_v1';
+
+// Password hashes by lower-cased email. Kept apart from AppData so exports never contain them.
+type CredentialStore = Record<string, PasswordHash>;
+
+const readCredentials = (): CredentialStore => {
+  try {
+    const stored = localStorage.getItem(CREDENTIALS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (e) {
+    console.error("Failed to read local credentials", e);
+    return {};
+  }
+};
+
+const writeCredentials = (store: CredentialStore) => {
+  localStorage.setItem(CREDENTIALS_KEY, JSON.stringify(store));
+};
+
+export const localCredentials = {
+  has(email: string): boolean {
+    return !!readCredentials()[normalizeEmail(email)];
+  },
+
+  async set(email: string, password: string): Promise<void> {
+    if (password.length < MIN_PASSWORD_LENGTH) throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+    const hash = await hashPassword(password);
+    writeCredentials({ ...readCredentials(), [normalizeEmail(email)]: hash });
+  },
+
+  async verify(email: string, password: string): Promise<boolean> {
+    const stored = readCredentials()[normalizeEmail(email)];
+    return stored ? verifyPassword(password, stored) : false;
+  }
+};
+
+// The stored session is signed with the account's password hash, so editing the email or expiry
+// invalidates it, and so does changing or resetting that account's password.
+interface SessionToken {
+  email: string;
+  signedInAt: number;
+  expiresAt: number;
+  signature: string;
+}
+
+const sessionPayload = (token: Pick<SessionToken, 'email' | 'signedInAt' | 'expiresAt'>) =>
+  `${token.email}|${token.signedInAt}|${token.expiresAt}`;
+
+const writeSession = async (email: string, signedInAt = Date.now()) => {
+  const stored = readCredentials()[email];
+  if (!stored) throw new AuthError();
+  const token = { email, signedInAt, expiresAt: sessionExpiresAt(signedInAt) };
+  const signature = await signWithHash(sessionPayload(token), stored);
+  localStorage.setItem(SESSION_KEY, JSON.stringify({ ...token, signature }));
+};
+
+// A valid, unexpired session, or null
+const readSession = async (): Promise<SessionToken | null> => {
+  try {
+    const stored = localStorage.getItem(SESSION_KEY);
+    const token: SessionToken | null = stored ? JSON.parse(stored) : null;
+    if (!token || typeof token.email !== 'string' || typeof token.signature !== 'string') return null;
+    // Shortening the maximum session length in Settings also applies to sessions already signed in
+    if (Date.now() > Math.min(token.expiresAt, sessionExpiresAt(token.signedInAt))) return null;
+    const credentials = readCredentials()[token.email];
+    if (!credentials || !equalHex(await signWithHash(sessionPayload(token), credentials), token.signature)) return null;
+    return token;
+  } catch (e) {
+    console.error("Failed to parse stored session", e);
+    return null;
+  }
+};
+
+export const createLocalAuth = (): AuthProvider => {
+  const listeners = new Set<AuthListener>();
+
+  // Signing in or out in another tab shows up as a storage event on the session key
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key !== SESSION_KEY) return;
+    readSession().then(token => listeners.forEach(fn => fn(token?.email ?? null)));
+  };
+
+  return {
+    kind: 'local',
+
+    async restoreSession() {
+      return (await readSession())?.email ?? null;
+    },
+
+    async signIn(email, password) {
+      if (!(await localCredentials.verify(email, password))) throw new AuthError();
+      const verified = normalizeEmail(email);
+      await writeSession(verified);
+      return verified;
+    },
+
+    async verifyPassword(email, password) {
+      if (!(await localCredentials.verify(email, password))) throw new AuthError();
+    },
+
+    async invite(email, password) {
+      if (!password) throw new Error('A starting password is required for accounts on this device.');
+      if (localCredentials.has(email)) throw new Error(`${normalizeEmail(email)} can already sign in on this device.`);
+      await localCredentials.set(email, password);
+    },
+
+    async resetPassword(email, newPassword) {
+      if (!newPassword) throw new Error('Enter the new password.');
+      await localCredentials.set(email, newPassword);
+    },
+
+    async changePassword(newPassword) {
+      const session = await readSession();
+      if (!session) throw new AuthError('You are not signed in.');
+      await localCredentials.set(session.email, newPassword);
+      // Re-sign with the new hash, keeping the original expiry
+      await writeSession(session.email, session.signedInAt);
+    },
+
+    async signOut() {
+      localStorage.removeItem(SESSION_KEY);
+    },
+
+    subscribe(listener) {
+      if (listeners.size === 0) window.addEventListener('storage', handleStorage);
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) window.removeEventListener('storage', handleStorage);
+      };
+    }
+  };
+};
@@ -0,0 +1,43 @@
+// PBKDF2-SHA256 password hashes for the local credential store
+const ITERATIONS = 210000;
+
+export interface PasswordHash {
+  salt: string; // hex
+  hash: string; // hex
+  iterations: number;
+}
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+  Array.from(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes), b => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => new Uint8Array((hex.match(/.{2}/g) || []).map(b => parseInt(b, 16)));
+
+const derive = async (password: string, salt: Uint8Array, iterations: number) => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  return crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+};
+
+export const hashPassword = async (password: string): Promise<PasswordHash> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return { salt: toHex(salt), hash: toHex(await derive(password, salt, ITERATIONS)), iterations: ITERATIONS };
+};
+
+// Compares every character so timing doesn't reveal how much matched
+export const equalHex = (a: string, b: string): boolean => {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ (b.charCodeAt(i) || 0);
+  return diff === 0;
+};
+
+export const verifyPassword = async (password: string, stored: PasswordHash): Promise<boolean> => {
+  const candidate = toHex(await derive(password, fromHex(stored.salt), stored.iterations));
+  return equalHex(candidate, stored.hash);
+};
+
+// HMAC-SHA256 of `message`, keyed by a stored password hash
+export const signWithHash = async (message: string, stored: PasswordHash): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', fromHex(stored.hash), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toHex(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message)));
+};
+
+export const MIN_PASSWORD_LENGTH = 8;
@@ -0,0 +1,61 @@
+// Device-level session rules, set by an administrator in Settings
+const SETTINGS_KEY = 'biztrack_session_settings_v1';
+const ACTIVITY_KEY = 'biztrack_last_active_v1';
+const LOCK_KEY = 'biztrack_locked_v1';
+
+export interface SessionSettings {
+  idleMinutes: number; // Lock the app after this long without input; 0 never locks
+  maxSessionHours: number; // Sign out this long after signing in, however active the user is
+}
+
+export const DEFAULT_SESSION_SETTINGS: SessionSettings = { idleMinutes: 15, maxSessionHours: 12 };
+
+export const getSessionSettings = (): SessionSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_SESSION_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SESSION_SETTINGS;
+  } catch (e) {
+    console.error("Failed to read session settings", e);
+    return DEFAULT_SESSION_SETTINGS;
+  }
+};
+
+export const saveSessionSettings = (settings: SessionSettings) => {
+  if (!(settings.idleMinutes >= 0)) throw new Error('The idle timeout cannot be negative.');
+  if (!(settings.maxSessionHours > 0)) throw new Error('Sessions must last at least part of an hour.');
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const sessionExpiresAt = (signedInAt: number) => signedInAt + getSessionSettings().maxSessionHours * 3600000;
+
+// Last keyboard, mouse or touch input in any tab, so working in one tab keeps the others unlocked
+export const lastActivity = {
+  get(): number {
+    return Number(localStorage.getItem(ACTIVITY_KEY)) || 0;
+  },
+
+  touch() {
+    localStorage.setItem(ACTIVITY_KEY, String(Date.now()));
+  }
+};
+
+// Set when the app locks and cleared only by unlocking with the password (or by signing in or out),
+// so reloading a locked tab reopens it locked whatever the activity timestamp says
+export const appLock = {
+  isLocked(): boolean {
+    return localStorage.getItem(LOCK_KEY) === '1';
+  },
+
+  lock() {
+    localStorage.setItem(LOCK_KEY, '1');
+  },
+
+  unlock() {
+    localStorage.removeItem(LOCK_KEY);
+  }
+};
+
+export const isIdle = (): boolean => {
+  const { idleMinutes } = getSessionSettings();
+  return idleMinutes > 0 && Date.now() - lastActivity.get() > idleMinutes * 60000;
+};
@@ -0,0 +1,120 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AuthError, AuthProvider, normalizeEmail } from './types';
+import { sessionExpiresAt } from './session';
+
+const SIGNED_IN_KEY = 'biztrack_cloud_signed_in_v1';
+
+// Where emailed links (sign-in, invitation, password reset) send people back to
+const redirectUrl = () => window.location.origin + window.location.pathname;
+
+// When this device signed in. Supabase moves last_sign_in_at on every password check, so the app
+// keeps its own time to cap how long a sign-in lasts.
+const signInTime = {
+  get(email: string): number | null {
+    try {
+      const stored = JSON.parse(localStorage.getItem(SIGNED_IN_KEY) || 'null');
+      return stored?.email === email && typeof stored.at === 'number' ? stored.at : null;
+    } catch (e) {
+      console.error("Failed to read the sign-in time", e);
+      return null;
+    }
+  },
+
+  set(email: string, at = Date.now()) {
+    localStorage.setItem(SIGNED_IN_KEY, JSON.stringify({ email, at }));
+  },
+
+  clear() {
+    localStorage.removeItem(SIGNED_IN_KEY);
+  }
+};
+
+export const createSupabaseAuth = (supabase: SupabaseClient): AuthProvider => ({
+  kind: 'supabase',
+
+  async restoreSession() {
+    const { data } = await supabase.auth.getSession();
+    const user = data.session?.user;
+    if (!user?.email) return null;
+    const email = normalizeEmail(user.email);
+    // Supabase keeps refreshing its tokens indefinitely; the app caps how long a sign-in lasts.
+    // Sessions from before the app kept its own sign-in time start from Supabase's.
+    let signedInAt = signInTime.get(email);
+    if (signedInAt === null) {
+      const lastSignIn = user.last_sign_in_at ? Date.parse(user.last_sign_in_at) : NaN;
+      signedInAt = isNaN(lastSignIn) ? Date.now() : lastSignIn;
+      signInTime.set(email, signedInAt);
+    }
+    if (Date.now() > sessionExpiresAt(signedInAt)) {
+      signInTime.clear();
+      await supabase.auth.signOut();
+      return null;
+    }
+    return email;
+  },
+
+  async signIn(email, password) {
+    const { data, error } = await supabase.auth.signInWithPassword({ email: email.trim(), password });
+    if (error || !data.user?.email) throw new AuthError(error?.message);
+    const verified = normalizeEmail(data.user.email);
+    signInTime.set(verified);
+    return verified;
+  },
+
+  // Supabase can only check a password by signing in again, which refreshes the tokens of the same session.
+  // The sign-in time the app keeps is left alone.
+  async verifyPassword(email, password) {
+    const { error } = await supabase.auth.signInWithPassword({ email: email.trim(), password });
+    if (error) throw new AuthError(error.message);
+  },
+
+  async sendMagicLink(email) {
+    const { error } = await supabase.auth.signInWithOtp({
+      email: email.trim(),
+      // Only invited users have a login; asking for a link never creates one
+      options: { shouldCreateUser: false, emailRedirectTo: redirectUrl() }
+    });
+    if (error) throw new AuthError(error.message);
+  },
+
+  // The anon key can't create users directly, so the invitation is a sign-in link that creates the login.
+  // Sending it doesn't touch the admin's own session.
+  async invite(email) {
+    const { error } = await supabase.auth.signInWithOtp({
+      email: email.trim(),
+      options: { shouldCreateUser: true, emailRedirectTo: redirectUrl() }
+    });
+    if (error) throw new Error(`Failed to send the invitation: ${error.message}`);
+  },
+
+  async resetPassword(email) {
+    const { error } = await supabase.auth.resetPasswordForEmail(email.trim(), { redirectTo: redirectUrl() });
+    if (error) throw new Error(`Failed to send the reset email: ${error.message}`);
+  },
+
+  async changePassword(newPassword) {
+    const { error } = await supabase.auth.updateUser({ password: newPassword });
+    if (error) throw new Error(error.message);
+  },
+
+  async signOut() {
+    signInTime.clear();
+    await supabase.auth.signOut();
+  },
+
+  subscribe(listener) {
+    const { data } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === 'SIGNED_OUT') {
+        signInTime.clear();
+        listener(null);
+      } else if ((event === 'SIGNED_IN' || event === 'PASSWORD_RECOVERY') && session?.user.email) {
+        // Deferred: calling back into Supabase from inside this callback deadlocks the auth client
+        const email = normalizeEmail(session.user.email);
+        // Magic link sign-ins start the clock here; a password check while signed in keeps the original time
+        if (signInTime.get(email) === null) signInTime.set(email);
+        setTimeout(() => listener(email), 0);
+      }
+    });
+    return () => data.subscription.unsubscribe();
+  }
+});
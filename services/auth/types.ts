@@ -0,0 +1,47 @@
+export type AuthKind = 'local' | 'supabase';
+
+// Receives the signed-in email, or null after a sign-out
+export type AuthListener = (email: string | null) => void;
+
+// Proves who someone is. What they may do (role, status) comes from the user directory
+// in AppData.users, never from the provider or anything the browser kept about the session.
+export interface AuthProvider {
+  kind: AuthKind;
+
+  // Email of an unexpired session that survived a reload, or null
+  restoreSession(): Promise<string | null>;
+
+  // Resolves to the verified email; rejects with AuthError when the email or password is wrong
+  signIn(email: string, password: string): Promise<string>;
+
+  // Rejects with AuthError when the password is wrong. Unlike signIn it leaves the session, and
+  // when it started, untouched, so re-entering a password never extends the maximum session length.
+  verifyPassword(email: string, password: string): Promise<void>;
+
+  // Emails a one-time sign-in link. Only cloud auth can do this.
+  sendMagicLink?(email: string): Promise<void>;
+
+  // Lets a newly invited user sign in: local auth stores their starting password,
+  // cloud auth emails them a link that creates their login.
+  invite(email: string, password?: string): Promise<void>;
+
+  // Local auth sets the new password directly; cloud auth emails a reset link
+  resetPassword(email: string, newPassword?: string): Promise<void>;
+
+  // Changes the signed-in user's own password
+  changePassword(newPassword: string): Promise<void>;
+
+  signOut(): Promise<void>;
+
+  // Sign-ins and sign-outs that happen outside signIn/signOut (magic link redirects, other tabs)
+  subscribe(listener: AuthListener): () => void;
+}
+
+export class AuthError extends Error {
+  constructor(message = 'Invalid email or password') {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
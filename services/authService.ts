@@ -0,0 +1,170 @@
+import { User, UserAccount, UserRole } from '../types';
+import { AuthError, AuthProvider, createConfiguredAuth, localCredentials, normalizeEmail } from './auth';
+import { dataService } from './dataService';
+
+type UserListener = (user: User | null) => void;
+
+let provider: AuthProvider | null = null;
+let unsubscribeProvider: (() => void) | null = null;
+const listeners = new Set<UserListener>();
+// Who this tab is signed in as, so re-entering a password doesn't look like a new sign-in
+let signedInEmail: string | null = null;
+
+const notify = (user: User | null) => {
+  signedInEmail = user?.email ?? null;
+  listeners.forEach(fn => fn(user));
+};
+
+// Turns a verified email into the app user. Role and status come from the user directory,
+// so deactivating or demoting someone takes effect at their next sign-in or reload.
+const resolveUser = async (email: string): Promise<User> => {
+  const { users } = await dataService.fetchData();
+  const account = users.find(u => u.email === normalizeEmail(email));
+  if (!account) throw new AuthError(`There is no user account for ${email}. Ask an administrator to invite you.`);
+  if (account.status === 'DEACTIVATED') throw new AuthError('This account has been deactivated.');
+
+  const user: User = { email: account.email, name: account.name, role: account.role };
+  if (account.status === 'INVITED') {
+    // First sign-in accepts the invitation
+    dataService.setActor(user);
+    dataService.updateUser({ ...account, status: 'ACTIVE' }, account).catch(error => console.error("Failed to activate user", error));
+  }
+  return user;
+};
+
+const attach = (next: AuthProvider) => {
+  unsubscribeProvider?.();
+  unsubscribeProvider = next.subscribe(async email => {
+    if (!email) return notify(null);
+    if (email === signedInEmail) return;
+    try {
+      notify(await resolveUser(email));
+    } catch (error) {
+      console.error("Sign-in rejected", error);
+      await next.signOut();
+      notify(null);
+    }
+  });
+};
+
+// Like the storage backend, auth follows the cloud connection chosen in Settings
+const getProvider = (): AuthProvider => {
+  if (!provider) {
+    provider = createConfiguredAuth();
+    attach(provider);
+  }
+  return provider;
+};
+
+export const authService = {
+  // Sessions don't carry over between providers, so switching signs everyone out
+  setProvider(next: AuthProvider) {
+    provider = next;
+    attach(next);
+    notify(null);
+  },
+
+  getKind() {
+    return getProvider().kind;
+  },
+
+  // Sign-ins and sign-outs not started by signIn/signOut. Returns an unsubscribe function.
+  onChange(listener: UserListener): () => void {
+    getProvider();
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  async restoreSession(): Promise<User | null> {
+    try {
+      const email = await getProvider().restoreSession();
+      const user = email ? await resolveUser(email) : null;
+      signedInEmail = user?.email ?? null;
+      return user;
+    } catch (error) {
+      console.error("Failed to restore session", error);
+      return null;
+    }
+  },
+
+  // False once the session has expired or been signed out elsewhere
+  async isSessionValid(): Promise<boolean> {
+    return !!(await getProvider().restoreSession());
+  },
+
+  // Rejects with AuthError for a wrong password, an unknown user or a deactivated account
+  async signIn(email: string, password: string): Promise<User> {
+    const current = getProvider();
+    const verified = await current.signIn(email, password);
+    signedInEmail = verified;
+    try {
+      return await resolveUser(verified);
+    } catch (error) {
+      signedInEmail = null;
+      await current.signOut();
+      throw error;
+    }
+  },
+
+  // Re-checks the signed-in user's password to unlock the app or before a destructive action.
+  // Rejects with AuthError when the password is wrong or the session has expired.
+  async confirmPassword(password: string): Promise<void> {
+    const current = getProvider();
+    const email = await current.restoreSession();
+    if (!email) throw new AuthError('Your session has expired. Sign in again.');
+    await current.verifyPassword(email, password);
+  },
+
+  canSendMagicLink() {
+    return !!getProvider().sendMagicLink;
+  },
+
+  async sendMagicLink(email: string): Promise<void> {
+    const current = getProvider();
+    if (!current.sendMagicLink) throw new Error('Sign-in links need a cloud database connection.');
+    await current.sendMagicLink(email);
+  },
+
+  signOut(): Promise<void> {
+    signedInEmail = null;
+    return getProvider().signOut();
+  },
+
+  // Local mode starts with no accounts; the first person to open the app creates the administrator
+  async needsSetup(): Promise<boolean> {
+    if (getProvider().kind !== 'local') return false;
+    const { users } = await dataService.fetchData();
+    return !users.some(u => u.role === UserRole.ADMIN && u.status !== 'DEACTIVATED' && localCredentials.has(u.email));
+  },
+
+  async createFirstAdmin(name: string, email: string, password: string): Promise<User> {
+    if (!(await authService.needsSetup())) throw new Error('An administrator account already exists.');
+    const admin: UserAccount = {
+      id: crypto.randomUUID(),
+      email: normalizeEmail(email),
+      name: name.trim() || normalizeEmail(email),
+      role: UserRole.ADMIN,
+      status: 'ACTIVE',
+      createdAt: Date.now()
+    };
+    await getProvider().resetPassword(admin.email, password);
+    dataService.setActor(admin);
+    await dataService.addUser(admin);
+    return authService.signIn(admin.email, password);
+  },
+
+  // Gives a directory entry a way to sign in. `password` is the starting password for local accounts.
+  invite(account: UserAccount, password?: string): Promise<void> {
+    return getProvider().invite(account.email, password);
+  },
+
+  resetPassword(email: string, newPassword?: string): Promise<void> {
+    return getProvider().resetPassword(email, newPassword);
+  },
+
+  changePassword(newPassword: string): Promise<void> {
+    return getProvider().changePassword(newPassword);
+  }
+};
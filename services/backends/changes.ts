@@ -0,0 +1,58 @@
+import { AppData } from '../../types';
+import { COLLECTIONS, COLLECTION_LABELS, ChangeListener, RowChange } from './types';
+import { versionOf } from './conflicts';
+
+// Minimal pub/sub used by the local and in-memory backends in place of a realtime channel
+export const createChangeEmitter = () => {
+  const listeners = new Set<ChangeListener>();
+  return {
+    emit(change: RowChange) {
+      listeners.forEach(fn => fn(change));
+    },
+    subscribe(listener: ChangeListener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    get size() {
+      return listeners.size;
+    }
+  };
+};
+
+// Works out which rows differ between two snapshots (e.g. when another tab rewrote localStorage)
+export const diffData = (before: AppData, after: AppData): RowChange[] => {
+  const changes: RowChange[] = [];
+  COLLECTIONS.forEach(collection => {
+    const previous = new Map((before[collection] as Array<{ id: string }>).map(r => [r.id, JSON.stringify(r)]));
+    const current = after[collection] as Array<{ id: string }>;
+    current.forEach(row => {
+      if (previous.get(row.id) !== JSON.stringify(row)) changes.push({ type: 'upsert', collection, row: row as any });
+      previous.delete(row.id);
+    });
+    previous.forEach((_, id) => changes.push({ type: 'delete', collection, id }));
+  });
+  return changes;
+};
+
+// Merges a change into state. Returns the same object when nothing changed (e.g. the echo of our own write).
+export const applyRemoteChange = (data: AppData, change: RowChange): AppData => {
+  const rows = data[change.collection] as Array<{ id: string; version?: number }>;
+
+  if (change.type === 'delete') {
+    if (!rows.some(r => r.id === change.id)) return data;
+    return { ...data, [change.collection]: rows.filter(r => r.id !== change.id) };
+  }
+
+  const incoming = change.row as { id: string; version?: number };
+  const existing = rows.find(r => r.id === incoming.id);
+  if (!existing) return { ...data, [change.collection]: [...rows, incoming] };
+  if (versionOf(existing) >= versionOf(incoming)) return data;
+  return { ...data, [change.collection]: rows.map(r => r.id === incoming.id ? incoming : r) };
+};
+
+export const describeChange = (change: RowChange): string => {
+  const noun = COLLECTION_LABELS[change.collection];
+  return change.type === 'delete' ? `A ${noun} was deleted` : `A ${noun} was added or changed`;
+};
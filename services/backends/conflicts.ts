@@ -0,0 +1,24 @@
+import { COLLECTION_LABELS, Collection } from './types';
+
+// Thrown when an update was based on an older version than the one currently stored.
+// `current` is the stored row so the UI can offer a merge.
+export class ConflictError<T = any> extends Error {
+  collection: Collection;
+  current: T;
+
+  constructor(collection: Collection, current: T) {
+    super(`This ${COLLECTION_LABELS[collection]} was changed by someone else while you were editing it.`);
+    this.name = 'ConflictError';
+    this.collection = collection;
+    this.current = current;
+  }
+}
+
+// Rows saved before versioning existed count as version 0
+export const versionOf = (row?: object): number => (row as { version?: number } | undefined)?.version || 0;
+
+export const assertCurrentVersion = (collection: Collection, stored: { id: string; version?: number } | undefined, expectedVersion?: number) => {
+  if (expectedVersion === undefined) return;
+  if (!stored) throw new Error(`This ${COLLECTION_LABELS[collection]} was deleted by someone else.`);
+  if (versionOf(stored) !== expectedVersion) throw new ConflictError(collection, stored);
+};
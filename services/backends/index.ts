@@ -0,0 +1,21 @@
+import { getSupabaseClient } from '../../lib/supabaseClient';
+import { createLocalBackend } from './localBackend';
+import { createSupabaseBackend } from './supabaseBackend';
+import { withOutbox } from './outboxBackend';
+import { StorageBackend } from './types';
+
+export * from './types';
+export * from './conflicts';
+export * from './changes';
+export { createLocalBackend } from './localBackend';
+export { createMemoryBackend } from './memoryBackend';
+export { createSupabaseBackend } from './supabaseBackend';
+export { withOutbox } from './outboxBackend';
+
+// Picks the backend for the current configuration: Supabase when credentials are saved, otherwise localStorage.
+// Cloud writes go through the offline outbox so nothing recorded during a dropout is lost.
+export const createConfiguredBackend = (): StorageBackend => {
+  const local = createLocalBackend();
+  const supabase = getSupabaseClient();
+  return supabase ? withOutbox(createSupabaseBackend(supabase, local)) : local;
+};
@@ -0,0 +1,84 @@
+import { AppData } from '../../types';
+import { Collection, Row, StorageBackend, emptyData, mergeAuditLog, mergeUsers } from './types';
+import { assertCurrentVersion } from './conflicts';
+import { createChangeEmitter, diffData } from './changes';
+import { CURRENT_SCHEMA_VERSION, getSchemaVersion, migrateData } from '../migrations';
+
+const STORAGE_KEY = 'biztrack_data_v1';
+
+// Helper to save local data
+const saveLocalData = (data: AppData) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...data, schemaVersion: CURRENT_SCHEMA_VERSION }));
+};
+
+// Helper to get local data, upgrading (and re-saving) stores written by older versions
+const getLocalData = (): AppData => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return emptyData();
+  const raw = JSON.parse(stored);
+  const data = migrateData(raw);
+  if (getSchemaVersion(raw) !== CURRENT_SCHEMA_VERSION) saveLocalData(data);
+  return data;
+};
+
+const parseSnapshot = (value: string | null): AppData => value ? migrateData(JSON.parse(value)) : emptyData();
+
+export const createLocalBackend = (): StorageBackend => {
+  const changes = createChangeEmitter();
+
+  // Other tabs writing the same store show up as storage events
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key !== STORAGE_KEY) return;
+    diffData(parseSnapshot(e.oldValue), parseSnapshot(e.newValue)).forEach(changes.emit);
+  };
+
+  return {
+    kind: 'local',
+
+    async load() {
+      return getLocalData();
+    },
+
+    async insert<C extends Collection>(collection: C, row: Row<C>) {
+      const data = getLocalData();
+      (data[collection] as Row<C>[]).push(row);
+      saveLocalData(data);
+      changes.emit({ type: 'upsert', collection, row });
+    },
+
+    async update<C extends Collection>(collection: C, row: Row<C>, expectedVersion?: number) {
+      const data = getLocalData();
+      assertCurrentVersion(collection, (data[collection] as Row<C>[]).find(r => r.id === row.id), expectedVersion);
+      data[collection] = (data[collection] as Row<C>[]).map(r => r.id === row.id ? row : r) as AppData[C];
+      saveLocalData(data);
+      changes.emit({ type: 'upsert', collection, row });
+    },
+
+    async remove<C extends Collection>(collection: C, id: string) {
+      const data = getLocalData();
+      data[collection] = (data[collection] as Row<C>[]).filter(r => r.id !== id) as AppData[C];
+      saveLocalData(data);
+      changes.emit({ type: 'delete', collection, id });
+    },
+
+    async importData(newData) {
+      const current = getLocalData();
+      saveLocalData({ ...newData, auditLog: mergeAuditLog(current.auditLog, newData.auditLog), users: mergeUsers(current.users, newData.users) });
+    },
+
+    // The audit log is append-only and, like the user directory, survives a wipe
+    async clear() {
+      const current = getLocalData();
+      saveLocalData({ ...emptyData(), auditLog: current.auditLog, users: current.users });
+    },
+
+    subscribe(listener) {
+      if (changes.size === 0) window.addEventListener('storage', handleStorage);
+      const unsubscribe = changes.subscribe(listener);
+      return () => {
+        unsubscribe();
+        if (changes.size === 0) window.removeEventListener('storage', handleStorage);
+      };
+    }
+  };
+};
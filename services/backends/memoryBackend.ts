@@ -0,0 +1,47 @@
+import { AppData } from '../../types';
+import { Collection, Row, StorageBackend, emptyData, mergeAuditLog, mergeUsers } from './types';
+import { assertCurrentVersion } from './conflicts';
+import { createChangeEmitter } from './changes';
+
+// Keeps everything in a plain object. Used when no persistent store is wanted (e.g. tests).
+export const createMemoryBackend = (seed?: AppData): StorageBackend => {
+  let data: AppData = seed ? structuredClone(seed) : emptyData();
+  const changes = createChangeEmitter();
+
+  return {
+    kind: 'memory',
+
+    async load() {
+      return structuredClone(data);
+    },
+
+    async insert<C extends Collection>(collection: C, row: Row<C>) {
+      (data[collection] as Row<C>[]).push(structuredClone(row));
+      changes.emit({ type: 'upsert', collection, row });
+    },
+
+    async update<C extends Collection>(collection: C, row: Row<C>, expectedVersion?: number) {
+      assertCurrentVersion(collection, (data[collection] as Row<C>[]).find(r => r.id === row.id), expectedVersion);
+      data[collection] = (data[collection] as Row<C>[]).map(r => r.id === row.id ? structuredClone(row) : r) as AppData[C];
+      changes.emit({ type: 'upsert', collection, row });
+    },
+
+    async remove<C extends Collection>(collection: C, id: string) {
+      data[collection] = (data[collection] as Row<C>[]).filter(r => r.id !== id) as AppData[C];
+      changes.emit({ type: 'delete', collection, id });
+    },
+
+    async importData(newData) {
+      data = { ...structuredClone(newData), auditLog: mergeAuditLog(data.auditLog, newData.auditLog), users: mergeUsers(data.users, newData.users) };
+    },
+
+    // The audit log is append-only and, like the user directory, survives a wipe
+    async clear() {
+      data = { ...emptyData(), auditLog: data.auditLog, users: data.users };
+    },
+
+    subscribe(listener) {
+      return changes.subscribe(listener);
+    }
+  };
+};
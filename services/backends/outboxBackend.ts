@@ -0,0 +1,84 @@
+import { AppData } from '../../types';
+import { OutboxOp, applyOp, isNetworkError, outbox } from '../outbox';
+import { Collection, Row, StorageBackend, SyncResult } from './types';
+
+const run = (target: StorageBackend, op: OutboxOp) => {
+  if (op.type === 'insert') return target.insert(op.collection, op.row);
+  if (op.type === 'update') return target.update(op.collection, op.row, op.expectedVersion);
+  return target.remove(op.collection, op.id);
+};
+
+// Wraps a remote backend so writes made while offline are queued and replayed in order later.
+export const withOutbox = (inner: StorageBackend): StorageBackend => {
+  const write = async (op: OutboxOp) => {
+    // Once anything is queued, even a rejected item waiting on the user, later writes queue behind it to keep ordering intact
+    if (outbox.list().length > 0 || !navigator.onLine) {
+      outbox.enqueue(op);
+      return;
+    }
+    try {
+      await run(inner, op);
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      outbox.enqueue(op);
+    }
+  };
+
+  return {
+    kind: inner.kind,
+
+    async load(skip?: Collection[]) {
+      const data = await inner.load(skip);
+      return outbox.pending().reduce<AppData>((acc, item) => applyOp(acc, item.op), data);
+    },
+
+    insert<C extends Collection>(collection: C, row: Row<C>) {
+      return write({ type: 'insert', collection, row });
+    },
+
+    update<C extends Collection>(collection: C, row: Row<C>, expectedVersion?: number) {
+      return write({ type: 'update', collection, row, expectedVersion });
+    },
+
+    remove(collection: Collection, id: string) {
+      return write({ type: 'remove', collection, id });
+    },
+
+    importData(data: AppData) {
+      return inner.importData(data);
+    },
+
+    async clear() {
+      await inner.clear();
+      outbox.clear();
+    },
+
+    subscribe(listener) {
+      return inner.subscribe(listener);
+    },
+
+    // Replay stops at the first rejected change: what was queued after it may depend on it, like the
+    // expense a recurring rule posts after its version-checked update. It resumes once that change is
+    // retried or discarded.
+    async sync(): Promise<SyncResult> {
+      let synced = 0;
+      for (const item of outbox.list()) {
+        if (item.failed) break;
+        try {
+          await run(inner, item.op);
+          outbox.complete(item.id);
+          synced++;
+        } catch (error: any) {
+          outbox.recordFailure(item.id, error.message || 'Unknown error', !isNetworkError(error));
+          break;
+        }
+      }
+      const items = outbox.list();
+      return {
+        synced,
+        failed: items.filter(item => item.failed).length,
+        remaining: items.filter(item => !item.failed).length
+      };
+    }
+  };
+};
@@ -0,0 +1,149 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AppData } from '../../types';
+import { COLLECTIONS, COLLECTION_LABELS, Collection, Row, StorageBackend, emptyData } from './types';
+import { ConflictError } from './conflicts';
+
+// Table names differ from collection names where Postgres naming reads better
+const TABLES: Record<Collection, string> = {
+  clients: 'clients',
+  projects: 'projects',
+  quotes: 'quotes',
+  invoices: 'invoices',
+  billingTemplates: 'billing_templates',
+  payments: 'payments',
+  expenses: 'expenses',
+  expenseRules: 'expense_rules',
+  auditLog: 'audit_log',
+  users: 'profiles'
+};
+
+// Parents first when writing, children first when wiping, so foreign keys never block.
+// The audit log is append-only and, like the user directory, survives a wipe.
+const IMPORT_ORDER: Collection[] = ['users', 'clients', 'projects', 'invoices', 'quotes', 'billingTemplates', 'payments', 'expenseRules', 'expenses', 'auditLog'];
+const CLEAR_ORDER: Collection[] = ['payments', 'expenses', 'expenseRules', 'quotes', 'invoices', 'billingTemplates', 'projects', 'clients'];
+
+// Tables added after the original three may not exist yet in older projects; load them as empty until created
+const REQUIRED: Collection[] = ['clients', 'payments', 'expenses'];
+const MISSING_TABLE = '42P01';
+
+// Amounts are stored as integer paisa. Projects set up before that keep taka until an administrator runs the
+// paisa upgrade from Settings, which records it in app_settings; until then nothing is read or written,
+// so taka and paisa never end up mixed in the same columns. Checked once per client after it succeeds.
+const PAISA_CHECKED = new WeakSet<SupabaseClient>();
+
+const requirePaisa = async (supabase: SupabaseClient) => {
+  if (PAISA_CHECKED.has(supabase)) return;
+  const { data, error } = await supabase.from('app_settings').select('value').eq('key', 'amounts').maybeSingle();
+  if (error && error.code !== MISSING_TABLE) throw error;
+  if (data?.value !== 'paisa') {
+    throw new Error('The cloud database still stores amounts in taka. An administrator needs to run the "store amounts as whole paisa" SQL from Settings > Database Setup.');
+  }
+  PAISA_CHECKED.add(supabase);
+};
+
+export const createSupabaseBackend = (supabase: SupabaseClient, fallback: StorageBackend): StorageBackend => ({
+  kind: 'supabase',
+
+  async load(skip: Collection[] = []) {
+    try {
+      await requirePaisa(supabase);
+      const results = await Promise.all(COLLECTIONS.map(collection =>
+        skip.includes(collection) ? { data: [], error: null } : supabase.from(TABLES[collection]).select('*')
+      ));
+
+      const data = emptyData();
+      results.forEach((result, i) => {
+        const collection = COLLECTIONS[i];
+        if (result.error) {
+          if (REQUIRED.includes(collection) || result.error.code !== MISSING_TABLE) throw result.error;
+          console.warn(`Supabase table "${TABLES[collection]}" not found; run the setup SQL in Settings.`);
+        }
+        (data as any)[collection] = result.data || [];
+      });
+      return data;
+    } catch (error: any) {
+      console.error("Supabase fetch error:", error);
+      alert(`Connection Warning: Could not fetch data from cloud. \n\nError: ${error.message || 'Unknown error'}\n\nTip: Check if Row Level Security (RLS) is disabled in your Supabase Table settings.`);
+      // Fallback to local data
+      return fallback.load();
+    }
+  },
+
+  async insert<C extends Collection>(collection: C, row: Row<C>) {
+    await requirePaisa(supabase);
+    const { error } = await supabase.from(TABLES[collection]).insert([row]);
+    if (error) {
+      console.error("Supabase write error", error);
+      throw new Error(`Failed to save ${COLLECTION_LABELS[collection]}: ${error.message} (Check RLS Policies)`);
+    }
+  },
+
+  async update<C extends Collection>(collection: C, row: Row<C>, expectedVersion?: number) {
+    await requirePaisa(supabase);
+    const { id, ...updates } = row;
+    let query = supabase.from(TABLES[collection]).update(updates as any).eq('id', id);
+    if (expectedVersion !== undefined) {
+      // Rows written before versioning have a null version
+      query = expectedVersion === 0 ? query.or('version.is.null,version.eq.0') : query.eq('version', expectedVersion);
+    }
+    const { data, error } = await query.select('id');
+    if (error) throw new Error(`Failed to update ${COLLECTION_LABELS[collection]}: ${error.message}`);
+
+    if (expectedVersion !== undefined && (!data || data.length === 0)) {
+      const { data: current, error: fetchError } = await supabase.from(TABLES[collection]).select('*').eq('id', id).maybeSingle();
+      if (fetchError) throw new Error(`Failed to update ${COLLECTION_LABELS[collection]}: ${fetchError.message}`);
+      if (!current) throw new Error(`This ${COLLECTION_LABELS[collection]} was deleted by someone else.`);
+      throw new ConflictError(collection, current);
+    }
+  },
+
+  async remove(collection: Collection, id: string) {
+    await requirePaisa(supabase);
+    const { error } = await supabase.from(TABLES[collection]).delete().eq('id', id);
+    if (error) throw new Error(`Failed to delete ${COLLECTION_LABELS[collection]}: ${error.message}`);
+  },
+
+  async importData(newData: AppData) {
+    await requirePaisa(supabase);
+    for (const collection of IMPORT_ORDER) {
+      const rows = newData[collection];
+      if (rows.length) {
+        // Existing accounts are never overwritten by a backup (see mergeUsers), and audit entries are append-only
+        const options = collection === 'users' ? { onConflict: 'email', ignoreDuplicates: true }
+          : collection === 'auditLog' ? { onConflict: 'id', ignoreDuplicates: true }
+          : undefined;
+        const { error } = await supabase.from(TABLES[collection]).upsert(rows as any[], options);
+        if (error) throw error;
+      }
+    }
+  },
+
+  async clear() {
+    // Hack to delete all by condition that is always true if ID is not null
+    let failed = false;
+    for (const collection of CLEAR_ORDER) {
+      const { error } = await supabase.from(TABLES[collection]).delete().neq('id', '00000000-0000-0000-0000-000000000000');
+      if (error) failed = true;
+    }
+
+    if (failed) throw new Error("Failed to clear some cloud data. Check RLS.");
+  },
+
+  // Requires the tables to be in the supabase_realtime publication (see Settings > Database Setup)
+  subscribe(listener) {
+    const channel = supabase.channel('biztrack-changes');
+    COLLECTIONS.forEach(collection => {
+      channel.on('postgres_changes', { event: '*', schema: 'public', table: TABLES[collection] }, (payload: any) => {
+        if (payload.eventType === 'DELETE') {
+          if (payload.old?.id) listener({ type: 'delete', collection, id: payload.old.id });
+        } else {
+          listener({ type: 'upsert', collection, row: payload.new });
+        }
+      });
+    });
+    channel.subscribe();
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+});
@@ -0,0 +1,80 @@
+import { AppData, AuditEntry, UserAccount } from '../../types';
+
+export type BackendKind = 'supabase' | 'local' | 'memory';
+
+// Every AppData key that holds a list of rows with an id (clients, payments, ...)
+export type Collection = {
+  [K in keyof AppData]: AppData[K] extends Array<{ id: string }> ? K : never
+}[keyof AppData];
+
+export type Row<C extends Collection> = AppData[C][number];
+
+export const COLLECTIONS: Collection[] = ['clients', 'projects', 'quotes', 'invoices', 'billingTemplates', 'payments', 'expenses', 'expenseRules', 'auditLog', 'users'];
+
+// Singular labels used in messages ("Failed to save client: ...")
+export const COLLECTION_LABELS: Record<Collection, string> = {
+  clients: 'client',
+  projects: 'project',
+  quotes: 'quote',
+  invoices: 'invoice',
+  billingTemplates: 'billing template',
+  payments: 'payment',
+  expenses: 'expense',
+  expenseRules: 'recurring expense',
+  auditLog: 'activity entry',
+  users: 'user'
+};
+
+// A single row change pushed by a backend (another user, another tab, or our own write echoed back)
+export type RowChange =
+  | { type: 'upsert'; collection: Collection; row: Row<Collection> }
+  | { type: 'delete'; collection: Collection; id: string };
+
+export type ChangeListener = (change: RowChange) => void;
+
+export interface SyncResult {
+  synced: number;
+  failed: number;
+  remaining: number;
+}
+
+export interface StorageBackend {
+  readonly kind: BackendKind;
+  // Skipped collections come back empty, for data the signed-in user may not read anyway
+  load(skip?: Collection[]): Promise<AppData>;
+  insert<C extends Collection>(collection: C, row: Row<C>): Promise<void>;
+  // When expectedVersion is given the write is rejected with a ConflictError if the stored row has moved on
+  update<C extends Collection>(collection: C, row: Row<C>, expectedVersion?: number): Promise<void>;
+  remove(collection: Collection, id: string): Promise<void>;
+  importData(data: AppData): Promise<void>;
+  clear(): Promise<void>;
+  // Only backends that buffer writes (see withOutbox) implement this
+  sync?(): Promise<SyncResult>;
+  // Live row changes; returns an unsubscribe function
+  subscribe(listener: ChangeListener): () => void;
+}
+
+// Importing a backup must never drop existing audit entries, only add the backup's missing ones
+export const mergeAuditLog = (existing: AuditEntry[] = [], incoming: AuditEntry[] = []): AuditEntry[] => {
+  const ids = new Set(existing.map(e => e.id));
+  return [...existing, ...incoming.filter(e => !ids.has(e.id))];
+};
+
+// Likewise a backup can add users but never remove or overwrite the accounts that can sign in here
+export const mergeUsers = (existing: UserAccount[] = [], incoming: UserAccount[] = []): UserAccount[] => {
+  const emails = new Set(existing.map(u => u.email));
+  return [...existing, ...incoming.filter(u => !emails.has(u.email))];
+};
+
+export const emptyData = (): AppData => ({
+  clients: [],
+  projects: [],
+  quotes: [],
+  invoices: [],
+  billingTemplates: [],
+  payments: [],
+  expenses: [],
+  expenseRules: [],
+  auditLog: [],
+  users: []
+});
@@ -1,189 +1,516 @@
 
-import { getSupabaseClient } from '../lib/supabaseClient';
-import { AppData, Client, Expense, Payment } from '../types';
+import { AppData, AuditAction, AuditEntry, BillingTemplate, Client, Expense, ExpenseRule, Invoice, Payment, Project, Quote, User, UserAccount } from '../types';
+import { ChangeListener, Collection, Row, RowChange, StorageBackend, SyncResult, createConfiguredBackend, versionOf } from './backends';
+import { migrateData } from './migrations';
+import { sumMoney } from './money';
+import { can } from './permissions';
+import { quoteInvoiceOf, quoteProjectOf } from './quotes';
 
-const STORAGE_KEY = 'biztrack_data_v1';
+let backend: StorageBackend | null = null;
+let actor: User | null = null;
+let unsubscribeBackend: (() => void) | null = null;
+const changeListeners = new Set<ChangeListener>();
 
-const DEFAULT_DATA: AppData = {
-  clients: [],
-  payments: [],
-  expenses: []
+// Keys of our own recent writes, so their echo from the change feed isn't reported as someone else's edit
+const ownWrites = new Set<string>();
+const MAX_OWN_WRITES = 200;
+
+const changeKey = (change: RowChange) => change.type === 'delete'
+  ? `${change.collection}:${change.id}:deleted`
+  : `${change.collection}:${change.row.id}:${versionOf(change.row)}`;
+
+const markOwnWrite = (change: RowChange) => {
+  ownWrites.add(changeKey(change));
+  if (ownWrites.size > MAX_OWN_WRITES) ownWrites.delete(ownWrites.values().next().value as string);
+};
+
+// Forward the active backend's live changes to whoever is listening, across backend swaps
+const attach = (next: StorageBackend) => {
+  unsubscribeBackend?.();
+  unsubscribeBackend = changeListeners.size
+    ? next.subscribe(change => {
+        if (ownWrites.delete(changeKey(change))) return;
+        changeListeners.forEach(fn => fn(change));
+      })
+    : null;
+};
+
+// Backend is chosen once at startup (and again when the cloud connection changes in Settings)
+const getBackend = (): StorageBackend => {
+  if (!backend) {
+    backend = createConfiguredBackend();
+    attach(backend);
+  }
+  return backend;
+};
+
+// New rows start at version 1; every update bumps the version the editor started from
+const stampNew = <T extends { version?: number; updatedAt?: number }>(row: T): T => ({ ...row, version: 1, updatedAt: Date.now() });
+const stampUpdate = <T extends { version?: number; updatedAt?: number }>(row: T): T => ({ ...row, version: versionOf(row) + 1, updatedAt: Date.now() });
+
+// Appends to the audit log. A failed audit write is logged but never undoes the change it describes.
+const recordAudit = async (action: AuditAction, entityType: string, entityId?: string, before?: any, after?: any) => {
+  const entry: AuditEntry = {
+    id: crypto.randomUUID(),
+    at: Date.now(),
+    userEmail: actor?.email || 'unknown',
+    userName: actor?.name || 'Unknown User',
+    action,
+    entityType,
+    entityId,
+    before,
+    after
+  };
+  const change: RowChange = { type: 'upsert', collection: 'auditLog', row: entry };
+  // Our own entries reach the UI straight away rather than via the backend echo
+  markOwnWrite(change);
+  changeListeners.forEach(fn => fn(change));
+  try {
+    await getBackend().insert('auditLog', entry);
+  } catch (error) {
+    console.error("Failed to write audit entry", error);
+  }
+};
+
+const insertRow = async <C extends Collection>(collection: C, row: Row<C>) => {
+  markOwnWrite({ type: 'upsert', collection, row });
+  await getBackend().insert(collection, row);
+  await recordAudit('CREATE', collection, row.id, undefined, row);
+};
+
+const updateRow = async <C extends Collection>(collection: C, row: Row<C>, expectedVersion: number, before?: Row<C>, action: AuditAction = 'UPDATE') => {
+  markOwnWrite({ type: 'upsert', collection, row });
+  await getBackend().update(collection, row, expectedVersion);
+  await recordAudit(action, collection, row.id, before, row);
 };
 
-// Helper to get local data
-const getLocalData = (): AppData => {
-  const stored = localStorage.getItem(STORAGE_KEY);
-  return stored ? JSON.parse(stored) : DEFAULT_DATA;
+const removeRow = async <C extends Collection>(collection: C, id: string, before?: Row<C>, action: AuditAction = 'DELETE') => {
+  markOwnWrite({ type: 'delete', collection, id });
+  await getBackend().remove(collection, id);
+  await recordAudit(action, collection, id, before, undefined);
 };
 
-// Helper to save local data
-const saveLocalData = (data: AppData) => {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+// Allocations can't add up to more than was received; the rest of a payment is client credit
+const checkAllocations = (payment: Payment) => {
+  if (!payment.allocations?.length) return;
+  if (payment.type === 'REFUND') throw new Error('Refunds cannot be allocated to invoices.');
+  if (sumMoney(payment.allocations, a => a.amount) > payment.amount) {
+    throw new Error('The amounts allocated to invoices add up to more than the payment.');
+  }
 };
 
+// Thrown by deleteClient when payments still reference the client and no removal rule was given
+export class ClientInUseError extends Error {
+  client: Client;
+  paymentCount: number;
+
+  constructor(client: Client, paymentCount: number) {
+    super(`${client.name} still has ${paymentCount} payment${paymentCount === 1 ? '' : 's'}. Reassign or delete them first.`);
+    this.name = 'ClientInUseError';
+    this.client = client;
+    this.paymentCount = paymentCount;
+  }
+}
+
+// What happens to a deleted client's payments: moved to another client, or removed along with it
+export type ClientRemoval =
+  | { mode: 'reassign'; toClientId: string }
+  | { mode: 'cascade' };
+
+// Collections whose deletes go to the recycle bin instead of removing the row
+export type RecyclableCollection = 'payments' | 'expenses';
+
+// Deleted rows stay in AppData (for the recycle bin) but must not count anywhere else
+export const withoutDeleted = (data: AppData): AppData => ({
+  ...data,
+  payments: data.payments.filter(p => !p.deletedAt),
+  expenses: data.expenses.filter(e => !e.deletedAt)
+});
+
+const counts = (data: AppData) => ({
+  clients: data.clients.length,
+  payments: data.payments.length,
+  expenses: data.expenses.length
+});
+
 export const dataService = {
+  setBackend(next: StorageBackend) {
+    backend = next;
+    attach(next);
+  },
+
+  // The signed-in user, recorded against every change in the audit log
+  setActor(user: User | null) {
+    actor = user;
+  },
+
+  // Live row changes from other users or tabs. Returns an unsubscribe function.
+  onChange(listener: ChangeListener): () => void {
+    changeListeners.add(listener);
+    if (changeListeners.size === 1) attach(getBackend());
+    return () => {
+      changeListeners.delete(listener);
+      if (changeListeners.size === 0) attach(getBackend());
+    };
+  },
+
+  getBackendKind() {
+    return getBackend().kind;
+  },
+
   async fetchData(): Promise<AppData> {
-    const supabase = getSupabaseClient();
-    
-    if (supabase) {
-      try {
-        const [clients, payments, expenses] = await Promise.all([
-          supabase.from('clients').select('*'),
-          supabase.from('payments').select('*'),
-          supabase.from('expenses').select('*')
-        ]);
-
-        if (clients.error) throw clients.error;
-        if (payments.error) throw payments.error;
-        if (expenses.error) throw expenses.error;
-
-        // Normalize clients to have isActive defaults if missing (backward compatibility)
-        const normalizedClients = (clients.data || []).map((c: any) => ({
-             ...c,
-             isActive: c.isActive !== false // Default to true if null/undefined
-        }));
-
-        return {
-          clients: normalizedClients,
-          payments: payments.data || [],
-          expenses: expenses.data || []
-        };
-      } catch (error: any) {
-        console.error("Supabase fetch error:", error);
-        alert(`Connection Warning: Could not fetch data from cloud. \n\nError: ${error.message || 'Unknown error'}\n\nTip: Check if Row Level Security (RLS) is disabled in your Supabase Table settings.`);
-        // Fallback to local data but normalized
-        const local = getLocalData();
-        local.clients = local.clients.map(c => ({...c, isActive: c.isActive !== false}));
-        return local;
-      }
+    // Cloud rows may have been written by older app versions too, so everything goes through the migrations
+    // Only those who may open the Activity view download the audit log
+    return migrateData(await getBackend().load(can(actor, 'activity.view') ? [] : ['auditLog']));
+  },
+
+  async addClient(client: Client): Promise<Client> {
+    const saved = stampNew(client);
+    await insertRow('clients', saved);
+    return saved;
+  },
+
+  // Rejects with ConflictError if someone else saved the client since `client.version` was loaded.
+  // `before` is the row as the editor saw it, for the audit log.
+  async updateClient(client: Client, before?: Client): Promise<Client> {
+    const saved = stampUpdate(client);
+    await updateRow('clients', saved, versionOf(client), before);
+    return saved;
+  },
+
+  async archiveClient(client: Client): Promise<Client> {
+    const saved = stampUpdate({ ...client, archivedAt: Date.now() });
+    await updateRow('clients', saved, versionOf(client), client, 'ARCHIVE');
+    return saved;
+  },
+
+  async unarchiveClient(client: Client): Promise<Client> {
+    // null rather than undefined so the column is actually cleared in the cloud
+    const saved = stampUpdate({ ...client, archivedAt: null });
+    await updateRow('clients', saved, versionOf(client), client, 'UNARCHIVE');
+    return saved;
+  },
+
+  // Permanently removes a client. `related` must include recycle-bin rows, since those still reference it.
+  // Without a removal rule this rejects with ClientInUseError while any payment points at the client.
+  // Clients with sent or void invoices, or with project expenses, can only be archived; their draft
+  // invoices, quotes, projects and billing templates are deleted with them. Resolves to the payments that were reassigned (with their new versions).
+  async deleteClient(client: Client, related: Pick<AppData, 'payments' | 'quotes' | 'invoices' | 'projects' | 'expenses' | 'expenseRules' | 'billingTemplates'>, removal?: ClientRemoval): Promise<Payment[]> {
+    const clientInvoices = related.invoices.filter(inv => inv.clientId === client.id);
+    if (clientInvoices.some(inv => inv.status !== 'DRAFT')) {
+      throw new Error(`${client.name} has been invoiced, so the client can't be deleted. Archive it instead.`);
     }
-    
-    const local = getLocalData();
-    // Normalize existing local data
-    local.clients = local.clients.map(c => ({...c, isActive: c.isActive !== false}));
-    return local;
-  },
-
-  async addClient(client: Client): Promise<void> {
-    const supabase = getSupabaseClient();
-    if (supabase) {
-      const { error } = await supabase.from('clients').insert([client]);
-      if (error) {
-        console.error("Supabase write error", error);
-        throw new Error(`Failed to save client: ${error.message} (Check RLS Policies)`);
+    const clientProjects = related.projects.filter(p => p.clientId === client.id);
+    const projectIds = new Set(clientProjects.map(p => p.id));
+    if ([...related.expenses, ...related.expenseRules].some(e => e.projectId && projectIds.has(e.projectId))) {
+      throw new Error(`Expenses are tagged to ${client.name}'s projects, so the client can't be deleted. Archive it instead.`);
+    }
+    const linked = related.payments.filter(p => p.clientId === client.id);
+    if (linked.length && !removal) throw new ClientInUseError(client, linked.length);
+    if (removal?.mode === 'reassign' && removal.toClientId === client.id) {
+      throw new Error('Payments must be reassigned to a different client.');
+    }
+
+    // Payments go first so no row is ever left pointing at a missing client
+    const reassigned: Payment[] = [];
+    for (const payment of linked) {
+      if (removal?.mode === 'reassign') {
+        // The old client's projects and invoices go with it
+        const saved = stampUpdate({ ...payment, clientId: removal.toClientId, projectId: null, allocations: [] });
+        await updateRow('payments', saved, versionOf(payment), payment);
+        reassigned.push(saved);
+      } else {
+        await removeRow('payments', payment.id, payment);
       }
-    } else {
-      const data = getLocalData();
-      data.clients.push(client);
-      saveLocalData(data);
     }
+    for (const quote of related.quotes.filter(q => q.clientId === client.id)) {
+      await removeRow('quotes', quote.id, quote);
+    }
+    for (const invoice of clientInvoices) {
+      await removeRow('invoices', invoice.id, invoice);
+    }
+    for (const template of related.billingTemplates.filter(t => t.clientId === client.id)) {
+      await removeRow('billingTemplates', template.id, template);
+    }
+    for (const project of clientProjects) {
+      await removeRow('projects', project.id, project);
+    }
+    await removeRow('clients', client.id, client);
+    return reassigned;
   },
 
-  async updateClient(client: Client): Promise<void> {
-    const supabase = getSupabaseClient();
-    if (supabase) {
-      const { id, ...updates } = client;
-      const { error } = await supabase.from('clients').update(updates).eq('id', id);
-      if (error) throw new Error(`Failed to update client: ${error.message}`);
-    } else {
-      const data = getLocalData();
-      data.clients = data.clients.map(c => c.id === client.id ? client : c);
-      saveLocalData(data);
-    }
+  async addProject(project: Project): Promise<Project> {
+    const saved = stampNew(project);
+    await insertRow('projects', saved);
+    return saved;
   },
 
-  async addPayment(payment: Payment): Promise<void> {
-    const supabase = getSupabaseClient();
-    if (supabase) {
-      const { error } = await supabase.from('payments').insert([payment]);
-      if (error) throw new Error(`Failed to save payment: ${error.message} (Check RLS Policies)`);
-    } else {
-      const data = getLocalData();
-      data.payments.push(payment);
-      saveLocalData(data);
-    }
+  // Rejects with ConflictError if someone else saved the project since `project.version` was loaded
+  async updateProject(project: Project, before?: Project): Promise<Project> {
+    const saved = stampUpdate(project);
+    await updateRow('projects', saved, versionOf(project), before);
+    return saved;
   },
 
-  async updatePayment(payment: Payment): Promise<void> {
-    const supabase = getSupabaseClient();
-    if (supabase) {
-      const { id, ...updates } = payment;
-      const { error } = await supabase.from('payments').update(updates).eq('id', id);
-      if (error) throw new Error(`Failed to update payment: ${error.message}`);
-    } else {
-      const data = getLocalData();
-      data.payments = data.payments.map(p => p.id === payment.id ? payment : p);
-      saveLocalData(data);
-    }
+  // Saves the project with the milestone marked complete, then adds the draft invoice raised for it.
+  // The project goes first so a concurrent edit (ConflictError) leaves no stray invoice behind.
+  async completeMilestone(project: Project, invoice: Invoice, before?: Project): Promise<{ project: Project; invoice: Invoice }> {
+    const savedProject = stampUpdate(project);
+    await updateRow('projects', savedProject, versionOf(project), before);
+    const savedInvoice = stampNew(invoice);
+    await insertRow('invoices', savedInvoice);
+    return { project: savedProject, invoice: savedInvoice };
   },
 
-  async deletePayment(id: string): Promise<void> {
-    const supabase = getSupabaseClient();
-    if (supabase) {
-      const { error } = await supabase.from('payments').delete().eq('id', id);
-      if (error) throw new Error(`Failed to delete payment: ${error.message}`);
-    } else {
-      const data = getLocalData();
-      data.payments = data.payments.filter(p => p.id !== id);
-      saveLocalData(data);
+  // Only projects nothing is tagged to can be deleted; otherwise mark them completed or cancelled.
+  // `related` must include recycle-bin rows.
+  async deleteProject(project: Project, related: Pick<AppData, 'payments' | 'expenses' | 'expenseRules' | 'billingTemplates'>): Promise<void> {
+    const tagged = related.payments.filter(p => p.projectId === project.id).length + related.expenses.filter(e => e.projectId === project.id).length;
+    if (tagged > 0) {
+      throw new Error(`${tagged} payment${tagged === 1 ? ' or expense is' : 's or expenses are'} tagged to ${project.name}. Mark it completed or cancelled instead.`);
     }
+    if (related.billingTemplates.some(t => t.projectId === project.id)) {
+      throw new Error(`Recurring billing is set up for ${project.name}. Delete its billing template first.`);
+    }
+    if (related.expenseRules.some(r => r.projectId === project.id)) {
+      throw new Error(`Recurring expenses are tagged to ${project.name}. Delete or retag them first.`);
+    }
+    await removeRow('projects', project.id, project);
+  },
+
+  async addQuote(quote: Quote): Promise<Quote> {
+    const saved = stampNew(quote);
+    await insertRow('quotes', saved);
+    return saved;
   },
 
-  async addExpense(expense: Expense): Promise<void> {
-    const supabase = getSupabaseClient();
-    if (supabase) {
-      const { error } = await supabase.from('expenses').insert([expense]);
-      if (error) throw new Error(`Failed to save expense: ${error.message} (Check RLS Policies)`);
-    } else {
-      const data = getLocalData();
-      data.expenses.push(expense);
-      saveLocalData(data);
+  // Drafts and sent quotes can be revised until the client answers. Rejects with ConflictError if someone else saved it first.
+  async updateQuote(quote: Quote, before?: Quote): Promise<Quote> {
+    if (quote.status !== 'DRAFT' && quote.status !== 'SENT') throw new Error('Accepted and rejected quotes cannot be edited.');
+    const saved = stampUpdate(quote);
+    await updateRow('quotes', saved, versionOf(quote), before);
+    return saved;
+  },
+
+  // Saves any last edits to a draft and marks it sent under its permanent number (see nextQuoteNumber)
+  async issueQuote(quote: Quote, number: string, before: Quote = quote): Promise<Quote> {
+    if (quote.status !== 'DRAFT') throw new Error(`Quote ${quote.number} has already been sent.`);
+    const saved = stampUpdate({ ...quote, number, status: 'SENT' as const });
+    await updateRow('quotes', saved, versionOf(quote), before, 'ISSUE');
+    return saved;
+  },
+
+  // Records the client's answer to a sent quote, including one past its validity date
+  async respondToQuote(quote: Quote, accepted: boolean, date: string): Promise<Quote> {
+    if (quote.status !== 'SENT') throw new Error('Only sent quotes can be accepted or rejected.');
+    const saved = stampUpdate({ ...quote, status: accepted ? 'ACCEPTED' as const : 'REJECTED' as const, respondedAt: date });
+    await updateRow('quotes', saved, versionOf(quote), quote);
+    return saved;
+  },
+
+  // Saves the quote pointing at what it was converted to, then adds the new project and/or invoice.
+  // The quote goes first so a concurrent edit (ConflictError) leaves nothing stray behind.
+  async convertQuote(quote: Quote, created: { project?: Project; invoice?: Invoice }, before?: Quote): Promise<{ quote: Quote; project?: Project; invoice?: Invoice }> {
+    if (quote.status !== 'ACCEPTED') throw new Error('Only accepted quotes can be converted.');
+    const savedQuote = stampUpdate(quote);
+    await updateRow('quotes', savedQuote, versionOf(quote), before);
+    const project = created.project && stampNew(created.project);
+    if (project) await insertRow('projects', project);
+    const invoice = created.invoice && stampNew(created.invoice);
+    if (invoice) await insertRow('invoices', invoice);
+    return { quote: savedQuote, project, invoice };
+  },
+
+  // Quotes that became an invoice or project stay as the record of what was agreed
+  async deleteQuote(quote: Quote, related: Pick<AppData, 'invoices' | 'projects'>): Promise<void> {
+    if (quoteInvoiceOf(quote, related.invoices) || quoteProjectOf(quote, related.projects)) {
+      throw new Error(`Quote ${quote.number} has been converted, so it can't be deleted.`);
     }
+    await removeRow('quotes', quote.id, quote);
+  },
+
+  async addInvoice(invoice: Invoice): Promise<Invoice> {
+    const saved = stampNew(invoice);
+    await insertRow('invoices', saved);
+    return saved;
   },
 
-  async deleteExpense(id: string): Promise<void> {
-    const supabase = getSupabaseClient();
-    if (supabase) {
-      const { error } = await supabase.from('expenses').delete().eq('id', id);
-      if (error) throw new Error(`Failed to delete expense: ${error.message}`);
-    } else {
-      const data = getLocalData();
-      data.expenses = data.expenses.filter(e => e.id !== id);
-      saveLocalData(data);
+  // Only drafts can be edited. Rejects with ConflictError if someone else saved the invoice first.
+  async updateInvoice(invoice: Invoice, before?: Invoice): Promise<Invoice> {
+    if (invoice.status !== 'DRAFT') throw new Error('Sent invoices cannot be edited. Void it and issue a new one instead.');
+    const saved = stampUpdate(invoice);
+    await updateRow('invoices', saved, versionOf(invoice), before);
+    return saved;
+  },
+
+  // Saves any last edits to a draft and marks it sent under its permanent number (see nextInvoiceNumber)
+  async issueInvoice(invoice: Invoice, number: string, before: Invoice = invoice): Promise<Invoice> {
+    if (invoice.status !== 'DRAFT') throw new Error(`Invoice ${invoice.number} has already been sent.`);
+    const saved = stampUpdate({ ...invoice, number, status: 'SENT' as const });
+    await updateRow('invoices', saved, versionOf(invoice), before, 'ISSUE');
+    return saved;
+  },
+
+  // A void invoice keeps its number but no longer counts towards the client's dues.
+  // `payments` must include recycle-bin rows, since restoring one brings its allocations back.
+  async voidInvoice(invoice: Invoice, payments: Payment[]): Promise<Invoice> {
+    if (payments.some(p => p.allocations?.some(a => a.invoiceId === invoice.id))) {
+      throw new Error(`Payments are allocated to invoice ${invoice.number}. Remove those allocations before voiding it.`);
     }
+    const saved = stampUpdate({ ...invoice, status: 'VOID' as const });
+    await updateRow('invoices', saved, versionOf(invoice), invoice, 'VOID');
+    return saved;
+  },
+
+  // Drafts have no number yet, so deleting one leaves no gap in the sequence
+  async deleteInvoice(invoice: Invoice): Promise<void> {
+    if (invoice.status !== 'DRAFT') throw new Error('Only draft invoices can be deleted. Void sent invoices instead.');
+    await removeRow('invoices', invoice.id, invoice);
+  },
+
+  async addBillingTemplate(template: BillingTemplate): Promise<BillingTemplate> {
+    const saved = stampNew(template);
+    await insertRow('billingTemplates', saved);
+    return saved;
+  },
+
+  // Rejects with ConflictError if someone else saved the template since `template.version` was loaded
+  async updateBillingTemplate(template: BillingTemplate, before?: BillingTemplate): Promise<BillingTemplate> {
+    const saved = stampUpdate(template);
+    await updateRow('billingTemplates', saved, versionOf(template), before);
+    return saved;
+  },
+
+  // Invoices already posted from the template are kept
+  async deleteBillingTemplate(template: BillingTemplate): Promise<void> {
+    await removeRow('billingTemplates', template.id, template);
+  },
+
+  // Moves the template past one due period, posting `invoice` for it or skipping it when null.
+  // The template is saved first, so a period another device already dealt with fails with ConflictError
+  // instead of being billed twice.
+  async recordBillingRun(template: BillingTemplate, invoice: Invoice | null, before?: BillingTemplate): Promise<{ template: BillingTemplate; invoice: Invoice | null }> {
+    const savedTemplate = stampUpdate(template);
+    await updateRow('billingTemplates', savedTemplate, versionOf(template), before);
+    if (!invoice) return { template: savedTemplate, invoice: null };
+    const savedInvoice = stampNew(invoice);
+    await insertRow('invoices', savedInvoice);
+    return { template: savedTemplate, invoice: savedInvoice };
+  },
+
+  async addPayment(payment: Payment): Promise<Payment> {
+    checkAllocations(payment);
+    const saved = stampNew(payment);
+    await insertRow('payments', saved);
+    return saved;
+  },
+
+  // Rejects with ConflictError if someone else saved the payment since `payment.version` was loaded
+  async updatePayment(payment: Payment, before?: Payment): Promise<Payment> {
+    checkAllocations(payment);
+    const saved = stampUpdate(payment);
+    await updateRow('payments', saved, versionOf(payment), before);
+    return saved;
+  },
+
+  // Moves the payment to the recycle bin
+  async deletePayment(payment: Payment): Promise<Payment> {
+    return dataService.moveToRecycleBin('payments', payment);
+  },
+
+  async addExpenseRule(rule: ExpenseRule): Promise<ExpenseRule> {
+    const saved = stampNew(rule);
+    await insertRow('expenseRules', saved);
+    return saved;
   },
 
+  // Rejects with ConflictError if someone else saved the rule since `rule.version` was loaded
+  async updateExpenseRule(rule: ExpenseRule, before?: ExpenseRule): Promise<ExpenseRule> {
+    const saved = stampUpdate(rule);
+    await updateRow('expenseRules', saved, versionOf(rule), before);
+    return saved;
+  },
+
+  // Expenses already posted by the rule are kept
+  async deleteExpenseRule(rule: ExpenseRule): Promise<void> {
+    await removeRow('expenseRules', rule.id, rule);
+  },
+
+  // Saves the rule moved past one occurrence, then posts that occurrence's expense (none when skipped).
+  // Like billing runs, the version check stops two devices posting the same occurrence.
+  async recordExpenseRun(rule: ExpenseRule, expense: Expense | null, before?: ExpenseRule): Promise<{ rule: ExpenseRule; expense: Expense | null }> {
+    const savedRule = stampUpdate(rule);
+    await updateRow('expenseRules', savedRule, versionOf(rule), before);
+    if (!expense) return { rule: savedRule, expense: null };
+    const savedExpense = stampNew(expense);
+    await insertRow('expenses', savedExpense);
+    return { rule: savedRule, expense: savedExpense };
+  },
+
+  async addExpense(expense: Expense): Promise<Expense> {
+    const saved = stampNew(expense);
+    await insertRow('expenses', saved);
+    return saved;
+  },
+
+  // Rejects with ConflictError if someone else saved the expense since `expense.version` was loaded
+  async updateExpense(expense: Expense, before?: Expense): Promise<Expense> {
+    const saved = stampUpdate(expense);
+    await updateRow('expenses', saved, versionOf(expense), before);
+    return saved;
+  },
+
+  // Moves the expense to the recycle bin
+  async deleteExpense(expense: Expense): Promise<Expense> {
+    return dataService.moveToRecycleBin('expenses', expense);
+  },
+
+  async moveToRecycleBin<C extends RecyclableCollection>(collection: C, row: Row<C>): Promise<Row<C>> {
+    const saved = stampUpdate({ ...row, deletedAt: Date.now() });
+    await updateRow(collection, saved, versionOf(row), row, 'DELETE');
+    return saved;
+  },
+
+  async restoreFromRecycleBin<C extends RecyclableCollection>(collection: C, row: Row<C>): Promise<Row<C>> {
+    // null rather than undefined so the column is actually cleared in the cloud
+    const saved = stampUpdate({ ...row, deletedAt: null });
+    await updateRow(collection, saved, versionOf(row), row, 'RESTORE');
+    return saved;
+  },
+
+  // Permanently removes a row that is already in the recycle bin
+  async purgeFromRecycleBin<C extends RecyclableCollection>(collection: C, row: Row<C>): Promise<void> {
+    await removeRow(collection, row.id, row, 'PURGE');
+  },
+
+  async addUser(user: UserAccount): Promise<UserAccount> {
+    const saved = stampNew(user);
+    await insertRow('users', saved);
+    return saved;
+  },
+
+  // Role and status changes. Rejects with ConflictError if another admin saved the user first.
+  async updateUser(user: UserAccount, before?: UserAccount): Promise<UserAccount> {
+    const saved = stampUpdate(user);
+    await updateRow('users', saved, versionOf(user), before);
+    return saved;
+  },
+
+  // Accepts backups from any older schema version; rejects ones newer than the app with SchemaVersionError
   async importData(newData: AppData): Promise<void> {
-    const supabase = getSupabaseClient();
-    if (supabase) {
-      if (newData.clients.length) {
-        const { error } = await supabase.from('clients').upsert(newData.clients);
-        if (error) throw error;
-      }
-      if (newData.payments.length) {
-        const { error } = await supabase.from('payments').upsert(newData.payments);
-        if (error) throw error;
-      }
-      if (newData.expenses.length) {
-        const { error } = await supabase.from('expenses').upsert(newData.expenses);
-        if (error) throw error;
-      }
-    } else {
-      saveLocalData(newData);
-    }
+    const migrated = migrateData(newData);
+    await getBackend().importData(migrated);
+    await recordAudit('IMPORT', 'data', undefined, undefined, counts(migrated));
   },
 
-  async clearData(): Promise<void> {
-    const supabase = getSupabaseClient();
-    if (supabase) {
-      // Hack to delete all by condition that is always true if ID is not null
-      const { error: e1 } = await supabase.from('payments').delete().neq('id', '00000000-0000-0000-0000-000000000000');
-      const { error: e2 } = await supabase.from('expenses').delete().neq('id', '00000000-0000-0000-0000-000000000000');
-      const { error: e3 } = await supabase.from('clients').delete().neq('id', '00000000-0000-0000-0000-000000000000');
-      
-      if (e1 || e2 || e3) throw new Error("Failed to clear some cloud data. Check RLS.");
-    } else {
-      localStorage.removeItem(STORAGE_KEY);
-    }
+  async clearData(before?: AppData): Promise<void> {
+    await getBackend().clear();
+    await recordAudit('CLEAR', 'data', undefined, before ? counts(before) : undefined, undefined);
+  },
+
+  // Pushes any writes queued while offline. Resolves to null when the backend writes straight through.
+  async syncPending(): Promise<SyncResult | null> {
+    const current = getBackend();
+    return current.sync ? current.sync() : null;
   }
 };
@@ -0,0 +1,209 @@
+import { Client, Invoice, Payment, Quote, QuoteStatus } from '../types';
+import { Money, ZERO, formatMoney, subtractMoney } from './money';
+import { invoiceTotals, lineAmount } from './finance';
+import { amountInWords, amountInWordsBangla } from './amountInWords';
+
+// Branded quotation, invoice and money receipt documents. Each is a self-contained HTML page with its own
+// styles (no Tailwind or CDN scripts), printed from a hidden frame so "Save as PDF" works offline.
+
+const BRAND_NAME = 'Euro IT';
+
+const escapeHtml = (value: string | number | undefined) =>
+  String(value ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+const STYLES = `
+  @page { size: A4; margin: 14mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: Arial, Helvetica, sans-serif; color: #0f172a; font-size: 12px; }
+  .bn { font-family: 'Noto Sans Bengali', 'Nirmala UI', Vrinda, 'SolaimanLipi', sans-serif; }
+  header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 2px solid #1e3a8a; padding-bottom: 12px; margin-bottom: 20px; }
+  .brand { display: flex; align-items: center; gap: 12px; }
+  .mark { width: 56px; height: 56px; border: 2px solid #1e3a8a; border-radius: 6px; display: flex; flex-direction: column; align-items: center; justify-content: center; font-weight: bold; color: #1e3a8a; font-size: 12px; line-height: 1.2; }
+  .brand h1 { margin: 0; font-size: 20px; text-transform: uppercase; letter-spacing: 0.5px; }
+  .doc-title { text-align: right; }
+  .doc-title h2 { margin: 0 0 4px; font-size: 22px; color: #1e3a8a; text-transform: uppercase; }
+  .muted { color: #64748b; }
+  .parties { display: flex; justify-content: space-between; gap: 24px; margin-bottom: 20px; }
+  .label { font-size: 10px; font-weight: bold; text-transform: uppercase; color: #64748b; margin-bottom: 4px; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 16px; }
+  th { background: #f1f5f9; text-align: left; font-size: 10px; text-transform: uppercase; color: #475569; padding: 8px; border-bottom: 1px solid #cbd5e1; }
+  td { padding: 8px; border-bottom: 1px solid #e2e8f0; vertical-align: top; }
+  .num { text-align: right; white-space: nowrap; }
+  .totals { margin-left: auto; width: 280px; }
+  .totals td { border: none; padding: 4px 8px; }
+  .totals .grand td { border-top: 2px solid #0f172a; font-weight: bold; font-size: 14px; }
+  .words { border: 1px solid #cbd5e1; border-radius: 6px; padding: 10px 12px; margin-bottom: 16px; }
+  .words p { margin: 2px 0; }
+  .notes { white-space: pre-wrap; margin-bottom: 16px; }
+  .signature { display: flex; justify-content: flex-end; margin-top: 56px; }
+  .signature.split { justify-content: space-between; }
+  .signature div { border-top: 1px solid #0f172a; padding-top: 4px; width: 200px; text-align: center; }
+  .stamp { display: inline-block; border: 2px solid #16a34a; color: #16a34a; font-weight: bold; padding: 2px 10px; border-radius: 4px; text-transform: uppercase; }
+  .stamp.void { border-color: #dc2626; color: #dc2626; }
+`;
+
+const page = (title: string, body: string) => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>${body}</body>
+</html>`;
+
+const header = (docTitle: string, details: string) => `
+  <header>
+    <div class="brand">
+      <div class="mark"><span>EURO</span><span>IT</span></div>
+      <div><h1>${BRAND_NAME}</h1></div>
+    </div>
+    <div class="doc-title"><h2>${escapeHtml(docTitle)}</h2>${details}</div>
+  </header>`;
+
+const clientBlock = (label: string, client?: Client) => `
+  <div>
+    <div class="label">${label}</div>
+    <strong>${escapeHtml(client?.name || 'Unknown Client')}</strong>
+    ${client?.company ? `<div>${escapeHtml(client.company)}</div>` : ''}
+    ${client?.email ? `<div class="muted">${escapeHtml(client.email)}</div>` : ''}
+    ${client?.phone ? `<div class="muted">${escapeHtml(client.phone)}</div>` : ''}
+  </div>`;
+
+const linesTable = (invoice: Pick<Invoice, 'lines' | 'taxRate'>) => {
+  const totals = invoiceTotals(invoice);
+  const rows = invoice.lines.map((line, i) => `
+    <tr>
+      <td>${i + 1}</td>
+      <td>${escapeHtml(line.description)}</td>
+      <td class="num">${escapeHtml(line.quantity)}</td>
+      <td class="num">${formatMoney(line.rate)}</td>
+      <td class="num">${formatMoney(lineAmount(line))}</td>
+    </tr>`).join('');
+  return `
+    <table>
+      <thead><tr><th>#</th><th>Description</th><th class="num">Qty</th><th class="num">Rate</th><th class="num">Amount</th></tr></thead>
+      <tbody>${rows}</tbody>
+    </table>`;
+};
+
+const wordsBlock = (amount: Money) => `
+  <div class="words">
+    <div class="label">Amount in words</div>
+    <p>${escapeHtml(amountInWords(amount))}</p>
+    <p class="bn">${escapeHtml(amountInWordsBangla(amount))}</p>
+  </div>`;
+
+export const invoiceDocument = (invoice: Invoice, client: Client | undefined, paid: Money = ZERO): string => {
+  const totals = invoiceTotals(invoice);
+  const balance = subtractMoney(totals.total, paid);
+  const title = invoice.number ? `Invoice ${invoice.number}` : 'Draft Invoice';
+
+  return page(title, `
+    ${header(invoice.status === 'DRAFT' ? 'Draft Invoice' : 'Invoice', `
+      ${invoice.number ? `<div><strong>${escapeHtml(invoice.number)}</strong></div>` : ''}
+      <div class="muted">Issued ${escapeHtml(invoice.issueDate)}</div>
+      ${invoice.dueDate ? `<div class="muted">Due ${escapeHtml(invoice.dueDate)}</div>` : ''}
+      ${invoice.status === 'VOID' ? '<div class="stamp void">Void</div>' : ''}`)}
+    <div class="parties">${clientBlock('Bill to', client)}</div>
+    ${linesTable(invoice)}
+    <table class="totals">
+      <tr><td>Subtotal</td><td class="num">${formatMoney(totals.subtotal)}</td></tr>
+      ${invoice.taxRate ? `<tr><td>Tax (${escapeHtml(invoice.taxRate)}%)</td><td class="num">${formatMoney(totals.tax)}</td></tr>` : ''}
+      <tr class="grand"><td>Total</td><td class="num">${formatMoney(totals.total)}</td></tr>
+      ${paid > 0 ? `<tr><td>Paid</td><td class="num">${formatMoney(paid)}</td></tr><tr><td><strong>Balance due</strong></td><td class="num"><strong>${formatMoney(balance)}</strong></td></tr>` : ''}
+    </table>
+    ${wordsBlock(totals.total)}
+    ${invoice.notes ? `<div class="label">Notes</div><div class="notes">${escapeHtml(invoice.notes)}</div>` : ''}
+    <div class="signature"><div>Authorised Signature</div></div>`);
+};
+
+const QUOTE_STAMPS: Partial<Record<QuoteStatus, string>> = {
+  ACCEPTED: '<div class="stamp">Accepted</div>',
+  REJECTED: '<div class="stamp void">Rejected</div>',
+  EXPIRED: '<div class="stamp void">Expired</div>'
+};
+
+// `status` is passed in rather than read from the quote so an expired quote prints as expired
+export const quoteDocument = (quote: Quote, client: Client | undefined, status: QuoteStatus): string => {
+  const totals = invoiceTotals(quote);
+  const title = quote.number ? `Quotation ${quote.number}` : 'Draft Quotation';
+
+  return page(title, `
+    ${header(quote.status === 'DRAFT' ? 'Draft Quotation' : 'Quotation', `
+      ${quote.number ? `<div><strong>${escapeHtml(quote.number)}</strong></div>` : ''}
+      <div class="muted">Date ${escapeHtml(quote.issueDate)}</div>
+      <div class="muted">Valid until ${escapeHtml(quote.validUntil)}</div>
+      ${QUOTE_STAMPS[status] || ''}`)}
+    <div class="parties">
+      ${clientBlock('Prepared for', client)}
+      <div style="text-align: right;">
+        <div class="label">Subject</div>
+        <strong>${escapeHtml(quote.title)}</strong>
+      </div>
+    </div>
+    ${linesTable(quote)}
+    <table class="totals">
+      <tr><td>Subtotal</td><td class="num">${formatMoney(totals.subtotal)}</td></tr>
+      ${quote.taxRate ? `<tr><td>Tax (${escapeHtml(quote.taxRate)}%)</td><td class="num">${formatMoney(totals.tax)}</td></tr>` : ''}
+      <tr class="grand"><td>Total</td><td class="num">${formatMoney(totals.total)}</td></tr>
+    </table>
+    ${wordsBlock(totals.total)}
+    ${quote.notes ? `<div class="label">Terms &amp; notes</div><div class="notes">${escapeHtml(quote.notes)}</div>` : ''}
+    <p class="muted">This quotation is valid until ${escapeHtml(quote.validUntil)}.</p>
+    <div class="signature split"><div>Accepted by (client)</div><div>Authorised Signature</div></div>`);
+};
+
+// Receipts are numbered from the payment itself so reprints always match
+export const receiptNumber = (payment: Payment) =>
+  `MR-${payment.date.replace(/-/g, '')}-${payment.id.substring(0, 6).toUpperCase()}`;
+
+export const receiptDocument = (payment: Payment, client: Client | undefined, invoices: Invoice[]): string => {
+  const amount = payment.amount;
+  const number = receiptNumber(payment);
+  const allocations = (payment.allocations || []).map(a => `
+    <tr>
+      <td>${escapeHtml(invoices.find(inv => inv.id === a.invoiceId)?.number || 'Unknown Invoice')}</td>
+      <td class="num">${formatMoney(a.amount)}</td>
+    </tr>`).join('');
+
+  return page(`Money Receipt ${number}`, `
+    ${header('Money Receipt', `
+      <div><strong>${escapeHtml(number)}</strong></div>
+      <div class="muted">Date ${escapeHtml(payment.date)}</div>
+      <div class="stamp">Received</div>`)}
+    <div class="parties">${clientBlock('Received with thanks from', client)}</div>
+    <table>
+      <tbody>
+        <tr><td style="width: 160px;" class="muted">Amount</td><td><strong style="font-size: 16px;">${formatMoney(amount)}</strong></td></tr>
+        <tr><td class="muted">Payment method</td><td>${escapeHtml(payment.method || 'Cash')}</td></tr>
+        ${payment.details ? `<tr><td class="muted">Payment details</td><td>${escapeHtml(payment.details)}</td></tr>` : ''}
+        ${payment.description ? `<tr><td class="muted">For</td><td>${escapeHtml(payment.description)}</td></tr>` : ''}
+      </tbody>
+    </table>
+    ${wordsBlock(amount)}
+    ${allocations ? `
+      <table>
+        <thead><tr><th>Applied to invoice</th><th class="num">Amount</th></tr></thead>
+        <tbody>${allocations}</tbody>
+      </table>` : ''}
+    <div class="signature"><div>Received by</div></div>`);
+};
+
+// Opens the browser's print dialog for a document; choosing "Save as PDF" there gives the PDF
+export const printDocument = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.onload = () => {
+    const win = frame.contentWindow;
+    if (!win) return;
+    win.onafterprint = () => frame.remove();
+    win.focus();
+    win.print();
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+};
@@ -0,0 +1,255 @@
+import { describe, expect, it } from 'vitest';
+import { Client, Expense, Invoice, Payment, Project } from '../types';
+import { Money, ZERO, fromTaka } from './money';
+import {
+  agingReport,
+  agingTotals,
+  allocateOldestFirst,
+  clientBalance,
+  invoiceStatus,
+  openInvoices,
+  paymentTotals,
+  totalsByMonth
+} from './finance';
+
+const client = (overrides: Partial<Client> = {}): Client => ({
+  id: 'c1',
+  name: 'Acme',
+  email: 'acme@example.com',
+  phone: '',
+  createdAt: Date.parse('2026-01-01T00:00:00Z'),
+  ...overrides
+});
+
+const invoice = (overrides: Partial<Invoice> = {}): Invoice => ({
+  id: 'inv1',
+  clientId: 'c1',
+  issueDate: '2026-01-10',
+  lines: [{ id: 'l1', description: 'Work', quantity: 1, rate: taka(1000) }],
+  taxRate: 0,
+  status: 'SENT',
+  createdAt: 0,
+  ...overrides
+});
+
+const payment = (overrides: Partial<Payment> = {}): Payment => ({
+  id: 'p1',
+  clientId: 'c1',
+  amount: ZERO,
+  date: '2026-01-15',
+  type: 'RECEIVED',
+  ...overrides
+});
+
+const expense = (overrides: Partial<Expense> = {}): Expense => ({
+  id: 'e1',
+  category: 'Office',
+  amount: ZERO,
+  date: '2026-01-15',
+  description: '',
+  ...overrides
+});
+
+const taka = (amount: number) => fromTaka(amount);
+
+describe('paymentTotals', () => {
+  it('subtracts refunds from what was received', () => {
+    const totals = paymentTotals([
+      payment({ amount: taka(500) }),
+      payment({ id: 'p2', amount: taka(250.5) }),
+      payment({ id: 'p3', amount: taka(100.25), type: 'REFUND' })
+    ]);
+    expect(totals).toEqual({ received: taka(750.5), refunded: taka(100.25), net: taka(650.25) });
+  });
+
+  it('adds amounts in whole paisa without float drift', () => {
+    const totals = paymentTotals([payment({ amount: taka(0.1) }), payment({ id: 'p2', amount: taka(0.2) })]);
+    expect(totals.received).toBe(30);
+    expect(totals.net).toBe(30);
+  });
+
+  it('treats payments without a type as received', () => {
+    expect(paymentTotals([payment({ amount: taka(10), type: undefined })]).received).toBe(taka(10));
+  });
+});
+
+describe('invoiceStatus', () => {
+  const inv = invoice({ lines: [{ id: 'l1', description: 'Work', quantity: 3, rate: taka(33.33) }], taxRate: 15 });
+  // 99.99 plus 15% tax is 114.9885, rounded to 114.99
+
+  it('keeps drafts and void invoices as they are', () => {
+    expect(invoiceStatus({ ...inv, status: 'DRAFT' }, taka(500))).toBe('DRAFT');
+    expect(invoiceStatus({ ...inv, status: 'VOID' }, taka(500))).toBe('VOID');
+  });
+
+  it('is sent until something is paid, then partially paid until the rounded total is covered', () => {
+    expect(invoiceStatus(inv, 0 as Money)).toBe('SENT');
+    expect(invoiceStatus(inv, taka(114.98))).toBe('PARTIALLY_PAID');
+    expect(invoiceStatus(inv, taka(114.99))).toBe('PAID');
+  });
+
+  it('counts overpayment as paid', () => {
+    expect(invoiceStatus(inv, taka(200))).toBe('PAID');
+  });
+});
+
+describe('allocateOldestFirst', () => {
+  const open = openInvoices('c1', [
+    invoice({ id: 'new', issueDate: '2026-03-01', lines: [{ id: 'l', description: '', quantity: 1, rate: taka(300) }] }),
+    invoice({ id: 'old', issueDate: '2026-01-01', lines: [{ id: 'l', description: '', quantity: 1, rate: taka(100.1) }] })
+  ], []);
+
+  it('fills the oldest invoice before the next', () => {
+    expect(allocateOldestFirst(taka(150), open)).toEqual([
+      { invoiceId: 'old', amount: taka(100.1) },
+      { invoiceId: 'new', amount: taka(49.9) }
+    ]);
+  });
+
+  it('stops at what is outstanding when over-allocated', () => {
+    expect(allocateOldestFirst(taka(1000), open)).toEqual([
+      { invoiceId: 'old', amount: taka(100.1) },
+      { invoiceId: 'new', amount: taka(300) }
+    ]);
+  });
+
+  it('allocates nothing for a zero or negative amount', () => {
+    expect(allocateOldestFirst(0 as Money, open)).toEqual([]);
+    expect(allocateOldestFirst(taka(-5), open)).toEqual([]);
+  });
+
+  it('only sees what earlier payments left open', () => {
+    const partlyPaid = openInvoices('c1', [invoice({ lines: [{ id: 'l', description: '', quantity: 1, rate: taka(0.3) }] })], [
+      payment({ amount: taka(0.1), allocations: [{ invoiceId: 'inv1', amount: taka(0.1) }] })
+    ]);
+    expect(partlyPaid.map(o => o.outstanding)).toEqual([20]);
+    expect(allocateOldestFirst(taka(0.2), partlyPaid)).toEqual([{ invoiceId: 'inv1', amount: taka(0.2) }]);
+  });
+});
+
+describe('clientBalance', () => {
+  it('adds sent invoices to the opening balance and ignores drafts and void invoices', () => {
+    const balance = clientBalance(client({ totalBilled: taka(500) }), [], [
+      invoice({ taxRate: 10 }),
+      invoice({ id: 'draft', status: 'DRAFT' }),
+      invoice({ id: 'void', status: 'VOID' })
+    ]);
+    expect(balance.billed).toBe(taka(1600));
+    expect(balance.due).toBe(taka(1600));
+    expect(balance.openingDue).toBe(taka(500));
+    expect(balance.credit).toBe(0);
+  });
+
+  it('settles the opening balance with unallocated payments before counting credit', () => {
+    const balance = clientBalance(client({ totalBilled: taka(200) }), [
+      payment({ amount: taka(1000), allocations: [{ invoiceId: 'inv1', amount: taka(1000) }] }),
+      payment({ id: 'p2', amount: taka(250.75) })
+    ], [invoice()]);
+    expect(balance.paid).toBe(taka(1250.75));
+    expect(balance.due).toBe(taka(-50.75));
+    expect(balance.openingDue).toBe(0);
+    expect(balance.credit).toBe(taka(50.75));
+  });
+
+  it('leaves the opening balance partly due after a partial payment', () => {
+    const balance = clientBalance(client({ totalBilled: taka(100) }), [payment({ amount: taka(33.33) })], []);
+    expect(balance.openingDue).toBe(taka(66.67));
+    expect(balance.due).toBe(taka(66.67));
+  });
+
+  it('counts refunds against what was paid and ignores other clients', () => {
+    const balance = clientBalance(client({ totalBilled: taka(100) }), [
+      payment({ amount: taka(100) }),
+      payment({ id: 'p2', amount: taka(40), type: 'REFUND' }),
+      payment({ id: 'p3', clientId: 'c2', amount: taka(999) })
+    ], []);
+    expect(balance.paid).toBe(taka(60));
+    expect(balance.due).toBe(taka(40));
+    expect(balance.openingDue).toBe(taka(40));
+  });
+});
+
+describe('agingReport', () => {
+  const today = '2026-04-30';
+  const projects: Project[] = [{
+    id: 'pr1',
+    clientId: 'c1',
+    name: 'Site',
+    contractValue: ZERO,
+    startDate: '2026-01-01',
+    status: 'ACTIVE',
+    milestones: [{ id: 'm1', name: 'Launch', amount: taka(100), dueDate: '2026-02-28', invoiceId: 'milestone' }],
+    createdAt: 0
+  }];
+
+  it('buckets each open invoice by days past its due date', () => {
+    const [row] = agingReport([client()], [
+      invoice({ id: 'current', dueDate: '2026-05-15' }),
+      invoice({ id: 'd30', dueDate: '2026-03-31' }),
+      invoice({ id: 'd31', dueDate: '2026-03-30' }),
+      invoice({ id: 'd90plus', dueDate: '2026-01-29' })
+    ], [], [], today);
+    const byId = Object.fromEntries(row.items.map(item => [item.invoice!.id, item]));
+    expect(byId.current.bucket).toBe('CURRENT');
+    expect(byId.d30).toMatchObject({ daysOverdue: 30, bucket: 'DAYS_1_30' });
+    expect(byId.d31).toMatchObject({ daysOverdue: 31, bucket: 'DAYS_31_60' });
+    expect(byId.d90plus).toMatchObject({ daysOverdue: 91, bucket: 'DAYS_90_PLUS' });
+    expect(row.total).toBe(taka(4000));
+  });
+
+  it("falls back to the milestone's due date, then the issue date", () => {
+    const [row] = agingReport([client()], [
+      invoice({ id: 'milestone', projectId: 'pr1', issueDate: '2026-04-01' }),
+      invoice({ id: 'issued', issueDate: '2026-04-20' })
+    ], [], projects, today);
+    expect(row.items.map(item => [item.invoice!.id, item.dueDate])).toEqual([
+      ['milestone', '2026-02-28'],
+      ['issued', '2026-04-20']
+    ]);
+  });
+
+  it('ages only what is left after partial payments and ages the opening balance from when the client was added', () => {
+    const [row] = agingReport([client({ totalBilled: taka(50.5) })], [invoice({ dueDate: '2026-04-10' })], [
+      payment({ amount: taka(999.99), allocations: [{ invoiceId: 'inv1', amount: taka(999.99) }] })
+    ], [], today);
+    expect(row.items).toEqual([
+      expect.objectContaining({ dueDate: '2026-01-01', outstanding: taka(50.5), bucket: 'DAYS_90_PLUS' }),
+      expect.objectContaining({ dueDate: '2026-04-10', outstanding: 1, bucket: 'DAYS_1_30' })
+    ]);
+    expect(row.items[0].invoice).toBeUndefined();
+    expect(row.buckets.DAYS_1_30).toBe(1);
+    expect(row.total).toBe(taka(50.51));
+  });
+
+  it('leaves out clients who are paid up and reports unapplied credit separately', () => {
+    const rows = agingReport([client(), client({ id: 'c2', name: 'Paid' })], [
+      invoice({ dueDate: '2026-04-01' }),
+      invoice({ id: 'inv2', clientId: 'c2', dueDate: '2026-04-01' })
+    ], [
+      payment({ amount: taka(200) }),
+      payment({ id: 'p2', clientId: 'c2', amount: taka(1000), allocations: [{ invoiceId: 'inv2', amount: taka(1000) }] })
+    ], [], today);
+    expect(rows.map(r => r.client.id)).toEqual(['c1']);
+    expect(rows[0].total).toBe(taka(1000));
+    expect(rows[0].credit).toBe(taka(200));
+    expect(agingTotals(rows)).toMatchObject({ total: taka(1000), credit: taka(200) });
+  });
+});
+
+describe('totalsByMonth', () => {
+  it('nets refunds and adds expenses for just the requested months', () => {
+    const totals = totalsByMonth([
+      payment({ amount: taka(0.1), date: '2026-01-05' }),
+      payment({ id: 'p2', amount: taka(0.2), date: '2026-01-31' }),
+      payment({ id: 'p3', amount: taka(0.05), date: '2026-01-20', type: 'REFUND' }),
+      payment({ id: 'p4', amount: taka(500), date: '2025-12-31' })
+    ], [
+      expense({ amount: taka(19.99), date: '2026-02-01' }),
+      expense({ id: 'e2', amount: taka(0.01), date: '2026-02-28' })
+    ], ['2026-01', '2026-02']);
+    expect(totals).toEqual({
+      '2026-01': { income: 25, expense: 0 },
+      '2026-02': { income: 0, expense: taka(20) }
+    });
+  });
+});
@@ -0,0 +1,309 @@
+import { AppData, Client, Expense, Invoice, InvoiceLine, InvoiceStatus, Milestone, Payment, PaymentAllocation, Project } from '../types';
+import { Money, ZERO, addMoney, subtractMoney, multiplyMoney, negateMoney, ratio, sumMoney } from './money';
+
+// Pure calculations shared by the dashboard, client list, reports and AI insight.
+// Callers pass rows already filtered (recycle bin, date range, client, method); nothing here filters implicitly.
+
+export interface PaymentTotals {
+  received: Money;
+  refunded: Money;
+  net: Money; // received - refunded
+}
+
+export interface InvoiceTotals {
+  subtotal: Money;
+  tax: Money;
+  total: Money;
+}
+
+export interface ClientBalance {
+  billed: Money; // Opening balance plus every sent invoice
+  paid: Money; // net of refunds
+  due: Money; // negative when the client has overpaid
+  credit: Money; // Paid but not yet allocated to an invoice or the opening balance
+  openingDue: Money; // Opening balance not yet covered by unallocated payments
+}
+
+export interface OpenInvoice {
+  invoice: Invoice;
+  outstanding: Money;
+}
+
+export interface ProjectBalance {
+  value: Money; // Contract value
+  received: Money; // Tagged payments net of refunds
+  due: Money; // negative when paid beyond the contract value
+  spent: Money; // Tagged expenses
+}
+
+// PENDING/OVERDUE: not done yet. TO_INVOICE: done, but its invoice was deleted or voided. INVOICED: billed.
+export type MilestoneState = 'PENDING' | 'OVERDUE' | 'TO_INVOICE' | 'INVOICED';
+
+export interface ScheduledMilestone {
+  project: Project;
+  milestone: Milestone;
+}
+
+export type AgingBucket = 'CURRENT' | 'DAYS_1_30' | 'DAYS_31_60' | 'DAYS_61_90' | 'DAYS_90_PLUS';
+
+export const AGING_BUCKETS: AgingBucket[] = ['CURRENT', 'DAYS_1_30', 'DAYS_31_60', 'DAYS_61_90', 'DAYS_90_PLUS'];
+
+// One amount a client still owes: an open invoice, or the unpaid part of their opening balance
+export interface AgingItem {
+  invoice?: Invoice; // Missing for the opening balance
+  dueDate: string;
+  daysOverdue: number; // 0 or less while not yet due
+  bucket: AgingBucket;
+  outstanding: Money;
+}
+
+export interface ClientAging {
+  client: Client;
+  items: AgingItem[]; // Oldest due date first
+  buckets: Record<AgingBucket, Money>;
+  total: Money;
+  credit: Money; // Unallocated payments; `total - credit` is the client's due
+}
+
+export interface FinancialSummary extends PaymentTotals {
+  expenses: Money;
+  netProfit: Money;
+  margin: number; // Net profit as a percentage of net income, 0 when there is no income
+  outstanding: Money; // Sum of positive client dues
+}
+
+export interface PeriodTotals {
+  income: Money;
+  expense: Money;
+}
+
+export const isRefund = (payment: Payment) => payment.type === 'REFUND';
+
+// Refunds count against income
+export const signedAmount = (payment: Payment): Money =>
+  isRefund(payment) ? negateMoney(payment.amount) : payment.amount;
+
+export const paymentTotals = (payments: Payment[]): PaymentTotals => {
+  const received = sumMoney(payments.filter(p => !isRefund(p)), p => p.amount);
+  const refunded = sumMoney(payments.filter(isRefund), p => p.amount);
+  return { received, refunded, net: subtractMoney(received, refunded) };
+};
+
+export const expenseTotal = (expenses: Expense[]): Money => sumMoney(expenses, e => e.amount);
+
+export const lineAmount = (line: InvoiceLine): Money => multiplyMoney(line.rate, line.quantity);
+
+export const invoiceTotals = (invoice: Pick<Invoice, 'lines' | 'taxRate'>): InvoiceTotals => {
+  const subtotal = addMoney(...invoice.lines.map(lineAmount));
+  const tax = multiplyMoney(subtotal, (invoice.taxRate || 0) / 100);
+  return { subtotal, tax, total: addMoney(subtotal, tax) };
+};
+
+// Drafts haven't been billed yet and void invoices never count
+export const isBilled = (invoice: Invoice) => invoice.status === 'SENT';
+
+export const allocatedAmount = (payment: Payment): Money =>
+  isRefund(payment) ? ZERO : sumMoney(payment.allocations || [], a => a.amount);
+
+// How much of each invoice has been settled, from the allocations on the payments passed in
+export const invoicePaidAmounts = (payments: Payment[]): Record<string, Money> =>
+  payments.filter(p => !isRefund(p)).reduce((acc, p) => {
+    (p.allocations || []).forEach(a => {
+      acc[a.invoiceId] = addMoney(acc[a.invoiceId] || ZERO, a.amount);
+    });
+    return acc;
+  }, {} as Record<string, Money>);
+
+// The client's sent invoices that still have something left to pay, oldest first.
+// Leave `payment` out of `payments` to see what it could be allocated to while editing it.
+export const openInvoices = (clientId: string, invoices: Invoice[], payments: Payment[]): OpenInvoice[] => {
+  const paid = invoicePaidAmounts(payments);
+  return invoices
+    .filter(inv => inv.clientId === clientId && isBilled(inv))
+    .sort((a, b) => a.issueDate.localeCompare(b.issueDate) || (a.number || '').localeCompare(b.number || ''))
+    .map(invoice => ({ invoice, outstanding: subtractMoney(invoiceTotals(invoice).total, paid[invoice.id] || ZERO) }))
+    .filter(({ outstanding }) => outstanding > 0);
+};
+
+// Spreads `amount` over open invoices oldest first; returns the allocations made
+export const allocateOldestFirst = (amount: Money, open: OpenInvoice[]): PaymentAllocation[] => {
+  let remaining = amount;
+  return open.flatMap(({ invoice, outstanding }) => {
+    const applied = Math.min(remaining, outstanding) as Money;
+    if (applied <= 0) return [];
+    remaining = subtractMoney(remaining, applied);
+    return [{ invoiceId: invoice.id, amount: applied }];
+  });
+};
+
+export const invoiceStatus = (invoice: Invoice, paid: Money): InvoiceStatus => {
+  if (!isBilled(invoice)) return invoice.status;
+  if (paid <= 0) return 'SENT';
+  return paid >= invoiceTotals(invoice).total ? 'PAID' : 'PARTIALLY_PAID';
+};
+
+// Billed is the opening balance plus sent invoices; dues always use every payment the client has ever made.
+// Unallocated payments settle the opening balance first; anything beyond that is credit.
+export const clientBalance = (client: Client, payments: Payment[], invoices: Invoice[]): ClientBalance => {
+  const clientPayments = payments.filter(p => p.clientId === client.id);
+  const billed = addMoney(
+    client.totalBilled || ZERO,
+    ...invoices.filter(inv => inv.clientId === client.id && isBilled(inv)).map(inv => invoiceTotals(inv).total)
+  );
+  const paid = paymentTotals(clientPayments).net;
+  const unallocated = subtractMoney(paid, addMoney(...clientPayments.map(allocatedAmount)));
+  const credit = subtractMoney(unallocated, client.totalBilled || ZERO);
+  return {
+    billed,
+    paid,
+    due: subtractMoney(billed, paid),
+    credit: credit > 0 ? credit : ZERO,
+    openingDue: credit < 0 ? negateMoney(credit) : ZERO
+  };
+};
+
+export const projectBalance = (project: Project, payments: Payment[], expenses: Expense[]): ProjectBalance => {
+  const value = project.contractValue || ZERO;
+  const received = paymentTotals(payments.filter(p => p.projectId === project.id)).net;
+  const spent = expenseTotal(expenses.filter(e => e.projectId === project.id));
+  return { value, received, due: subtractMoney(value, received), spent };
+};
+
+export const milestoneState = (milestone: Milestone, invoices: Invoice[], today: string): MilestoneState => {
+  if (milestone.completedAt) {
+    const invoice = invoices.find(inv => inv.id === milestone.invoiceId);
+    return invoice && invoice.status !== 'VOID' ? 'INVOICED' : 'TO_INVOICE';
+  }
+  return milestone.dueDate && milestone.dueDate < today ? 'OVERDUE' : 'PENDING';
+};
+
+// Unfinished milestones of open projects that are overdue, or due within `days` of today; soonest first
+export const milestonesDue = (projects: Project[], today: string, days: number): { overdue: ScheduledMilestone[]; upcoming: ScheduledMilestone[] } => {
+  const horizon = new Date(`${today}T00:00:00Z`);
+  horizon.setUTCDate(horizon.getUTCDate() + days);
+  const until = horizon.toISOString().split('T')[0];
+  const scheduled = projects
+    .filter(p => p.status === 'ACTIVE' || p.status === 'ON_HOLD')
+    .flatMap(project => (project.milestones || []).map(milestone => ({ project, milestone })))
+    .filter(({ milestone }) => !milestone.completedAt && milestone.dueDate && milestone.dueDate <= until)
+    .sort((a, b) => a.milestone.dueDate!.localeCompare(b.milestone.dueDate!));
+  return {
+    overdue: scheduled.filter(({ milestone }) => milestone.dueDate! < today),
+    upcoming: scheduled.filter(({ milestone }) => milestone.dueDate! >= today)
+  };
+};
+
+// Overpayments don't offset what other clients owe
+export const totalOutstanding = (clients: Client[], payments: Payment[], invoices: Invoice[]): Money =>
+  clients.reduce<Money>((sum, client) => {
+    const { due } = clientBalance(client, payments, invoices);
+    return due > 0 ? addMoney(sum, due) : sum;
+  }, ZERO);
+
+// Whole days from one ISO date to another; negative when `to` comes first
+export const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+
+export const agingBucket = (daysOverdue: number): AgingBucket => {
+  if (daysOverdue <= 0) return 'CURRENT';
+  if (daysOverdue <= 30) return 'DAYS_1_30';
+  if (daysOverdue <= 60) return 'DAYS_31_60';
+  if (daysOverdue <= 90) return 'DAYS_61_90';
+  return 'DAYS_90_PLUS';
+};
+
+const emptyBuckets = (): Record<AgingBucket, Money> =>
+  Object.fromEntries(AGING_BUCKETS.map(b => [b, ZERO])) as Record<AgingBucket, Money>;
+
+// When an open invoice fell due: its own due date, else that of the milestone it bills, else its issue date
+const invoiceDueDate = (invoice: Invoice, projects: Project[]): string => {
+  if (invoice.dueDate) return invoice.dueDate;
+  const milestone = projects
+    .find(p => p.id === invoice.projectId)?.milestones
+    ?.find(m => m.invoiceId === invoice.id);
+  return milestone?.dueDate || invoice.issueDate;
+};
+
+// What each client owes, split by how long it has been due as of `today`. Opening balances have no
+// due date of their own and age from when the client was added. Clients who owe nothing are left out.
+export const agingReport = (clients: Client[], invoices: Invoice[], payments: Payment[], projects: Project[], today: string): ClientAging[] =>
+  clients.flatMap(client => {
+    const { credit, openingDue } = clientBalance(client, payments, invoices);
+    const owed: { invoice?: Invoice; dueDate: string; outstanding: Money }[] = openInvoices(client.id, invoices, payments)
+      .map(({ invoice, outstanding }) => ({ invoice, dueDate: invoiceDueDate(invoice, projects), outstanding }));
+    if (openingDue > 0) {
+      owed.push({ dueDate: new Date(client.createdAt).toISOString().split('T')[0], outstanding: openingDue });
+    }
+    const items: AgingItem[] = owed
+      .map(item => {
+        const daysOverdue = daysBetween(item.dueDate, today);
+        return { ...item, daysOverdue, bucket: agingBucket(daysOverdue) };
+      })
+      .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+    if (items.length === 0) return [];
+    const buckets = emptyBuckets();
+    items.forEach(item => { buckets[item.bucket] = addMoney(buckets[item.bucket], item.outstanding); });
+    return [{ client, items, buckets, total: addMoney(...items.map(i => i.outstanding)), credit }];
+  });
+
+// Bucket and grand totals across the report's clients
+export const agingTotals = (rows: ClientAging[]): { buckets: Record<AgingBucket, Money>; total: Money; credit: Money } => {
+  const buckets = emptyBuckets();
+  rows.forEach(row => AGING_BUCKETS.forEach(b => { buckets[b] = addMoney(buckets[b], row.buckets[b]); }));
+  return { buckets, total: addMoney(...rows.map(r => r.total)), credit: addMoney(...rows.map(r => r.credit)) };
+};
+
+export const expensesByCategory = (expenses: Expense[]): Record<string, Money> =>
+  expenses.reduce((acc, e) => {
+    acc[e.category] = addMoney(acc[e.category] || ZERO, e.amount);
+    return acc;
+  }, {} as Record<string, Money>);
+
+// Net received per payment method (refunds subtracted from their own method)
+export const netByMethod = (payments: Payment[]): Record<string, Money> =>
+  payments.reduce((acc, p) => {
+    const method = p.method || 'Cash';
+    acc[method] = addMoney(acc[method] || ZERO, signedAmount(p));
+    return acc;
+  }, {} as Record<string, Money>);
+
+// YYYY-MM key of an ISO date
+export const monthKey = (date: string) => date.substring(0, 7);
+
+// The last `count` months up to and including the month of `today`, oldest first
+export const recentMonthKeys = (count: number, today = new Date()): string[] =>
+  Array.from({ length: count }, (_, i) => {
+    const d = new Date(today.getFullYear(), today.getMonth() - (count - 1 - i), 1);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+  });
+
+// Income (net of refunds) and expenses per month, for just the requested month keys
+export const totalsByMonth = (payments: Payment[], expenses: Expense[], months: string[]): Record<string, PeriodTotals> => {
+  const totals: Record<string, PeriodTotals> = Object.fromEntries(months.map(m => [m, { income: ZERO, expense: ZERO }]));
+  payments.forEach(p => {
+    const bucket = totals[monthKey(p.date)];
+    if (bucket) bucket.income = addMoney(bucket.income, signedAmount(p));
+  });
+  expenses.forEach(e => {
+    const bucket = totals[monthKey(e.date)];
+    if (bucket) bucket.expense = addMoney(bucket.expense, e.amount);
+  });
+  return totals;
+};
+
+// Inclusive ISO date range check; either bound may be empty
+export const inPeriod = (date: string, start?: string, end?: string) =>
+  (!start || date >= start) && (!end || date <= end);
+
+export const summarize = (data: Pick<AppData, 'clients' | 'invoices' | 'payments' | 'expenses'>): FinancialSummary => {
+  const totals = paymentTotals(data.payments);
+  const expenses = expenseTotal(data.expenses);
+  const netProfit = subtractMoney(totals.net, expenses);
+  return {
+    ...totals,
+    expenses,
+    netProfit,
+    margin: totals.net > 0 ? ratio(netProfit, totals.net) : 0,
+    outstanding: totalOutstanding(data.clients, data.payments, data.invoices)
+  };
+};
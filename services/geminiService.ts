@@ -1,5 +1,7 @@
 import { GoogleGenAI } from "@google/genai";
 import { AppData } from "../types";
+import { summarize, expensesByCategory } from "./finance";
+import { toTaka, formatMoney } from "./money";
 
 const getClient = () => {
   // Use the provided API Key directly
@@ -19,37 +21,17 @@ export const generateFinancialInsight = async (data: AppData): Promise<string> =
     const model = 'gemini-2.5-flash';
 
     // Prepare a summary for the AI
-    // Calculate Income (Received - Refunds)
-    const totalIncome = data.payments.reduce((sum, p) => {
-      if (p.type === 'REFUND') return sum - p.amount;
-      return sum + p.amount;
-    }, 0);
-    
-    const totalExpenses = data.expenses.reduce((sum, e) => sum + e.amount, 0);
-    const netProfit = totalIncome - totalExpenses;
-
-    const totalDue = data.clients.reduce((sum, client) => {
-        const clientPayments = data.payments.filter(p => p.clientId === client.id);
-        const paid = clientPayments.reduce((acc, p) => {
-          return p.type === 'REFUND' ? acc - p.amount : acc + p.amount;
-        }, 0);
-        const billed = client.totalBilled || 0;
-        const due = billed - paid;
-        return sum + (due > 0 ? due : 0);
-    }, 0);
-    
-    const expenseBreakdown = data.expenses.reduce((acc, curr) => {
-      acc[curr.category] = (acc[curr.category] || 0) + curr.amount;
-      return acc;
-    }, {} as Record<string, number>);
+    const summary = summarize(data);
+    const categories = expensesByCategory(data.expenses);
+    const expenseBreakdown = Object.fromEntries(Object.entries(categories).map(([cat, amount]) => [cat, toTaka(amount)]));
 
     const prompt = `
       Act as a financial advisor for a small business.
       Here is the current financial summary:
-      - Total Revenue (after refunds): ৳${totalIncome.toFixed(2)}
-      - Total Expenses: ৳${totalExpenses.toFixed(2)}
-      - Net Profit: ৳${netProfit.toFixed(2)}
-      - Total Outstanding Payments (Due from clients): ৳${totalDue.toFixed(2)}
+      - Total Revenue (after refunds): ${formatMoney(summary.net)}
+      - Total Expenses: ${formatMoney(summary.expenses)}
+      - Net Profit: ${formatMoney(summary.netProfit)}
+      - Total Outstanding Payments (Due from clients): ${formatMoney(summary.outstanding)}
       
       Expense Breakdown by Category:
       ${JSON.stringify(expenseBreakdown, null, 2)}
@@ -0,0 +1,47 @@
+import { Invoice } from '../types';
+
+const NUMBERING_KEY = 'biztrack_invoice_numbering_v1';
+
+// How invoice numbers are built, e.g. EIT-2026-0001. Set by an administrator in Settings and kept in this browser
+// only, like the session settings, so each device that sends invoices needs the same format saved.
+export interface InvoiceNumbering {
+  prefix: string;
+  digits: number; // Zero-padded width of the sequence number
+  yearly: boolean; // Include the issue year and restart the sequence each year
+}
+
+export const DEFAULT_INVOICE_NUMBERING: InvoiceNumbering = { prefix: 'EIT', digits: 4, yearly: true };
+
+export const getInvoiceNumbering = (): InvoiceNumbering => {
+  try {
+    const stored = localStorage.getItem(NUMBERING_KEY);
+    return stored ? { ...DEFAULT_INVOICE_NUMBERING, ...JSON.parse(stored) } : DEFAULT_INVOICE_NUMBERING;
+  } catch (e) {
+    console.error("Failed to read invoice numbering", e);
+    return DEFAULT_INVOICE_NUMBERING;
+  }
+};
+
+export const saveInvoiceNumbering = (numbering: InvoiceNumbering) => {
+  if (!/^[A-Za-z0-9]+$/.test(numbering.prefix)) throw new Error('The invoice prefix can only contain letters and digits.');
+  if (!(numbering.digits >= 1 && numbering.digits <= 8)) throw new Error('Sequence numbers need between 1 and 8 digits.');
+  localStorage.setItem(NUMBERING_KEY, JSON.stringify(numbering));
+};
+
+const seriesOf = (numbering: InvoiceNumbering, issueDate: string) =>
+  numbering.yearly ? `${numbering.prefix}-${issueDate.substring(0, 4)}-` : `${numbering.prefix}-`;
+
+export const formatInvoiceNumber = (numbering: InvoiceNumbering, issueDate: string, sequence: number) =>
+  `${seriesOf(numbering, issueDate)}${String(sequence).padStart(numbering.digits, '0')}`;
+
+// One past the highest number already used in the same series. Worked out from the documents themselves
+// rather than a stored counter, so devices with the same format continue one sequence. Quotes reuse it with their own series.
+export const nextInvoiceNumber = (invoices: Pick<Invoice, 'number'>[], issueDate: string, numbering = getInvoiceNumbering()): string => {
+  const series = seriesOf(numbering, issueDate);
+  const highest = invoices.reduce((max, inv) => {
+    if (!inv.number?.startsWith(series)) return max;
+    const sequence = Number(inv.number.substring(series.length));
+    return Number.isInteger(sequence) && sequence > max ? sequence : max;
+  }, 0);
+  return formatInvoiceNumber(numbering, issueDate, highest + 1);
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, SchemaVersionError, getSchemaVersion, migrateData, rowToPaisa } from './migrations';
+
+const COLLECTIONS = ['clients', 'payments', 'expenses', 'auditLog', 'users', 'invoices', 'projects', 'billingTemplates', 'expenseRules', 'quotes'];
+
+describe('getSchemaVersion', () => {
+  it('treats data without a valid version as version 1', () => {
+    expect(getSchemaVersion({})).toBe(1);
+    expect(getSchemaVersion({ schemaVersion: 'x' })).toBe(1);
+    expect(getSchemaVersion({ schemaVersion: 0 })).toBe(1);
+    expect(getSchemaVersion({ schemaVersion: 2.5 })).toBe(1);
+    expect(getSchemaVersion(null)).toBe(1);
+    expect(getSchemaVersion({ schemaVersion: '7' })).toBe(7);
+  });
+});
+
+describe('migrateData', () => {
+  it('upgrades an unversioned backup with every collection and default filled in', () => {
+    const data = migrateData({
+      clients: [{ id: 'c1', name: 'Acme', totalBilled: 10.005 }, { id: 'c2', name: 'Old', isActive: false }],
+      payments: [{ id: 'p1', clientId: 'c1', amount: 99.999 }]
+    });
+
+    expect(data.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    for (const collection of COLLECTIONS) expect(Array.isArray((data as any)[collection])).toBe(true);
+    expect(data.clients.map(c => c.isActive)).toEqual([true, false]);
+    expect(data.clients[0].totalBilled).toBe(1001);
+    expect(data.payments[0]).toMatchObject({ type: 'RECEIVED', method: 'Cash', amount: 10000, allocations: [] });
+  });
+
+  it('only runs the steps newer than the stored version', () => {
+    const data = migrateData({
+      schemaVersion: 8,
+      clients: [], payments: [], expenses: [], auditLog: [], users: [], invoices: [],
+      projects: [{ id: 'pr1', name: 'Site' }]
+    });
+
+    expect(data.projects[0].milestones).toEqual([]);
+    expect(data.billingTemplates).toEqual([]);
+    expect(data.expenseRules).toEqual([]);
+    expect(data.quotes).toEqual([]);
+  });
+
+  it('keeps current data as it is', () => {
+    const current = Object.fromEntries(COLLECTIONS.map(c => [c, []]));
+    const payment = { id: 'p1', clientId: 'c1', amount: 1234, type: 'REFUND', method: 'Bank', allocations: [] };
+    const data = migrateData({ ...current, payments: [payment], schemaVersion: CURRENT_SCHEMA_VERSION });
+    expect(data.payments).toEqual([payment]);
+  });
+
+  it('converts taka amounts to paisa everywhere they are stored, audit snapshots included', () => {
+    const lines = [{ id: 'l1', description: 'Work', quantity: 2, rate: 33.33 }];
+    const data = migrateData({
+      schemaVersion: 12,
+      clients: [{ id: 'c1', totalBilled: 500 }, { id: 'c2' }],
+      payments: [{ id: 'p1', amount: 150.5, allocations: [{ invoiceId: 'i1', amount: 100.25 }] }],
+      expenses: [{ id: 'e1', amount: 0.1 }],
+      projects: [{ id: 'pr1', contractValue: 1000, milestones: [{ id: 'm1', amount: 250.75 }] }],
+      invoices: [{ id: 'i1', lines }],
+      quotes: [{ id: 'q1', lines }],
+      billingTemplates: [{ id: 't1', amount: 99.99 }],
+      expenseRules: [{ id: 'r1', amount: 25000 }],
+      auditLog: [
+        { id: 'a1', entityType: 'payments', before: { amount: 1 }, after: { amount: 2, allocations: [{ amount: 2 }] } },
+        { id: 'a2', entityType: 'data', after: { clients: 3, payments: 1, expenses: 1 } }
+      ],
+      users: []
+    });
+
+    expect(data.clients.map(c => c.totalBilled)).toEqual([50000, undefined]);
+    expect(data.payments[0]).toMatchObject({ amount: 15050, allocations: [{ invoiceId: 'i1', amount: 10025 }] });
+    expect(data.expenses[0].amount).toBe(10);
+    expect(data.projects[0]).toMatchObject({ contractValue: 100000, milestones: [{ id: 'm1', amount: 25075 }] });
+    expect(data.invoices[0].lines[0]).toMatchObject({ quantity: 2, rate: 3333 });
+    expect(data.quotes[0].lines[0].rate).toBe(3333);
+    expect(data.billingTemplates[0].amount).toBe(9999);
+    expect(data.expenseRules[0].amount).toBe(2500000);
+    expect(data.auditLog[0]).toMatchObject({ before: { amount: 100 }, after: { amount: 200, allocations: [{ amount: 200 }] } });
+    expect(data.auditLog[1].after).toEqual({ clients: 3, payments: 1, expenses: 1 });
+  });
+
+  it('converts queued audit entries along with the row they describe', () => {
+    expect(rowToPaisa('auditLog', { entityType: 'expenses', after: { amount: 12.5 } })).toEqual({
+      entityType: 'expenses',
+      before: undefined,
+      after: { amount: 1250 }
+    });
+    expect(rowToPaisa('users', { email: 'a@example.com' })).toEqual({ email: 'a@example.com' });
+  });
+
+  it('refuses data saved by a newer version of the app', () => {
+    expect(() => migrateData({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 })).toThrow(SchemaVersionError);
+  });
+
+  it('rejects anything that is not a data object', () => {
+    expect(() => migrateData(null)).toThrow('Invalid data');
+    expect(() => migrateData('backup')).toThrow('Invalid data');
+    expect(() => migrateData({ schemaVersion: CURRENT_SCHEMA_VERSION, clients: [] })).toThrow('Invalid data');
+  });
+});
@@ -0,0 +1,154 @@
+import { AppData } from '../types';
+import { fromTaka, roundTaka } from './money';
+
+// Bump this and append a migration whenever the stored shape of AppData changes
+export const CURRENT_SCHEMA_VERSION = 13;
+
+// Converts one row (or audit snapshot) of `collection` from taka amounts to integer paisa, nested lists included.
+// Shared by the schema migration and the outbox, whose queued writes may have been made before the change.
+export const rowToPaisa = (collection: string, row: any): any => {
+  if (!row || typeof row !== 'object') return row;
+  const each = (items: any, field: string) =>
+    Array.isArray(items) ? items.map(item => ({ ...item, [field]: fromTaka(item?.[field]) })) : items;
+  switch (collection) {
+    case 'clients':
+      return row.totalBilled === undefined ? row : { ...row, totalBilled: fromTaka(row.totalBilled) };
+    case 'payments':
+      return { ...row, amount: fromTaka(row.amount), allocations: each(row.allocations, 'amount') };
+    case 'expenses':
+    case 'expenseRules':
+    case 'billingTemplates':
+      return { ...row, amount: fromTaka(row.amount) };
+    case 'projects':
+      return { ...row, contractValue: fromTaka(row.contractValue), milestones: each(row.milestones, 'amount') };
+    case 'invoices':
+    case 'quotes':
+      return { ...row, lines: each(row.lines, 'rate') };
+    case 'auditLog':
+      return { ...row, before: rowToPaisa(row.entityType, row.before), after: rowToPaisa(row.entityType, row.after) };
+    default:
+      return row;
+  }
+};
+
+const MONEY_COLLECTIONS = ['clients', 'payments', 'expenses', 'expenseRules', 'billingTemplates', 'projects', 'invoices', 'quotes', 'auditLog'];
+
+interface Migration {
+  version: number; // Schema version this migration produces
+  description: string;
+  migrate: (data: any) => any;
+}
+
+// Ordered oldest first. Each step takes data at `version - 1` and returns data at `version`.
+// Stores and backups written before versioning have no schemaVersion and count as version 1.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Fill in missing collections, client status and payment type/method defaults',
+    migrate: (data) => ({
+      ...data,
+      clients: (data.clients || []).map((c: any) => ({ ...c, isActive: c.isActive !== false })),
+      payments: (data.payments || []).map((p: any) => ({ ...p, type: p.type || 'RECEIVED', method: p.method || 'Cash' })),
+      expenses: data.expenses || []
+    })
+  },
+  {
+    version: 3,
+    description: 'Add the audit log',
+    migrate: (data) => ({ ...data, auditLog: data.auditLog || [] })
+  },
+  {
+    version: 4,
+    description: 'Round stored amounts to whole paisa',
+    migrate: (data) => ({
+      ...data,
+      clients: data.clients.map((c: any) => ({ ...c, totalBilled: roundTaka(c.totalBilled) })),
+      payments: data.payments.map((p: any) => ({ ...p, amount: roundTaka(p.amount) })),
+      expenses: data.expenses.map((e: any) => ({ ...e, amount: roundTaka(e.amount) }))
+    })
+  },
+  {
+    version: 5,
+    description: 'Add the user directory',
+    migrate: (data) => ({ ...data, users: data.users || [] })
+  },
+  {
+    version: 6,
+    description: 'Add invoices',
+    migrate: (data) => ({ ...data, invoices: data.invoices || [] })
+  },
+  {
+    version: 7,
+    description: 'Add payment allocations against invoices',
+    migrate: (data) => ({
+      ...data,
+      payments: data.payments.map((p: any) => ({ ...p, allocations: p.allocations || [] }))
+    })
+  },
+  {
+    version: 8,
+    description: 'Add client projects',
+    migrate: (data) => ({ ...data, projects: data.projects || [] })
+  },
+  {
+    version: 9,
+    description: 'Add project milestones',
+    migrate: (data) => ({
+      ...data,
+      projects: data.projects.map((p: any) => ({ ...p, milestones: p.milestones || [] }))
+    })
+  },
+  {
+    version: 10,
+    description: 'Add recurring billing templates',
+    migrate: (data) => ({ ...data, billingTemplates: data.billingTemplates || [] })
+  },
+  {
+    version: 11,
+    description: 'Add recurring expense rules',
+    migrate: (data) => ({ ...data, expenseRules: data.expenseRules || [] })
+  },
+  {
+    version: 12,
+    description: 'Add quotes',
+    migrate: (data) => ({ ...data, quotes: data.quotes || [] })
+  },
+  {
+    version: 13,
+    description: 'Store amounts as integer paisa, audit log snapshots included',
+    migrate: (data) => ({
+      ...data,
+      ...Object.fromEntries(MONEY_COLLECTIONS.map(c => [c, data[c].map((row: any) => rowToPaisa(c, row))]))
+    })
+  }
+];
+
+export class SchemaVersionError extends Error {
+  constructor(found: number) {
+    super(`This data was saved by a newer version of Euro IT Accounts (schema v${found}; this app supports up to v${CURRENT_SCHEMA_VERSION}). Please update the app before importing it.`);
+    this.name = 'SchemaVersionError';
+  }
+}
+
+export const getSchemaVersion = (data: any): number => {
+  const version = Number(data?.schemaVersion);
+  return Number.isInteger(version) && version > 0 ? version : 1;
+};
+
+// Upgrades a local store or imported backup to the current shape. Throws SchemaVersionError if it is newer than the app.
+export const migrateData = (raw: any): AppData => {
+  if (!raw || typeof raw !== 'object') throw new Error('Invalid data: expected a JSON object.');
+
+  const found = getSchemaVersion(raw);
+  if (found > CURRENT_SCHEMA_VERSION) throw new SchemaVersionError(found);
+
+  const migrated = MIGRATIONS
+    .filter(m => m.version > found)
+    .reduce((data, m) => m.migrate(data), raw);
+
+  if (!Array.isArray(migrated.clients) || !Array.isArray(migrated.payments) || !Array.isArray(migrated.expenses) || !Array.isArray(migrated.auditLog) || !Array.isArray(migrated.users) || !Array.isArray(migrated.invoices) || !Array.isArray(migrated.projects) || !Array.isArray(migrated.billingTemplates) || !Array.isArray(migrated.expenseRules) || !Array.isArray(migrated.quotes)) {
+    throw new Error('Invalid data: clients, payments and expenses lists are required.');
+  }
+
+  return { ...migrated, schemaVersion: CURRENT_SCHEMA_VERSION };
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { Money, fromTaka, formatMoneyPlain, multiplyMoney, parseMoney, parseMoneyInput, roundTaka, sumMoney, takaInputValue } from './money';
+
+describe('parseMoney', () => {
+  it('reads plain, grouped and symbol-prefixed amounts as paisa', () => {
+    expect(parseMoney('99')).toBe(9900);
+    expect(parseMoney('1,250.5')).toBe(125050);
+    expect(parseMoney('৳ 99')).toBe(9900);
+    expect(parseMoney(' 12.34 ')).toBe(1234);
+  });
+
+  it('accepts leading-dot decimals and negatives', () => {
+    expect(parseMoney('.5')).toBe(50);
+    expect(parseMoney('-20.25')).toBe(-2025);
+  });
+
+  it('rounds extra decimals to whole paisa without float drift', () => {
+    expect(parseMoney('0.105')).toBe(11);
+    expect(parseMoney('1.005')).toBe(101);
+    expect(parseMoney('0.1')! + parseMoney('0.2')!).toBe(30);
+  });
+
+  it('returns null for anything that is not a number', () => {
+    expect(parseMoney('')).toBeNull();
+    expect(parseMoney('abc')).toBeNull();
+    expect(parseMoney('1.2.3')).toBeNull();
+    expect(parseMoney('12a')).toBeNull();
+    expect(parseMoney('-')).toBeNull();
+  });
+});
+
+describe('form inputs', () => {
+  it('reads typed taka as paisa, or undefined for invalid input', () => {
+    expect(parseMoneyInput('1,000.555')).toBe(100056);
+    expect(parseMoneyInput('')).toBeUndefined();
+  });
+
+  it('shows stored paisa as taka, and nothing while unset', () => {
+    expect(takaInputValue(100056 as Money)).toBe(1000.56);
+    expect(takaInputValue(0 as Money)).toBe(0);
+    expect(takaInputValue(undefined)).toBe('');
+  });
+});
+
+describe('formatMoneyPlain', () => {
+  it('writes taka with two decimals and no symbol or grouping', () => {
+    expect(formatMoneyPlain(123450 as Money)).toBe('1234.50');
+    expect(formatMoneyPlain(5 as Money)).toBe('0.05');
+    expect(formatMoneyPlain(0 as Money)).toBe('0.00');
+  });
+
+  it('puts the sign in front of negative amounts', () => {
+    expect(formatMoneyPlain(-2025 as Money)).toBe('-20.25');
+    expect(formatMoneyPlain(-7 as Money)).toBe('-0.07');
+  });
+
+  it('round-trips what parseMoney reads', () => {
+    for (const input of ['0.01', '19.99', '1000000.10', '-3.30']) {
+      expect(formatMoneyPlain(parseMoney(input)!)).toBe(input);
+    }
+  });
+});
+
+describe('paisa arithmetic', () => {
+  it('converts taka and sums rows, counting missing amounts as zero', () => {
+    expect(fromTaka(undefined)).toBe(0);
+    expect(roundTaka(33.335)).toBe(33.34);
+    expect(sumMoney<{ amount?: Money }>([{ amount: fromTaka(0.1) }, { amount: fromTaka(0.2) }, {}], row => row.amount)).toBe(30);
+  });
+
+  it('rounds multiplied amounts to whole paisa', () => {
+    expect(multiplyMoney(fromTaka(33.33), 3)).toBe(9999);
+    expect(multiplyMoney(fromTaka(99.99), 0.15)).toBe(1500);
+  });
+});
@@ -0,0 +1,64 @@
+// Money is an integer number of paisa (1 taka = 100 paisa), both in memory and on stored rows.
+// Taka only appear at the edges: form inputs (toTaka to show, parseMoneyInput to read back) and charts.
+export type Money = number & { readonly __paisa: unique symbol };
+
+export const PAISA_PER_TAKA = 100;
+
+export const ZERO = 0 as Money;
+
+export const fromTaka = (taka: number | null | undefined): Money =>
+  Math.round((Number(taka) || 0) * PAISA_PER_TAKA) as Money;
+
+export const toTaka = (amount: Money): number => amount / PAISA_PER_TAKA;
+
+// Rounds a taka amount to whole paisa. Only old migrations use it, from before amounts were stored as paisa.
+export const roundTaka = (taka: number | null | undefined): number => toTaka(fromTaka(taka));
+
+// Parses user input like "1,250.5" or "৳ 99". Returns null when it isn't a number.
+export const parseMoney = (input: string): Money | null => {
+  const cleaned = input.replace(/[৳,\s]/g, '');
+  const match = /^(-?)(\d*)(?:\.(\d*))?$/.exec(cleaned);
+  if (!match || !/\d/.test(cleaned)) return null;
+  // Built from the digits rather than parseFloat(...) * 100, which reads 1.005 as 100.4999... paisa
+  const [, sign, whole, fraction = ''] = match;
+  const paisa = Number(whole || 0) * PAISA_PER_TAKA + Number(fraction.padEnd(2, '0').substring(0, 2))
+    + (Number(fraction[2] || 0) >= 5 ? 1 : 0);
+  return (sign && paisa ? -paisa : paisa) as Money;
+};
+
+export const addMoney = (...amounts: Money[]): Money =>
+  amounts.reduce((sum, amount) => sum + amount, 0) as Money;
+
+export const subtractMoney = (a: Money, b: Money): Money => (a - b) as Money;
+
+export const negateMoney = (amount: Money): Money => -amount as Money;
+
+// Scales an amount by a quantity or rate and rounds to whole paisa
+export const multiplyMoney = (amount: Money, factor: number): Money => Math.round(amount * (Number(factor) || 0)) as Money;
+
+// Sums an amount across a list of rows, counting missing ones as zero
+export const sumMoney = <T>(items: T[], amountOf: (item: T) => Money | undefined): Money =>
+  items.reduce((sum, item) => sum + (amountOf(item) || 0), 0) as Money;
+
+// Percentage of `part` in `whole`, 0 when whole is zero
+export const ratio = (part: Money, whole: Money): number => whole === 0 ? 0 : (part / whole) * 100;
+
+// "৳1,234.50" for display; negative amounts as "-৳1,234.50"
+export const formatMoney = (amount: Money): string => {
+  const sign = amount < 0 ? '-' : '';
+  const taka = Math.abs(amount) / PAISA_PER_TAKA;
+  return `${sign}৳${taka.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+};
+
+// "1234.50" with no symbol or grouping, for CSV and other machine-read exports
+export const formatMoneyPlain = (amount: Money): string => {
+  const sign = amount < 0 ? '-' : '';
+  const abs = Math.abs(amount);
+  return `${sign}${Math.floor(abs / PAISA_PER_TAKA)}.${String(abs % PAISA_PER_TAKA).padStart(2, '0')}`;
+};
+
+// A stored amount as the value of a taka form input, blank while unset
+export const takaInputValue = (amount: Money | undefined): number | '' => amount === undefined ? '' : toTaka(amount);
+
+// A taka form input as paisa, or undefined while the field is empty or invalid
+export const parseMoneyInput = (input: string): Money | undefined => parseMoney(input) ?? undefined;
@@ -0,0 +1,120 @@
+import { AppData } from '../types';
+import { COLLECTION_LABELS, Collection, Row } from './backends/types';
+import { rowToPaisa } from './migrations';
+
+export type { SyncResult } from './backends/types';
+
+const OUTBOX_KEY = 'biztrack_outbox_v2';
+// Writes queued before amounts were stored as paisa; converted and moved over the first time the outbox is read
+const LEGACY_OUTBOX_KEY = 'biztrack_outbox_v1';
+
+export type OutboxOp =
+  | { type: 'insert'; collection: Collection; row: Row<Collection> }
+  | { type: 'update'; collection: Collection; row: Row<Collection>; expectedVersion?: number }
+  | { type: 'remove'; collection: Collection; id: string };
+
+export interface OutboxItem {
+  id: string;
+  op: OutboxOp;
+  queuedAt: number;
+  attempts: number;
+  lastError?: string;
+  failed?: boolean; // Rejected by the server; holds back replay of itself and later items until retried or discarded
+}
+
+const listeners = new Set<() => void>();
+
+const readItems = (): OutboxItem[] => {
+  const legacy = localStorage.getItem(LEGACY_OUTBOX_KEY);
+  if (legacy) {
+    const items: OutboxItem[] = JSON.parse(legacy).map((item: OutboxItem) =>
+      item.op.type === 'remove' ? item : { ...item, op: { ...item.op, row: rowToPaisa(item.op.collection, item.op.row) } }
+    );
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(items));
+    localStorage.removeItem(LEGACY_OUTBOX_KEY);
+    return items;
+  }
+  const stored = localStorage.getItem(OUTBOX_KEY);
+  return stored ? JSON.parse(stored) : [];
+};
+
+const writeItems = (items: OutboxItem[]) => {
+  if (items.length) {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(items));
+  } else {
+    localStorage.removeItem(OUTBOX_KEY);
+  }
+  listeners.forEach(fn => fn());
+};
+
+// Browser fetch failures surface as "Failed to fetch" / "NetworkError" rather than a status code
+export const isNetworkError = (error: any): boolean => {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  const message = String(error?.message || error || '');
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(message);
+};
+
+// Replays a queued op onto an in-memory snapshot so pending writes stay visible after a reload
+export const applyOp = (data: AppData, op: OutboxOp): AppData => {
+  const rows = data[op.collection] as Array<{ id: string }>;
+  let next: Array<{ id: string }>;
+  if (op.type === 'insert') {
+    next = rows.some(r => r.id === op.row.id) ? rows : [...rows, op.row];
+  } else if (op.type === 'update') {
+    next = rows.map(r => r.id === op.row.id ? op.row : r);
+  } else {
+    next = rows.filter(r => r.id !== op.id);
+  }
+  return { ...data, [op.collection]: next };
+};
+
+export const describeOp = (op: OutboxOp): string => {
+  const noun = COLLECTION_LABELS[op.collection];
+  if (op.type === 'insert') return `Add ${noun}`;
+  if (op.type === 'update') return `Update ${noun}`;
+  return `Delete ${noun}`;
+};
+
+export const outbox = {
+  list(): OutboxItem[] {
+    return readItems();
+  },
+
+  pending(): OutboxItem[] {
+    return readItems().filter(item => !item.failed);
+  },
+
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  enqueue(op: OutboxOp) {
+    writeItems([...readItems(), { id: crypto.randomUUID(), op, queuedAt: Date.now(), attempts: 0 }]);
+  },
+
+  complete(id: string) {
+    writeItems(readItems().filter(item => item.id !== id));
+  },
+
+  recordFailure(id: string, error: string, rejected: boolean) {
+    writeItems(readItems().map(item => item.id === id
+      ? { ...item, attempts: item.attempts + 1, lastError: error, failed: rejected }
+      : item
+    ));
+  },
+
+  retry(id: string) {
+    writeItems(readItems().map(item => item.id === id ? { ...item, failed: false } : item));
+  },
+
+  discard(id: string) {
+    outbox.complete(id);
+  },
+
+  clear() {
+    writeItems([]);
+  }
+};
@@ -0,0 +1,95 @@
+import { AppData, Client, User, UserRole } from '../types';
+
+// Everything a role can be allowed to do. Components ask `can(user, action)` instead of checking roles.
+export type Action =
+  | 'clients.viewAll'
+  | 'clients.create'
+  | 'clients.edit'
+  | 'clients.archive'
+  | 'clients.delete'
+  | 'projects.create'
+  | 'projects.edit'
+  | 'projects.delete'
+  | 'quotes.create'
+  | 'quotes.edit'
+  | 'quotes.delete'
+  | 'invoices.create'
+  | 'invoices.edit'
+  | 'invoices.void'
+  | 'recurring.create'
+  | 'recurring.edit'
+  | 'recurring.delete'
+  | 'payments.create'
+  | 'payments.edit'
+  | 'payments.delete'
+  | 'expenses.create'
+  | 'expenses.edit'
+  | 'expenses.delete'
+  | 'reports.export'
+  | 'activity.view'
+  | 'recycleBin.manage'
+  | 'users.manage'
+  | 'settings.view'
+  | 'settings.backend'
+  | 'settings.security'
+  | 'settings.invoicing'
+  | 'data.export'
+  | 'data.import'
+  | 'data.clear';
+
+const ALL_ACTIONS: Action[] = [
+  'clients.viewAll', 'clients.create', 'clients.edit', 'clients.archive', 'clients.delete',
+  'projects.create', 'projects.edit', 'projects.delete',
+  'quotes.create', 'quotes.edit', 'quotes.delete',
+  'invoices.create', 'invoices.edit', 'invoices.void',
+  'recurring.create', 'recurring.edit', 'recurring.delete',
+  'payments.create', 'payments.edit', 'payments.delete',
+  'expenses.create', 'expenses.edit', 'expenses.delete',
+  'reports.export', 'activity.view', 'recycleBin.manage', 'users.manage',
+  'settings.view', 'settings.backend', 'settings.security', 'settings.invoicing', 'data.export', 'data.import', 'data.clear'
+];
+
+export const PERMISSIONS: Record<UserRole, ReadonlySet<Action>> = {
+  [UserRole.ADMIN]: new Set(ALL_ACTIONS),
+  // Day-to-day bookkeeping: records and corrects transactions, but never deletes or touches settings
+  [UserRole.ACCOUNTANT]: new Set<Action>([
+    'clients.viewAll',
+    'projects.create', 'projects.edit',
+    'quotes.create', 'quotes.edit',
+    'invoices.create', 'invoices.edit',
+    'recurring.create', 'recurring.edit',
+    'payments.create', 'payments.edit',
+    'expenses.create', 'expenses.edit',
+    'reports.export'
+  ]),
+  // Staff only see the clients assigned to them
+  [UserRole.VIEWER]: new Set<Action>(['reports.export'])
+};
+
+export const can = (user: User | null | undefined, action: Action): boolean =>
+  !!user && !!PERMISSIONS[user.role]?.has(action);
+
+export const canSeeClient = (user: User | null | undefined, client: Client): boolean =>
+  can(user, 'clients.viewAll') || (!!user && !!client.assignedTo?.includes(user.email));
+
+// Narrows data to what the user may see: their assigned clients and those clients' projects, quotes, invoices, billing and payments,
+// plus expenses charged to those projects. Overheads with no project stay with the roles that see every client.
+// The Supabase row-level policies in Settings apply the same rule on the server.
+export const visibleData = (data: AppData, user: User | null | undefined): AppData => {
+  if (can(user, 'clients.viewAll')) return data;
+  const clients = data.clients.filter(c => canSeeClient(user, c));
+  const clientIds = new Set(clients.map(c => c.id));
+  const projects = data.projects.filter(p => clientIds.has(p.clientId));
+  const projectIds = new Set(projects.map(p => p.id));
+  return {
+    ...data,
+    clients,
+    projects,
+    quotes: data.quotes.filter(q => clientIds.has(q.clientId)),
+    invoices: data.invoices.filter(inv => clientIds.has(inv.clientId)),
+    billingTemplates: data.billingTemplates.filter(t => clientIds.has(t.clientId)),
+    payments: data.payments.filter(p => clientIds.has(p.clientId)),
+    expenses: data.expenses.filter(e => !!e.projectId && projectIds.has(e.projectId)),
+    expenseRules: data.expenseRules.filter(r => !!r.projectId && projectIds.has(r.projectId))
+  };
+};
@@ -0,0 +1,46 @@
+import { Invoice, Project, Quote, QuoteStatus } from '../types';
+import { Money } from './money';
+import { invoiceTotals } from './finance';
+import { getInvoiceNumbering, nextInvoiceNumber } from './invoices';
+
+// Quotes share the invoice numbering settings but run in their own series, e.g. QT-2026-0001
+export const nextQuoteNumber = (quotes: Quote[], issueDate: string): string =>
+  nextInvoiceNumber(quotes, issueDate, { ...getInvoiceNumbering(), prefix: 'QT' });
+
+export const quoteStatus = (quote: Quote, today: string): QuoteStatus =>
+  quote.status === 'SENT' && quote.validUntil < today ? 'EXPIRED' : quote.status;
+
+export const quoteTotal = (quote: Pick<Quote, 'lines' | 'taxRate'>): Money => invoiceTotals(quote).total;
+
+// What the quote has been converted to so far. A deleted or void invoice, or a deleted project, frees it to be converted again.
+export const quoteInvoiceOf = (quote: Quote, invoices: Invoice[]) =>
+  invoices.find(inv => inv.id === quote.invoiceId && inv.status !== 'VOID');
+
+export const quoteProjectOf = (quote: Quote, projects: Project[]) =>
+  projects.find(p => p.id === quote.projectId);
+
+// The draft invoice an accepted quote converts to, with the same lines and tax, to be reviewed and sent from Invoices
+export const quoteInvoice = (quote: Quote, issueDate: string, projectId?: string | null): Invoice => ({
+  id: crypto.randomUUID(),
+  clientId: quote.clientId,
+  projectId: projectId || null,
+  issueDate,
+  dueDate: '',
+  lines: quote.lines.map(line => ({ ...line, id: crypto.randomUUID() })),
+  taxRate: quote.taxRate,
+  notes: quote.number ? `As per quotation ${quote.number}` : '',
+  status: 'DRAFT',
+  createdAt: Date.now()
+});
+
+// The project an accepted quote converts to; its contract value is the quoted total, tax included
+export const quoteProject = (quote: Quote, startDate: string): Project => ({
+  id: crypto.randomUUID(),
+  clientId: quote.clientId,
+  name: quote.title,
+  contractValue: quoteTotal(quote),
+  startDate,
+  status: 'ACTIVE',
+  milestones: [],
+  createdAt: Date.now()
+});
@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import { BillingTemplate, ExpenseRule } from '../types';
+import { fromTaka } from './money';
+import {
+  MAX_CATCH_UP,
+  billingQueue,
+  dueExpenseRun,
+  duePeriods,
+  firstOccurrence,
+  followingDate,
+  isFinished,
+  localDay,
+  periodLabel,
+  skippedOccurrences
+} from './recurring';
+
+const template = (overrides: Partial<BillingTemplate> = {}): BillingTemplate => ({
+  id: 't1',
+  clientId: 'c1',
+  description: 'Hosting',
+  amount: fromTaka(1000),
+  taxRate: 0,
+  frequency: 'MONTHLY',
+  startDate: '2026-01-31',
+  nextDate: '2026-01-31',
+  createdAt: 0,
+  ...overrides
+});
+
+const rule = (overrides: Partial<ExpenseRule> = {}): ExpenseRule => ({
+  id: 'r1',
+  category: 'Rent',
+  amount: fromTaka(25000),
+  description: 'Office rent',
+  frequency: 'MONTHLY',
+  startDate: '2026-01-10',
+  nextDate: '2026-01-10',
+  createdAt: 0,
+  ...overrides
+});
+
+describe('followingDate', () => {
+  it('keeps month-end schedules on the last day without drifting after short months', () => {
+    const schedule = { frequency: 'MONTHLY' as const, startDate: '2026-01-31' };
+    expect(followingDate(schedule, '2026-01-31')).toBe('2026-02-28');
+    expect(followingDate(schedule, '2026-02-28')).toBe('2026-03-31');
+    expect(followingDate(schedule, '2026-11-30')).toBe('2026-12-31');
+    expect(followingDate(schedule, '2026-12-31')).toBe('2027-01-31');
+  });
+
+  it('steps quarterly and yearly schedules from the start date', () => {
+    expect(followingDate({ frequency: 'QUARTERLY', startDate: '2026-01-15' }, '2026-01-15')).toBe('2026-04-15');
+    expect(followingDate({ frequency: 'QUARTERLY', startDate: '2026-11-30' }, '2026-11-30')).toBe('2027-02-28');
+    const leap = { frequency: 'YEARLY' as const, startDate: '2024-02-29' };
+    expect(followingDate(leap, '2024-02-29')).toBe('2025-02-28');
+    expect(followingDate(leap, '2027-02-28')).toBe('2028-02-29');
+  });
+
+  it('uses the day of month over the start date day', () => {
+    expect(followingDate({ frequency: 'MONTHLY', startDate: '2026-04-10', dayOfMonth: 31 }, '2026-04-10')).toBe('2026-05-31');
+  });
+});
+
+describe('localDay', () => {
+  it('gives the calendar day where the user is, not the UTC one', () => {
+    expect(localDay(new Date(2026, 0, 31, 23, 59).getTime())).toBe('2026-01-31');
+    expect(localDay(new Date(2026, 1, 1, 0, 1).getTime())).toBe('2026-02-01');
+  });
+});
+
+describe('duePeriods', () => {
+  it('lists every period from the next date up to today', () => {
+    expect(duePeriods(template(), '2026-04-29')).toEqual(['2026-01-31', '2026-02-28', '2026-03-31']);
+    expect(duePeriods(template(), '2026-01-30')).toEqual([]);
+  });
+
+  it('stops at the end date and reports the schedule finished once past it', () => {
+    const ending = template({ endDate: '2026-02-28' });
+    expect(duePeriods(ending, '2026-12-31')).toEqual(['2026-01-31', '2026-02-28']);
+    expect(isFinished(ending)).toBe(false);
+    expect(isFinished({ ...ending, nextDate: '2026-03-31' })).toBe(true);
+  });
+
+  it('returns nothing while paused', () => {
+    expect(duePeriods(template({ paused: true }), '2026-12-31')).toEqual([]);
+  });
+
+  it('caps how far a long-missed schedule catches up', () => {
+    const periods = duePeriods(template({ startDate: '2010-01-31', nextDate: '2010-01-31' }), '2026-12-31');
+    expect(periods).toHaveLength(MAX_CATCH_UP);
+    expect(periods[0]).toBe('2010-01-31');
+  });
+});
+
+describe('periodLabel', () => {
+  it('names the month, or the months a longer period covers', () => {
+    expect(periodLabel({ frequency: 'MONTHLY', startDate: '2026-10-01' }, '2026-10-01')).toBe('Oct 2026');
+    expect(periodLabel({ frequency: 'QUARTERLY', startDate: '2026-11-01' }, '2026-11-01')).toBe('Nov 2026 – Jan 2027');
+  });
+});
+
+describe('billingQueue', () => {
+  it('orders due periods oldest first and marks the earliest of each template', () => {
+    const queue = billingQueue([
+      template({ id: 'late', startDate: '2026-02-05', nextDate: '2026-02-05', createdAt: 1 }),
+      template({ id: 'early' }),
+      template({ id: 'paused', paused: true })
+    ], '2026-03-10');
+    expect(queue.map(run => [run.template.id, run.date, run.first])).toEqual([
+      ['early', '2026-01-31', true],
+      ['late', '2026-02-05', true],
+      ['early', '2026-02-28', false],
+      ['late', '2026-03-05', false]
+    ]);
+  });
+});
+
+describe('firstOccurrence', () => {
+  it('picks the day in the same month when it has not passed yet', () => {
+    expect(firstOccurrence('2026-01-15', 20)).toBe('2026-01-20');
+    expect(firstOccurrence('2026-01-15', 15)).toBe('2026-01-15');
+  });
+
+  it('moves to the next month once the day has passed, clamped to short months', () => {
+    expect(firstOccurrence('2026-01-15', 10)).toBe('2026-02-10');
+    expect(firstOccurrence('2026-02-15', 31)).toBe('2026-02-28');
+    expect(firstOccurrence('2026-12-31', 30)).toBe('2027-01-30');
+  });
+});
+
+describe('dueExpenseRun', () => {
+  it('posts the earliest due occurrence and moves the rule on by one', () => {
+    const run = dueExpenseRun(rule({ projectId: 'pr1' }), '2026-03-01');
+    expect(run!.expense).toMatchObject({
+      category: 'Rent',
+      amount: fromTaka(25000),
+      date: '2026-01-10',
+      description: 'Office rent',
+      projectId: 'pr1',
+      recurringRuleId: 'r1'
+    });
+    expect(run!.rule.nextDate).toBe('2026-02-10');
+    expect(run!.rule.skipDates).toEqual([]);
+  });
+
+  it('returns null once the rule is up to date or past its end date', () => {
+    expect(dueExpenseRun(rule({ nextDate: '2026-02-10' }), '2026-02-09')).toBeNull();
+    expect(dueExpenseRun(rule({ nextDate: '2026-04-10', endDate: '2026-03-31' }), '2026-06-01')).toBeNull();
+  });
+
+  it('passes over an occurrence chosen to be skipped without flagging it again', () => {
+    const run = dueExpenseRun(rule({ skipDates: ['2026-01-10'] }), '2026-03-01');
+    expect(run!.expense).toBeNull();
+    expect(run!.rule).toMatchObject({ nextDate: '2026-02-10', skipDates: ['2026-01-10'] });
+  });
+
+  it('moves a paused rule on, flagging each occurrence as skipped', () => {
+    let paused = rule({ paused: true });
+    for (let run = dueExpenseRun(paused, '2026-03-15'); run; run = dueExpenseRun(paused, '2026-03-15')) {
+      expect(run.expense).toBeNull();
+      paused = run.rule;
+    }
+    expect(paused).toMatchObject({ nextDate: '2026-04-10', paused: true, skipDates: ['2026-01-10', '2026-02-10', '2026-03-10'] });
+  });
+
+  it('resumes from the present rather than back-posting the paused months', () => {
+    const resumed = { ...dueExpenseRun(rule({ paused: true }), '2026-01-31')!.rule, paused: false };
+    const run = dueExpenseRun(resumed, '2026-02-15');
+    expect(run!.expense!.date).toBe('2026-02-10');
+    expect(skippedOccurrences(run!.rule)).toEqual(['2026-01-10']);
+  });
+});
+
+describe('skippedOccurrences', () => {
+  it('lists passed-over occurrences most recent first, leaving out ones still ahead', () => {
+    expect(skippedOccurrences(rule({ nextDate: '2026-04-10', skipDates: ['2026-01-10', '2026-03-10', '2026-05-10'] })))
+      .toEqual(['2026-03-10', '2026-01-10']);
+  });
+});
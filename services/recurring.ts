@@ -0,0 +1,159 @@
+import { BillingTemplate, Expense, ExpenseRule, Invoice, RecurrenceFrequency, RecurringSchedule } from '../types';
+import { Money } from './money';
+import { invoiceTotals } from './finance';
+
+// Period arithmetic for anything that repeats on a schedule, and the review queue built from it.
+// Nothing here writes: due periods are worked out from each schedule's `nextDate` every time the
+// app loads, so a queue missed for a few months simply catches up on the next visit.
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  MONTHLY: 'Monthly',
+  QUARTERLY: 'Quarterly',
+  YEARLY: 'Yearly'
+};
+
+const FREQUENCY_MONTHS: Record<RecurrenceFrequency, number> = {
+  MONTHLY: 1,
+  QUARTERLY: 3,
+  YEARLY: 12
+};
+
+// Catch-up stops here so a schedule started long ago can't flood the queue
+export const MAX_CATCH_UP = 24;
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const parts = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return { year, month, day };
+};
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+// `months` after `date`, on `day` (its own day by default) where the target month has it (31 Jan + 1 → 28 Feb)
+const addMonths = (date: string, months: number, day = parts(date).day): string => {
+  const { year, month } = parts(date);
+  const index = year * 12 + (month - 1) + months;
+  const y = Math.floor(index / 12);
+  const m = (index % 12) + 1;
+  return `${y}-${pad(m)}-${pad(Math.min(day, daysInMonth(y, m)))}`;
+};
+
+// The first `day` of the month on or after `from`
+export const firstOccurrence = (from: string, day: number): string => {
+  const sameMonth = addMonths(from, 0, day);
+  return sameMonth >= from ? sameMonth : addMonths(from, 1, day);
+};
+
+// The local calendar day of a timestamp (now by default), as YYYY-MM-DD. Schedules fall due by the user's own
+// date: toISOString() gives the UTC day, which is still yesterday until 6 AM in Dhaka.
+export const localDay = (at = Date.now()): string => {
+  const d = new Date(at);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+export const addDays = (date: string, days: number): string => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+};
+
+// The period after `date`, always counted from the start date so short months don't drift the day
+export const followingDate = (schedule: Pick<RecurringSchedule, 'frequency' | 'startDate' | 'dayOfMonth'>, date: string): string => {
+  const step = FREQUENCY_MONTHS[schedule.frequency];
+  const start = parts(schedule.startDate);
+  const current = parts(date);
+  const elapsed = (current.year - start.year) * 12 + (current.month - start.month);
+  return addMonths(schedule.startDate, (Math.floor(elapsed / step) + 1) * step, schedule.dayOfMonth ?? start.day);
+};
+
+// True once every period up to the end date has been posted or skipped
+export const isFinished = (schedule: RecurringSchedule) => !!schedule.endDate && schedule.nextDate > schedule.endDate;
+
+// Periods from `nextDate` up to and including today that haven't been dealt with yet
+export const duePeriods = (schedule: RecurringSchedule, today: string): string[] => {
+  if (schedule.paused) return [];
+  const dates: string[] = [];
+  let date = schedule.nextDate;
+  while (date <= today && (!schedule.endDate || date <= schedule.endDate) && dates.length < MAX_CATCH_UP) {
+    dates.push(date);
+    date = followingDate(schedule, date);
+  }
+  return dates;
+};
+
+// "Oct 2026" for monthly periods, "Oct 2026 – Dec 2026" for longer ones
+export const periodLabel = (schedule: Pick<RecurringSchedule, 'frequency' | 'startDate'>, date: string): string => {
+  const monthYear = (d: string) => `${MONTH_NAMES[parts(d).month - 1]} ${parts(d).year}`;
+  if (schedule.frequency === 'MONTHLY') return monthYear(date);
+  return `${monthYear(date)} – ${monthYear(addMonths(date, FREQUENCY_MONTHS[schedule.frequency] - 1))}`;
+};
+
+// One due period of a billing template, waiting to be posted or skipped
+export interface BillingRun {
+  template: BillingTemplate;
+  date: string;
+  first: boolean; // Periods are posted in order, so only the earliest of each template can be acted on
+}
+
+// Every due period across active templates, oldest first
+export const billingQueue = (templates: BillingTemplate[], today: string): BillingRun[] =>
+  templates
+    .flatMap(template => duePeriods(template, today).map((date, i) => ({ template, date, first: i === 0 })))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.template.createdAt - b.template.createdAt);
+
+// What each period bills, tax included
+export const billingTotal = (template: BillingTemplate): Money =>
+  invoiceTotals({ lines: [{ id: template.id, description: template.description, quantity: 1, rate: template.amount }], taxRate: template.taxRate }).total;
+
+// The invoice a billing period posts as. It is sent straight away; the caller assigns its number.
+export const billingInvoice = (template: BillingTemplate, date: string): Invoice => ({
+  id: crypto.randomUUID(),
+  clientId: template.clientId,
+  projectId: template.projectId || null,
+  billingTemplateId: template.id,
+  issueDate: date,
+  dueDate: template.dueDays ? addDays(date, template.dueDays) : '',
+  lines: [{ id: crypto.randomUUID(), description: `${template.description} (${periodLabel(template, date)})`, quantity: 1, rate: template.amount }],
+  taxRate: template.taxRate,
+  notes: '',
+  status: 'SENT',
+  createdAt: Date.now()
+});
+
+// One occurrence of an expense rule that has fallen due. Skipped ones only move the rule on.
+export interface ExpenseRun {
+  rule: ExpenseRule; // With `nextDate` moved past this occurrence, and the date flagged if it was skipped
+  expense: Expense | null;
+}
+
+// The earliest occurrence due by today, or null when the rule is up to date. Paused rules still move on,
+// flagging each occurrence as skipped, so resuming a rule doesn't back-post the months it was paused for.
+export const dueExpenseRun = (rule: ExpenseRule, today: string): ExpenseRun | null => {
+  const [date] = duePeriods({ ...rule, paused: false }, today);
+  if (!date) return null;
+  const skipDates = rule.skipDates || [];
+  const skipped = !!rule.paused || skipDates.includes(date);
+  return {
+    rule: {
+      ...rule,
+      nextDate: followingDate(rule, date),
+      skipDates: skipped && !skipDates.includes(date) ? [...skipDates, date] : skipDates
+    },
+    expense: skipped ? null : {
+      id: crypto.randomUUID(),
+      category: rule.category,
+      amount: rule.amount,
+      date,
+      description: rule.description,
+      projectId: rule.projectId || null,
+      recurringRuleId: rule.id
+    }
+  };
+};
+
+// Occurrences the rule has passed over, most recent first
+export const skippedOccurrences = (rule: ExpenseRule): string[] =>
+  (rule.skipDates || []).filter(date => date < rule.nextDate).sort().reverse();
@@ -1,15 +1,21 @@
+import { Money } from './services/money';
 
 export enum ViewState {
   DASHBOARD = 'DASHBOARD',
   CLIENTS = 'CLIENTS',
+  QUOTES = 'QUOTES',
+  INVOICES = 'INVOICES',
   PAYMENTS = 'PAYMENTS',
   EXPENSES = 'EXPENSES',
   REPORTS = 'REPORTS',
+  ACTIVITY = 'ACTIVITY',
   SETTINGS = 'SETTINGS'
 }
 
+// What each role may do is defined in services/permissions.ts
 export enum UserRole {
   ADMIN = 'ADMIN',
+  ACCOUNTANT = 'ACCOUNTANT',
   VIEWER = 'VIEWER'
 }
 
@@ -19,6 +25,21 @@ export interface User {
   role: UserRole;
 }
 
+export type UserStatus = 'INVITED' | 'ACTIVE' | 'DEACTIVATED';
+
+// An entry in the user directory. Passwords are held by the auth provider, never here.
+export interface UserAccount {
+  id: string;
+  email: string; // Lower-cased; matched against the signed-in identity
+  name: string;
+  role: UserRole;
+  status: UserStatus; // INVITED until the first sign-in; DEACTIVATED accounts cannot sign in
+  createdAt: number;
+  invitedBy?: string; // Email of the admin who invited them
+  version?: number;
+  updatedAt?: number;
+}
+
 export interface Client {
   id: string;
   name: string;
@@ -28,32 +49,193 @@ export interface Client {
   notes?: string;
   createdAt: number;
   isActive?: boolean;
-  totalBilled?: number; // Total Project Value
+  totalBilled?: Money; // Opening balance: billed before invoicing, added to the client's invoices
+  archivedAt?: number | null; // Archived clients are hidden from lists and pickers but keep their history
+  assignedTo?: string[]; // Emails of the staff who manage this client; only they see it unless their role sees every client
+  version?: number; // Incremented on every save; used to detect concurrent edits
+  updatedAt?: number;
+}
+
+export type ProjectStatus = 'ACTIVE' | 'ON_HOLD' | 'COMPLETED' | 'CANCELLED';
+
+// A billable stage of a project (advance, delivery, handover, ...). Completing one raises a draft invoice for it.
+export interface Milestone {
+  id: string;
+  name: string;
+  amount: Money;
+  dueDate?: string; // ISO Date string YYYY-MM-DD
+  completedAt?: string; // ISO date the work was signed off
+  invoiceId?: string; // The invoice raised when it was completed
+}
+
+// A piece of work for one client with its own contract value; payments and expenses can be tagged to it
+export interface Project {
+  id: string;
+  clientId: string;
+  name: string;
+  contractValue: Money;
+  startDate?: string; // ISO Date string YYYY-MM-DD
+  endDate?: string;
+  status: ProjectStatus;
+  milestones?: Milestone[]; // Billing schedule, in order
+  createdAt: number;
+  version?: number;
+  updatedAt?: number;
+}
+
+// Part of a payment applied to one invoice. Whatever isn't allocated is held as client credit.
+export interface PaymentAllocation {
+  invoiceId: string;
+  amount: Money;
 }
 
 export interface Payment {
   id: string;
   clientId: string;
-  amount: number;
+  amount: Money; // Integer paisa, like every stored amount. Use services/money.ts for arithmetic
   date: string; // ISO Date string YYYY-MM-DD
   description?: string;
   method?: string;
   details?: string;
   type?: 'RECEIVED' | 'REFUND'; // Transaction type
+  allocations?: PaymentAllocation[]; // Received payments only
+  projectId?: string | null; // One of the client's projects
+  version?: number;
+  updatedAt?: number;
+  deletedAt?: number | null; // Set when moved to the recycle bin
 }
 
 export interface Expense {
   id: string;
   category: string;
-  amount: number;
+  amount: Money;
   date: string; // ISO Date string YYYY-MM-DD
   description: string;
+  projectId?: string | null; // Cost of a client project
+  recurringRuleId?: string | null; // Set when posted by a recurring expense rule
+  version?: number;
+  updatedAt?: number;
+  deletedAt?: number | null; // Set when moved to the recycle bin
+}
+
+// Posts the same expense every period (rent, salaries, subscriptions) automatically when the app loads.
+// Edits only change occurrences from `nextDate` on; expenses already posted keep their own values.
+export interface ExpenseRule extends RecurringSchedule {
+  id: string;
+  category: string;
+  amount: Money; // Per occurrence
+  description: string;
+  projectId?: string | null;
+  skipDates?: string[]; // Occurrences passed over without posting: chosen ahead of time, or missed while paused
+  createdAt: number;
+  version?: number;
+  updatedAt?: number;
+}
+
+// Only DRAFT, SENT and VOID are stored; the paid states are worked out from payment allocations (see invoiceStatus in services/finance.ts)
+export type InvoiceStatus = 'DRAFT' | 'SENT' | 'PARTIALLY_PAID' | 'PAID' | 'VOID';
+
+export interface InvoiceLine {
+  id: string;
+  description: string;
+  quantity: number;
+  rate: Money; // Per unit
+}
+
+export interface Invoice {
+  id: string;
+  number?: string; // Assigned when the invoice is first sent, e.g. EIT-2026-0001; drafts have none
+  clientId: string;
+  projectId?: string | null;
+  billingTemplateId?: string | null; // Set when posted from a recurring billing template
+  issueDate: string; // ISO Date string YYYY-MM-DD
+  dueDate?: string;
+  lines: InvoiceLine[];
+  taxRate: number; // Percent added to the line total
+  notes?: string;
+  status: Extract<InvoiceStatus, 'DRAFT' | 'SENT' | 'VOID'>; // Only drafts can be edited; sent invoices are voided, never deleted
+  createdAt: number;
+  version?: number;
+  updatedAt?: number;
+}
+
+// Only DRAFT, SENT, ACCEPTED and REJECTED are stored; a sent quote past its validity date shows as EXPIRED (see quoteStatus in services/quotes.ts)
+export type QuoteStatus = 'DRAFT' | 'SENT' | 'ACCEPTED' | 'REJECTED' | 'EXPIRED';
+
+// A priced offer sent before the work is won. Once accepted it can be turned into an invoice, a project, or both.
+export interface Quote {
+  id: string;
+  number?: string; // Assigned when the quote is first sent, e.g. QT-2026-0001; drafts have none
+  clientId: string;
+  title: string; // What the work is; becomes the project name on conversion
+  issueDate: string; // ISO Date string YYYY-MM-DD
+  validUntil: string; // Last day the client can accept it
+  lines: InvoiceLine[];
+  taxRate: number;
+  notes?: string;
+  status: Extract<QuoteStatus, 'DRAFT' | 'SENT' | 'ACCEPTED' | 'REJECTED'>; // Accepted and rejected quotes can no longer be edited
+  respondedAt?: string; // ISO date the client accepted or rejected it
+  invoiceId?: string | null; // The invoice raised from it
+  projectId?: string | null; // The project created from it
+  createdAt: number;
+  version?: number;
+  updatedAt?: number;
+}
+
+export type RecurrenceFrequency = 'MONTHLY' | 'QUARTERLY' | 'YEARLY';
+
+// When something repeats. Periods fall on the start date's (or `dayOfMonth`'s) day of the month, clamped to short months.
+export interface RecurringSchedule {
+  frequency: RecurrenceFrequency;
+  startDate: string; // ISO Date string YYYY-MM-DD, the first period
+  endDate?: string; // Last day a period may fall on; blank to repeat until stopped
+  nextDate: string; // First period not yet posted or skipped
+  dayOfMonth?: number; // Overrides the start date's day, e.g. 31 for month-end rent
+  paused?: boolean;
+}
+
+// Bills a client the same amount every period (hosting plans, maintenance retainers). Periods that fall due
+// wait in the review queue on the Invoices page until they are posted as invoices or skipped.
+export interface BillingTemplate extends RecurringSchedule {
+  id: string;
+  clientId: string;
+  projectId?: string | null;
+  description: string; // Invoice line text; the period is appended when posted
+  amount: Money; // Per period
+  taxRate: number;
+  dueDays?: number; // Invoices fall due this many days after the period date; blank for no due date
+  createdAt: number;
+  version?: number;
+  updatedAt?: number;
+}
+
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'RESTORE' | 'PURGE' | 'ARCHIVE' | 'UNARCHIVE' | 'ISSUE' | 'VOID' | 'IMPORT' | 'CLEAR';
+
+// Append-only record of a single change made through dataService
+export interface AuditEntry {
+  id: string;
+  at: number; // Epoch ms
+  userEmail: string;
+  userName: string;
+  action: AuditAction;
+  entityType: string; // Collection name, e.g. 'payments'; 'data' for imports and wipes
+  entityId?: string;
+  before?: any; // Snapshot prior to the change
+  after?: any; // Snapshot after the change
 }
 
 export interface AppData {
+  schemaVersion?: number; // See services/migrations.ts
   clients: Client[];
+  projects: Project[];
+  quotes: Quote[];
+  invoices: Invoice[];
+  billingTemplates: BillingTemplate[];
   payments: Payment[];
   expenses: Expense[];
+  expenseRules: ExpenseRule[];
+  auditLog: AuditEntry[];
+  users: UserAccount[];
 }
 
 export interface FinancialSummary {